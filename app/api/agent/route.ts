@@ -1,9 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import parseLLMJson from '@/lib/jsonParser'
 
-const LYZR_TASK_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/task'
+// Both upstream URLs can be pointed at a local mock for testing
+const LYZR_TASK_URL = process.env.LYZR_TASK_URL || 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/task'
+const LYZR_STREAM_URL = process.env.LYZR_STREAM_URL || 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/'
 const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
 
+// Tasks a client has dropped, with the time they were dropped. Polls for these report
+// `cancelled` instead of proxying upstream; entries expire after the client poll window.
+const CANCELLED_TASK_TTL_MS = 10 * 60 * 1000
+const cancelledTasks = new Map<string, number>()
+
+// JSON keys whose string value is streamed as answer text, in priority order
+const STREAM_TEXT_KEYS = ['answer', 'text', 'message', 'response', 'content']
+
 // Types
 interface ArtifactFile {
   file_url: string
@@ -114,12 +124,115 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
   }
 }
 
+/**
+ * Reads the (possibly unterminated) JSON string value of `key` from partial LLM output.
+ * Returns null while the key has not appeared yet.
+ */
+function extractPartialJsonString(raw: string, key: string): string | null {
+  const keyMatch = new RegExp(`"${key}"\\s*:\\s*"`).exec(raw)
+  if (!keyMatch) return null
+
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' }
+  let out = ''
+  let i = keyMatch.index + keyMatch[0].length
+  while (i < raw.length) {
+    const ch = raw[i]
+    if (ch === '"') break
+    if (ch === '\\') {
+      const next = raw[i + 1]
+      if (next === undefined) break
+      if (next === 'u') {
+        const hex = raw.substring(i + 2, i + 6)
+        if (hex.length < 4) break
+        out += String.fromCharCode(parseInt(hex, 16))
+        i += 6
+        continue
+      }
+      out += escapes[next] ?? next
+      i += 2
+      continue
+    }
+    out += ch
+    i++
+  }
+  return out
+}
+
+/**
+ * Finds every `"key": [ ... ]` in partial LLM output whose array is already closed.
+ */
+function extractCompleteJsonArrays(raw: string): Record<string, any[]> {
+  const found: Record<string, any[]> = {}
+  const keyRegex = /"(\w+)"\s*:\s*\[/g
+  let match: RegExpExecArray | null
+  while ((match = keyRegex.exec(raw)) !== null) {
+    const start = match.index + match[0].length - 1
+    let depth = 0
+    let inString = false
+    for (let i = start; i < raw.length; i++) {
+      const ch = raw[i]
+      if (inString) {
+        if (ch === '\\') i++
+        else if (ch === '"') inString = false
+        continue
+      }
+      if (ch === '"') inString = true
+      else if (ch === '[') depth++
+      else if (ch === ']' && --depth === 0) {
+        try {
+          const value = JSON.parse(raw.substring(start, i + 1))
+          if (Array.isArray(value)) found[match[1]] = value
+        } catch {
+          // Not valid JSON yet -- picked up on a later chunk
+        }
+        break
+      }
+    }
+  }
+  return found
+}
+
+/**
+ * Answer text visible so far. JSON agents stream their object, so the text lives in one of
+ * STREAM_TEXT_KEYS; anything that does not look like JSON is streamed verbatim.
+ */
+function extractStreamedText(raw: string): string {
+  const trimmed = raw.replace(/^\s*```(?:json)?\s*/i, '')
+  if (!trimmed.startsWith('{')) return raw
+  for (const key of STREAM_TEXT_KEYS) {
+    const value = extractPartialJsonString(trimmed, key)
+    if (value !== null) return value
+  }
+  return ''
+}
+
+/**
+ * Upstream SSE `data:` payloads are either raw token text or small JSON envelopes
+ */
+function readUpstreamChunk(data: string): string {
+  try {
+    const parsed = JSON.parse(data)
+    if (typeof parsed === 'string') return parsed
+    if (parsed && typeof parsed === 'object') {
+      const text = parsed.content ?? parsed.delta ?? parsed.text ?? parsed.message ?? parsed.chunk
+      if (typeof text === 'string') return text
+    }
+  } catch {
+    // Plain token text
+  }
+  return data
+}
+
 /**
  * POST /api/agent
  *
- * Two modes, both POST:
- *   1. Submit:  body has { message, agent_id, ... }  → submits task, returns { task_id }
- *   2. Poll:    body has { task_id }                  → polls Lyzr, returns status/result
+ * Three modes, all POST:
+ *   1. Submit:  body has { message, agent_id, ... }                → submits task, returns { task_id }
+ *   2. Poll:    body has { task_id }                                → polls Lyzr, returns status/result
+ *   3. Stream:  body has { message, agent_id, ..., stream: true }  → text/event-stream of
+ *               `session`, `delta` { text }, `field` { name, value }, then `done` (same shape as a
+ *               completed poll) or `error`. When upstream refuses the stream, nothing was submitted
+ *               and the answer is a 200 JSON body with `stream: 'unavailable'`.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -141,6 +254,11 @@ export async function POST(request: NextRequest) {
       return pollTask(body.task_id)
     }
 
+    // ── Stream mode: body has message + agent_id + stream ──
+    if (body.stream) {
+      return streamTask(body, request.signal)
+    }
+
     // ── Submit mode: body has message + agent_id ──
     return submitTask(body)
   } catch (error) {
@@ -157,36 +275,88 @@ export async function POST(request: NextRequest) {
 }
 
 /**
- * Submit a new async task to Lyzr
+ * DELETE /api/agent
+ *
+ * Body { task_id } — the client stopped waiting for this task. Later polls for it
+ * answer `cancelled` without reaching upstream.
  */
-async function submitTask(body: any) {
-  const { message, agent_id, user_id, session_id, assets } = body
+export async function DELETE(request: NextRequest) {
+  try {
+    const { task_id } = await request.json()
 
-  if (!message || !agent_id) {
+    if (!task_id) {
+      return NextResponse.json(
+        { success: false, error: 'task_id is required' },
+        { status: 400 }
+      )
+    }
+
+    const now = Date.now()
+    cancelledTasks.forEach((droppedAt, id) => {
+      if (now - droppedAt > CANCELLED_TASK_TTL_MS) cancelledTasks.delete(id)
+    })
+    cancelledTasks.set(task_id, now)
+
+    return NextResponse.json({ success: true, status: 'cancelled', task_id })
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Server error'
     return NextResponse.json(
-      {
-        success: false,
-        response: { status: 'error', result: {}, message: 'message and agent_id are required' },
-        error: 'message and agent_id are required',
-      },
-      { status: 400 }
+      { success: false, error: errorMsg },
+      { status: 500 }
     )
   }
+}
 
-  const finalUserId = user_id || `user-${generateUUID()}`
-  const finalSessionId = session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+/**
+ * Build the upstream chat payload shared by task submission and streaming
+ */
+function buildChatPayload(body: any): Record<string, any> {
+  const { message, agent_id, user_id, session_id, assets, filter_variables } = body
 
   const payload: Record<string, any> = {
     message,
     agent_id,
-    user_id: finalUserId,
-    session_id: finalSessionId,
+    user_id: user_id || `user-${generateUUID()}`,
+    session_id: session_id || `${agent_id}-${generateUUID().substring(0, 12)}`,
   }
 
   if (assets && assets.length > 0) {
     payload.assets = assets
   }
 
+  // Restricts knowledge base retrieval to chunks whose extra_info matches, e.g. one book's document
+  if (filter_variables && typeof filter_variables === 'object' && Object.keys(filter_variables).length > 0) {
+    payload.filter_variables = filter_variables
+  }
+
+  return payload
+}
+
+function missingFieldsResponse() {
+  return NextResponse.json(
+    {
+      success: false,
+      response: { status: 'error', result: {}, message: 'message and agent_id are required' },
+      error: 'message and agent_id are required',
+    },
+    { status: 400 }
+  )
+}
+
+/**
+ * Submit a new async task to Lyzr
+ */
+async function submitTask(body: any) {
+  const { message, agent_id } = body
+
+  if (!message || !agent_id) {
+    return missingFieldsResponse()
+  }
+
+  const payload = buildChatPayload(body)
+  const finalUserId = payload.user_id
+  const finalSessionId = payload.session_id
+
   const submitRes = await fetch(LYZR_TASK_URL, {
     method: 'POST',
     headers: {
@@ -233,6 +403,15 @@ async function submitTask(body: any) {
  * Poll a task by ID — single request proxy with API key
  */
 async function pollTask(task_id: string) {
+  if (cancelledTasks.has(task_id)) {
+    return NextResponse.json({
+      success: false,
+      status: 'cancelled',
+      response: { status: 'error', result: {}, message: 'Agent task was cancelled' },
+      error: 'Agent task was cancelled',
+    })
+  }
+
   const pollRes = await fetch(`${LYZR_TASK_URL}/${task_id}`, {
     headers: {
       'accept': 'application/json',
@@ -276,8 +455,14 @@ async function pollTask(task_id: string) {
     )
   }
 
-  // Task completed — envelope extraction + parseLLMJson + normalizeResponse
-  const rawText = JSON.stringify(task.response)
+  // Task completed
+  return NextResponse.json(buildCompletedResponse(JSON.stringify(task.response)))
+}
+
+/**
+ * Completed-task body: envelope extraction + parseLLMJson + normalizeResponse
+ */
+function buildCompletedResponse(rawText: string) {
   let moduleOutputs: ModuleOutputs | undefined
   let agentResponseRaw: any = rawText
 
@@ -300,12 +485,156 @@ async function pollTask(task_id: string) {
 
   const normalized = normalizeResponse(toNormalize)
 
-  return NextResponse.json({
+  return {
     success: true,
     status: 'completed',
     response: normalized,
     module_outputs: moduleOutputs,
     timestamp: new Date().toISOString(),
     raw_response: rawText,
+  }
+}
+
+/**
+ * Upstream did not take the stream request, so no turn was submitted. Answered with 200
+ * (not an error status) because the client's fallback to task polling is routine, and
+ * fetchWrapper reports 404 and 5xx responses as backend failures.
+ */
+function streamUnavailableResponse(errorMsg: string, rawResponse?: string) {
+  return NextResponse.json({
+    success: false,
+    stream: 'unavailable',
+    response: { status: 'error', result: {}, message: errorMsg },
+    error: errorMsg,
+    ...(rawResponse ? { raw_response: rawResponse } : {}),
+  })
+}
+
+/**
+ * Stream a chat turn from Lyzr, re-emitting answer text and completed array fields as SSE
+ */
+async function streamTask(body: any, signal: AbortSignal) {
+  const { message, agent_id } = body
+
+  if (!message || !agent_id) {
+    return missingFieldsResponse()
+  }
+
+  const payload = buildChatPayload(body)
+
+  let upstream: Response
+  try {
+    upstream = await fetch(LYZR_STREAM_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'accept': 'text/event-stream',
+        'x-api-key': LYZR_API_KEY,
+      },
+      body: JSON.stringify(payload),
+      signal,
+    })
+  } catch (error) {
+    return streamUnavailableResponse(error instanceof Error ? error.message : 'Stream connection failed')
+  }
+
+  if (!upstream.ok || !upstream.body) {
+    return streamUnavailableResponse(
+      `Stream failed with status ${upstream.status}`,
+      await upstream.text().catch(() => '')
+    )
+  }
+
+  const upstreamReader = upstream.body.getReader()
+  const encoder = new TextEncoder()
+  const decoder = new TextDecoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: any) => {
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          // Client disconnected
+        }
+      }
+
+      send('session', { agent_id, user_id: payload.user_id, session_id: payload.session_id })
+
+      let raw = ''
+      let buffer = ''
+      let sentTextLength = 0
+      const sentFields = new Set<string>()
+
+      const emitProgress = () => {
+        const text = extractStreamedText(raw)
+        if (text.length > sentTextLength) {
+          send('delta', { text: text.substring(sentTextLength) })
+          sentTextLength = text.length
+        }
+        const arrays = extractCompleteJsonArrays(raw)
+        for (const name of Object.keys(arrays)) {
+          if (sentFields.has(name)) continue
+          sentFields.add(name)
+          send('field', { name, value: arrays[name] })
+        }
+      }
+
+      try {
+        let finished = false
+        while (!finished) {
+          const { done, value } = await upstreamReader.read()
+          if (done) break
+          buffer += decoder.decode(value, { stream: true })
+
+          // SSE frames are separated by a blank line; keep the trailing partial frame
+          const frames = buffer.split(/\r?\n\r?\n/)
+          buffer = frames.pop() ?? ''
+          for (const frame of frames) {
+            const data = frame
+              .split(/\r?\n/)
+              .filter(line => line.startsWith('data:'))
+              .map(line => line.substring(5).replace(/^ /, ''))
+              .join('\n')
+            if (!data) continue
+            if (data.trim() === '[DONE]') {
+              finished = true
+              break
+            }
+            raw += readUpstreamChunk(data)
+          }
+          emitProgress()
+        }
+
+        send('done', {
+          ...buildCompletedResponse(raw),
+          agent_id,
+          user_id: payload.user_id,
+          session_id: payload.session_id,
+        })
+      } catch (error) {
+        if (!signal.aborted) {
+          send('error', { error: error instanceof Error ? error.message : 'Stream interrupted' })
+        }
+      } finally {
+        upstreamReader.cancel().catch(() => {})
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+    },
+    cancel() {
+      upstreamReader.cancel().catch(() => {})
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    },
   })
 }
@@ -17,6 +17,9 @@
  *    - fileType (pdf|docx|txt) in URL PATH
  *    - Body: multipart/form-data (file + parser params)
  *    - Headers: x-api-key
+ *    - EPUB uploads are unzipped here and trained as TXT from their spine text; the
+ *      reader app sends the text it already extracted as TXT instead
+ *    - Optional form fields: documentName (stored file name), extraInfo (JSON chunk metadata)
  *
  * 3. DELETE /api/rag (with JSON)  →  DELETE /v3/rag/{rag_id}/docs/
  *    - rag_id in URL PATH
@@ -27,17 +30,139 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
+import { inflateRawSync } from "zlib";
 
 const LYZR_RAG_BASE_URL = "https://rag-prod.studio.lyzr.ai/v3";
 const LYZR_API_KEY = process.env.LYZR_API_KEY || "";
 
+const EPUB_MIME_TYPE = "application/epub+zip";
+
 const FILE_TYPE_MAP: Record<string, "pdf" | "docx" | "txt"> = {
   "application/pdf": "pdf",
   "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
     "docx",
   "text/plain": "txt",
+  // EPUB is trained from its extracted plain text (see epubToTextFile)
+  [EPUB_MIME_TYPE]: "txt",
 };
 
+/**
+ * Minimal zip reader: returns a lookup of entry name -> lazily inflated bytes.
+ * EPUB containers only use the "stored" (0) and "deflate" (8) methods.
+ */
+function readZipEntries(buf: Buffer): Map<string, () => Buffer> {
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 65557); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Invalid EPUB: zip directory not found");
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  const count = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+  for (let n = 0; n < count && buf.readUInt32LE(offset) === 0x02014b50; n++) {
+    const method = buf.readUInt16LE(offset + 10);
+    const compressedSize = buf.readUInt32LE(offset + 20);
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const extraLength = buf.readUInt16LE(offset + 30);
+    const commentLength = buf.readUInt16LE(offset + 32);
+    const localOffset = buf.readUInt32LE(offset + 42);
+    const name = buf.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    const dataStart =
+      localOffset +
+      30 +
+      buf.readUInt16LE(localOffset + 26) +
+      buf.readUInt16LE(localOffset + 28);
+    const data = buf.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, () => (method === 8 ? inflateRawSync(data) : data));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function readXmlAttribute(tag: string, name: string): string {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, "i"));
+  return match ? match[1] : "";
+}
+
+function resolveZipPath(baseDir: string, href: string): string {
+  const out: string[] = [];
+  for (const part of (baseDir + decodeURIComponent(href.split("#")[0])).split("/")) {
+    if (part === "..") out.pop();
+    else if (part && part !== ".") out.push(part);
+  }
+  return out.join("/");
+}
+
+function xhtmlToText(xhtml: string): string {
+  return xhtml
+    .replace(/<head[\s\S]*?<\/head>/gi, "")
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<\/(p|div|h[1-6]|li|blockquote|section|tr)>/gi, "\n\n")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n\s*/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Converts an EPUB upload into a plain-text File, following the OPF spine order.
+ */
+async function epubToTextFile(file: File, name: string): Promise<File> {
+  const entries = readZipEntries(Buffer.from(await file.arrayBuffer()));
+  const readEntry = (name: string) => entries.get(name)?.().toString("utf8") ?? "";
+
+  const opfPath = readXmlAttribute(
+    readEntry("META-INF/container.xml").match(/<rootfile\b[^>]*>/i)?.[0] ?? "",
+    "full-path"
+  );
+  const opf = opfPath ? readEntry(opfPath) : "";
+  if (!opf) {
+    throw new Error("Invalid EPUB: package document not found");
+  }
+  const opfDir = opfPath.includes("/")
+    ? opfPath.substring(0, opfPath.lastIndexOf("/") + 1)
+    : "";
+
+  const manifest = new Map<string, string>();
+  for (const tag of opf.match(/<item\b[^>]*>/gi) ?? []) {
+    const id = readXmlAttribute(tag, "id");
+    const href = readXmlAttribute(tag, "href");
+    if (id && href && /html/i.test(readXmlAttribute(tag, "media-type"))) {
+      manifest.set(id, resolveZipPath(opfDir, href));
+    }
+  }
+
+  const sections = (opf.match(/<itemref\b[^>]*>/gi) ?? [])
+    .map((tag) => manifest.get(readXmlAttribute(tag, "idref")))
+    .filter((path): path is string => !!path)
+    .map((path) => xhtmlToText(readEntry(path)))
+    .filter(Boolean);
+
+  if (sections.length === 0) {
+    throw new Error("EPUB contains no readable text");
+  }
+
+  return new File([sections.join("\n\n")], name.replace(/\.epub$/i, ".txt"), {
+    type: "text/plain",
+  });
+}
+
 // POST - List documents (JSON body) or Upload and train (formData)
 export async function POST(request: NextRequest) {
   try {
@@ -127,6 +252,8 @@ export async function POST(request: NextRequest) {
       const formData = await request.formData();
       const ragId = formData.get("ragId") as string;
       const file = formData.get("file") as File;
+      const documentName = (formData.get("documentName") as string) || "";
+      const extraInfo = (formData.get("extraInfo") as string) || "{}";
 
       if (!ragId || !file) {
         return NextResponse.json(
@@ -143,19 +270,37 @@ export async function POST(request: NextRequest) {
         return NextResponse.json(
           {
             success: false,
-            error: `Unsupported file type: ${file.type}. Supported: PDF, DOCX, TXT`,
+            error: `Unsupported file type: ${file.type}. Supported: PDF, DOCX, TXT, EPUB`,
+          },
+          { status: 400 }
+        );
+      }
+
+      try {
+        JSON.parse(extraInfo);
+      } catch {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "extraInfo must be valid JSON",
           },
           { status: 400 }
         );
       }
 
+      const trainFile =
+        file.type === EPUB_MIME_TYPE
+          ? await epubToTextFile(file, documentName || file.name)
+          : file;
+      const trainName = documentName || trainFile.name;
+
       // Direct upload and train in one step
       const trainFormData = new FormData();
-      trainFormData.append("file", file, file.name);
+      trainFormData.append("file", trainFile, trainName);
       trainFormData.append("data_parser", "llmsherpa");
       trainFormData.append("chunk_size", "1000");
       trainFormData.append("chunk_overlap", "100");
-      trainFormData.append("extra_info", "{}");
+      trainFormData.append("extra_info", extraInfo);
 
       const trainResponse = await fetch(
         `${LYZR_RAG_BASE_URL}/train/${fileType}/?rag_id=${encodeURIComponent(
@@ -188,7 +333,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         message: "Document uploaded and trained successfully",
-        fileName: file.name,
+        fileName: trainName,
         fileType,
         documentCount: trainData.document_count || trainData.chunks || 1,
         ragId,
@@ -1,8 +1,15 @@
 'use client'
 
-import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import React, { useState, useEffect, useCallback, useRef, useMemo, useDeferredValue } from 'react'
 import { callAIAgent } from '@/lib/aiAgent'
-import { uploadAndTrainDocument, validateFile } from '@/lib/ragKnowledgeBase'
+import { uploadAndTrainDocument, validateFile, deleteDocuments, getScopedDocumentName } from '@/lib/ragKnowledgeBase'
+import { buildSearchPattern, searchBookPages, findTextRanges, paintSearchHighlights, clearSearchHighlights, MAX_SEARCH_HITS, type BookSearchOptions } from '@/lib/bookSearch'
+import { groupTextLines, stripRunningLines, reflowTextLines, type PdfTextLine } from '@/lib/pdfReflow'
+import { paginateBlocks, pageIndexForOffset, type LayoutPage } from '@/lib/layoutPagination'
+import { parseKindleClippings, parseClippingsCsv, indexPassages, findPassage, normalizeForMatch, type ClippingEntry } from '@/lib/clippingsImport'
+import { parseXmpMetadata, parsePdfInfo, parseDocxCoreProperties, parseOpfMetadata, detectTextMetadata, mergeMetadata, findIsbn, splitAuthors, joinAuthors, normalizeDate, normalizeIsbn, titleSortKey, authorSortKey, type BookMetadata } from '@/lib/bookMetadata'
+import { imageToThumbnail, firstImageThumbnail, renderPdfPageThumbnail } from '@/lib/coverThumbnails'
+import { createTextAnchor, resolveTextAnchor, indexTextNodes, offsetOfPoint, rangeForOffsets, selectionPageRects, paintTextHighlights, clearTextHighlights, setHighlightPaintColors, caretPointAt, adjustTextAnchor, splitTextAnchor, mergeTextAnchors, anchorSplitPoints, type TextAnchor, type TextQuote, type PageRect } from '@/lib/highlightAnchors'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent } from '@/components/ui/card'
@@ -15,12 +22,14 @@ import { Label } from '@/components/ui/label'
 import { Slider } from '@/components/ui/slider'
 import { Textarea } from '@/components/ui/textarea'
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet'
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
 import { Collapsible, CollapsibleTrigger, CollapsibleContent } from '@/components/ui/collapsible'
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from '@/components/ui/tooltip'
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
+import { Toaster } from '@/components/ui/sonner'
+import { toast } from 'sonner'
 import { cn } from '@/lib/utils'
-import { FiBook, FiBookOpen, FiEdit3, FiUpload, FiSearch, FiSettings, FiMessageSquare, FiSend, FiChevronLeft, FiChevronRight, FiChevronDown, FiBookmark, FiList, FiGrid, FiX, FiCopy, FiTrash2, FiDownload, FiMenu, FiClock, FiFileText, FiZoomIn, FiZoomOut, FiMaximize2, FiFile, FiLoader } from 'react-icons/fi'
+import { FiBook, FiBookOpen, FiEdit3, FiUpload, FiSearch, FiSettings, FiMessageSquare, FiSend, FiChevronLeft, FiChevronRight, FiChevronDown, FiBookmark, FiList, FiGrid, FiX, FiCopy, FiTrash2, FiDownload, FiMenu, FiClock, FiFileText, FiZoomIn, FiZoomOut, FiMaximize2, FiFile, FiLoader, FiPlus, FiCheck, FiSquare, FiChevronUp, FiAlignLeft, FiFolder, FiZap } from 'react-icons/fi'
 import { HiOutlineSparkles } from 'react-icons/hi2'
 import { BiHighlight } from 'react-icons/bi'
 
@@ -30,6 +39,16 @@ const RAG_ID = '699fb1edf572c99c0ffb74f0'
 const PDFJS_CDN = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js'
 const PDFJS_WORKER_CDN = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js'
 const MAMMOTH_CDN = 'https://cdnjs.cloudflare.com/ajax/libs/mammoth/1.6.0/mammoth.browser.min.js'
+const JSZIP_CDN = 'https://cdnjs.cloudflare.com/ajax/libs/jszip/3.10.1/jszip.min.js'
+// Days a deleted item stays in the trash; 0 keeps it until the trash is emptied
+const TRASH_RETENTION_KEY = 'bookshelf_trash_retention_days'
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0]
+const BOOK_FILE_EXTENSIONS = ['pdf', 'docx', 'txt', 'epub']
+// Files of an upload batch extracted at the same time
+const UPLOAD_CONCURRENCY = 2
+// Drag data type for books dragged from the library onto a shelf
+const BOOK_DRAG_TYPE = 'application/x-bookshelf-book'
 
 // ===== TYPES =====
 interface Book {
@@ -37,46 +56,193 @@ interface Book {
   title: string
   author: string
   fileName: string
-  fileType: 'pdf' | 'docx' | 'txt'
+  fileType: 'pdf' | 'docx' | 'txt' | 'epub'
   content: string
   htmlContent: string
   pdfDataBase64: string
   totalPdfPages: number
+  // Printed page labels of a PDF ("iv", "12"), when they differ from the page numbers
+  pageLabels?: string[]
   pages: string[]
   chapters: Chapter[]
   progress: number
   lastRead: string
   uploadDate: string
   coverColor: string
-  bookmarks: number[]
+  // A thumbnail taken from the file is stored under `<id>_cover`; books without one get a typographic cover
+  hasCover: boolean
+  // When the reader replaced the cover with their own image, stored under `<id>_cover_custom`
+  customCover?: string
+  // In the order the reader arranged them
+  bookmarks: Bookmark[]
+  // PDF/EPUB: page or section index. TXT/DOCX: the stored section holding `readingOffset`
   currentPage: number
+  // TXT/DOCX: character offset of the first character on screen, kept across repagination
+  readingOffset?: number
   fileSize: number
+  // SHA-256 of the uploaded file, for spotting the same file uploaded again
+  fileHash?: string
+  ragDocumentName: string
+  // Publication details, read from the file on upload and editable from the library.
+  // Several authors are kept in `author`, joined with " & "
+  publisher?: string
+  language?: string
+  // yyyy, yyyy-mm or yyyy-mm-dd
+  publishedDate?: string
+  isbn?: string
+  description?: string
+  series?: string
+  seriesIndex?: number
+  tags?: string[]
 }
 
 interface Chapter {
   title: string
   startIndex: number
+  // Nesting depth in the table of contents, 0 for top-level entries
+  level: number
+  // Character offset in the book text, for TXT and DOCX books laid out at reading time
+  startOffset?: number
+  children?: Chapter[]
+}
+
+// A named place in a book. `pageIndex` means what `Book.currentPage` does
+interface Bookmark {
+  id: string
+  label: string
+  note: string
+  pageIndex: number
+  // TXT/DOCX: character offset of the first character on screen
+  offset?: number
+  // PDF/EPUB: how far down the page the view was scrolled, 0 at its top and 1 at its bottom
+  scroll?: number
+  createdAt: string
 }
 
 interface Highlight {
   id: string
   bookId: string
   text: string
-  color: 'yellow' | 'green' | 'blue' | 'pink'
+  // Id of a palette color
+  color: string
   note: string
+  // PDF page, or the section for TXT/DOCX/EPUB
   pageIndex: number
+  // Text views: character range with a quote of the passage. Offsets are into the whole
+  // text for TXT/DOCX, the section for EPUB and the reflowed page for PDFs read as text
+  anchor?: TextAnchor
+  // PDF pages: the highlighted lines in page space, and the passage with its context on the
+  // text layer so the reflow view can find it
+  rects?: PageRect[]
+  quote?: TextQuote
+  tags?: string[]
+  createdAt: string
+  // Set whenever the highlight is edited after it was made
+  updatedAt?: string
+}
+
+// A named color of the highlight palette; highlights refer to it by id
+interface HighlightColor {
+  id: string
+  name: string
+  hex: string
+}
+
+interface AnnotationFilter {
+  // 'all' or a book id
+  bookId: string
+  // 'all' or a palette color id
+  color: string
+  // 'all' or a tag, matched case-insensitively
+  tag: string
+  // Creation days as yyyy-mm-dd, both inclusive; empty leaves that end open
+  from: string
+  to: string
+  hasNote: 'any' | 'yes' | 'no'
+  query: string
+}
+
+// A named filter combination in the annotations screen
+interface AnnotationView {
+  id: string
+  name: string
+  filter: AnnotationFilter
   createdAt: string
 }
 
+// A file in the upload queue
+interface UploadTask {
+  id: string
+  file: File
+  status: 'queued' | 'checking' | 'processing' | 'done' | 'failed' | 'duplicate' | 'cancelled'
+  // The current step, or why the file failed or was held back
+  message: string
+  // Percent, while processing
+  progress: number
+  // The new book once done, or the library book a duplicate matches
+  bookId?: string
+  // Set when the reader chose to add a duplicate anyway
+  allowDuplicate?: boolean
+}
+
+// A condition on books for smart shelves. Text conditions match case-insensitively
+type ShelfRule =
+  | { field: 'progress'; min: number; max: number }
+  | { field: 'fileType'; fileType: Book['fileType'] }
+  | { field: 'tag' | 'title' | 'author' | 'series' | 'publisher'; contains: string }
+  // Days since the book was last opened, or since it was added
+  | { field: 'lastRead' | 'uploadDate'; within: boolean; days: number }
+
+// A collection lists its books; a smart shelf holds whichever books match its rules
+interface Shelf {
+  id: string
+  name: string
+  kind: 'collection' | 'smart'
+  // Collections: in the order they were added. A book can be on several collections
+  bookIds: string[]
+  // Smart shelves
+  rules: ShelfRule[]
+  match: 'all' | 'any'
+  createdAt: string
+}
+
+// A deleted book with its highlights, or a single deleted highlight, until it is restored
+// or purged. Keyed by the id of the book or highlight
+interface TrashEntry {
+  id: string
+  deletedAt: string
+  book?: Book
+  highlights: Highlight[]
+}
+
 interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
   content: string
   sources?: string[]
   followUpQuestions?: string[]
+  bookId?: string
+  threadId?: string
+  cancelled?: boolean
   timestamp: string
 }
 
+interface StreamingReply {
+  threadId: string
+  content: string
+  sources: string[]
+  followUpQuestions: string[]
+}
+
+interface ChatThread {
+  id: string
+  bookId?: string
+  title: string
+  sessionId: string
+  createdAt: string
+  updatedAt: string
+}
+
 // ===== CDN LOADERS =====
 async function loadPdfJs(): Promise<any> {
   if (typeof window !== 'undefined' && (window as any).pdfjsLib) return (window as any).pdfjsLib
@@ -115,25 +281,453 @@ async function loadMammoth(): Promise<any> {
   })
 }
 
+async function loadJSZip(): Promise<any> {
+  if (typeof window !== 'undefined' && (window as any).JSZip) return (window as any).JSZip
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script')
+    script.src = JSZIP_CDN
+    script.onload = () => {
+      const lib = (window as any).JSZip
+      if (lib) {
+        resolve(lib)
+      } else {
+        reject(new Error('JSZip failed to load'))
+      }
+    }
+    script.onerror = () => reject(new Error('Failed to load JSZip from CDN'))
+    document.head.appendChild(script)
+  })
+}
+
 // ===== INDEXEDDB STORAGE =====
 const DB_NAME = 'bookshelf_db'
+const DB_VERSION = 9
 const STORE_NAME = 'book_files'
+const INDEX_TERMS_STORE = 'search_terms'
+const INDEX_BOOKS_STORE = 'search_books'
+const BOOKS_STORE = 'books'
+const PAGES_STORE = 'pages'
+const HIGHLIGHTS_STORE = 'highlights'
+const CHAT_THREADS_STORE = 'chat_threads'
+const PALETTE_STORE = 'highlight_palette'
+const ANNOTATION_VIEWS_STORE = 'annotation_views'
+const TRASH_STORE = 'trash'
+const SHELVES_STORE = 'shelves'
+
+// Library state lived in these localStorage keys before schema version 3
+const LEGACY_STORAGE_KEYS = ['bookshelf_books', 'bookshelf_highlights', 'bookshelf_chat']
+
+// Persisted shapes: page text lives in the pages store; PDF bytes, the full text and the
+// DOCX/EPUB markup in book_files, so saving reading progress rewrites only metadata
+type StoredBook = Omit<Book, 'pages' | 'pdfDataBase64' | 'content' | 'htmlContent'>
+
+interface StoredPage {
+  bookId: string
+  index: number
+  text: string
+}
+
+interface StoredChatThread extends ChatThread {
+  messages: ChatMessage[]
+}
+
+interface StoredTrashEntry extends Omit<TrashEntry, 'book'> {
+  book?: StoredBook
+}
+
+// Palette colors keep their order through `position`
+interface StoredHighlightColor extends HighlightColor {
+  position: number
+}
+
+// Schema migrations keyed by the version they upgrade to. They run in order inside the
+// versionchange transaction, so a failing step leaves the database at its old version.
+const DB_MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+  },
+  2: (db) => {
+    db.createObjectStore(INDEX_TERMS_STORE, { keyPath: 'term' })
+    db.createObjectStore(INDEX_BOOKS_STORE, { keyPath: 'bookId' })
+  },
+  3: (db, tx) => {
+    db.createObjectStore(BOOKS_STORE, { keyPath: 'id' })
+    db.createObjectStore(PAGES_STORE, { keyPath: ['bookId', 'index'] })
+    db.createObjectStore(HIGHLIGHTS_STORE, { keyPath: 'id' })
+    db.createObjectStore(CHAT_THREADS_STORE, { keyPath: 'id' })
+    importLegacyLocalStorage(tx)
+    movePageTextBlobs(tx)
+  },
+  4: (_db, tx) => {
+    convertPdfBlobsToBinary(tx)
+  },
+  5: (db) => {
+    db.createObjectStore(PALETTE_STORE, { keyPath: 'id' })
+    db.createObjectStore(ANNOTATION_VIEWS_STORE, { keyPath: 'id' })
+  },
+  6: (_db, tx) => {
+    migrateStoredBookmarks(tx)
+  },
+  7: (db) => {
+    db.createObjectStore(TRASH_STORE, { keyPath: 'id' })
+  },
+  8: (db) => {
+    db.createObjectStore(SHELVES_STORE, { keyPath: 'id' })
+  },
+  9: (_db, tx) => {
+    moveBookTextToFiles(tx)
+  },
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
 
 function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1)
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise((resolve, reject) => {
+    let importedLegacy = false
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
     request.onupgradeneeded = (e) => {
-      const db = (e.target as IDBOpenDBRequest).result
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      const db = request.result
+      const tx = request.transaction as IDBTransaction
+      for (let version = e.oldVersion + 1; version <= DB_VERSION; version++) {
+        DB_MIGRATIONS[version]?.(db, tx)
+        if (version === 3) importedLegacy = true
+      }
+    }
+    request.onsuccess = () => {
+      const db = request.result
+      // Another tab is upgrading the schema -- let it, and reopen on next use
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      // The upgrade has committed, so the imported localStorage copies can go
+      if (importedLegacy) {
+        try { LEGACY_STORAGE_KEYS.forEach(key => localStorage.removeItem(key)) } catch { /* */ }
+      }
+      resolve(db)
+    }
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+// Chapters saved before outline support have no level
+function normalizeChapters(chapters: any[], level: number): Chapter[] {
+  return chapters.map(ch => ({
+    ...ch,
+    level: ch.level ?? level,
+    ...(Array.isArray(ch.children) ? { children: normalizeChapters(ch.children, level + 1) } : {}),
+  }))
+}
+
+// Bookmarks used to be bare page or section numbers
+function normalizeBookmarks(book: Book, bookmarks: any[]): Bookmark[] {
+  return bookmarks.map(bm => typeof bm === 'number' ? {
+    id: `${book.id}-bookmark-${bm}`,
+    label: defaultBookmarkLabel(book, bm),
+    note: '',
+    pageIndex: bm,
+    createdAt: book.lastRead || book.uploadDate || new Date().toISOString(),
+  } : { ...bm, note: bm.note ?? '' })
+}
+
+function normalizeBook(b: any): Book {
+  const book: Book = {
+    ...b,
+    fileType: b.fileType ?? 'txt',
+    content: b.content ?? '',
+    htmlContent: b.htmlContent ?? '',
+    pdfDataBase64: '', // Always load from IndexedDB
+    totalPdfPages: b.totalPdfPages ?? 0,
+    pages: Array.isArray(b.pages) ? b.pages : [],
+    chapters: Array.isArray(b.chapters) ? normalizeChapters(b.chapters, 0) : [],
+    bookmarks: [],
+    fileSize: b.fileSize ?? 0,
+    hasCover: b.hasCover ?? false,
+    ragDocumentName: b.ragDocumentName ?? '',
+  }
+  book.bookmarks = Array.isArray(b.bookmarks) ? normalizeBookmarks(book, b.bookmarks) : []
+  return book
+}
+
+function toStoredBook(book: Book): StoredBook {
+  const { pages: _pages, pdfDataBase64: _pdf, content: _content, htmlContent: _html, ...stored } = book
+  return stored
+}
+
+// The book_files entries holding a book's text; EPUB markup is already written there at upload
+function putBookText(tx: IDBTransaction, book: { id: string; content?: string; htmlContent?: string }): void {
+  if (book.content) tx.objectStore(STORE_NAME).put({ id: book.id + '_content', data: book.content })
+  if (book.htmlContent) tx.objectStore(STORE_NAME).put({ id: book.id + '_html', data: book.htmlContent })
+}
+
+function toStoredChatThreads(threads: ChatThread[], messages: ChatMessage[]): StoredChatThread[] {
+  return threads.map(t => ({ ...t, messages: messages.filter(m => m.threadId === t.id) }))
+}
+
+function toStoredPalette(palette: HighlightColor[]): StoredHighlightColor[] {
+  return palette.map((c, position) => ({ ...c, position }))
+}
+
+function toStoredTrashEntry({ book, ...entry }: TrashEntry): StoredTrashEntry {
+  return book ? { ...entry, book: toStoredBook(book) } : entry
+}
+
+// One-time copy of the pre-version-3 localStorage state into the new stores
+function importLegacyLocalStorage(tx: IDBTransaction): void {
+  try {
+    const savedBooks = localStorage.getItem('bookshelf_books')
+    const savedHighlights = localStorage.getItem('bookshelf_highlights')
+    const parsedBooks = savedBooks ? JSON.parse(savedBooks) : []
+    for (const raw of Array.isArray(parsedBooks) ? parsedBooks : []) {
+      const book = normalizeBook(raw)
+      tx.objectStore(BOOKS_STORE).put(toStoredBook(book))
+      putBookText(tx, book)
+      book.pages.forEach((text, index) => tx.objectStore(PAGES_STORE).put({ bookId: book.id, index, text }))
+    }
+    const parsedHighlights = savedHighlights ? JSON.parse(savedHighlights) : []
+    for (const h of Array.isArray(parsedHighlights) ? parsedHighlights : []) {
+      tx.objectStore(HIGHLIGHTS_STORE).put(h)
+    }
+    const chatState = loadChatState(localStorage.getItem('bookshelf_chat'))
+    for (const thread of toStoredChatThreads(chatState.threads, chatState.messages)) {
+      tx.objectStore(CHAT_THREADS_STORE).put(thread)
+    }
+  } catch (err) {
+    // Unreadable legacy data is skipped rather than blocking the upgrade
+    console.error('Failed to import saved library from localStorage:', err)
+  }
+}
+
+// Full page text used to be kept as a `<id>_text` JSON blob in book_files
+function movePageTextBlobs(tx: IDBTransaction): void {
+  const cursorRequest = tx.objectStore(STORE_NAME).openCursor()
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result
+    if (!cursor) return
+    const key = String(cursor.key)
+    if (key.endsWith('_text')) {
+      try {
+        const pages = JSON.parse(cursor.value.data)
+        const bookId = key.slice(0, -'_text'.length)
+        if (Array.isArray(pages)) pages.forEach((text: string, index: number) => tx.objectStore(PAGES_STORE).put({ bookId, index, text }))
+      } catch {
+        // drop the unreadable blob
+      }
+      cursor.delete()
+    }
+    cursor.continue()
+  }
+}
+
+// PDFs used to be kept as base64 strings, a third larger than the file itself
+function convertPdfBlobsToBinary(tx: IDBTransaction): void {
+  const booksRequest = tx.objectStore(BOOKS_STORE).getAll()
+  booksRequest.onsuccess = () => {
+    for (const book of booksRequest.result as StoredBook[]) {
+      if (book.fileType !== 'pdf') continue
+      const fileRequest = tx.objectStore(STORE_NAME).get(book.id)
+      fileRequest.onsuccess = () => {
+        const data = fileRequest.result?.data
+        if (typeof data !== 'string') return
+        try {
+          tx.objectStore(STORE_NAME).put({ id: book.id, data: base64ToArrayBuffer(data) })
+        } catch {
+          // leave an undecodable entry as it was
+        }
+      }
+    }
+  }
+}
+
+// Stored books whose bookmarks are still page numbers get bookmark records
+function migrateStoredBookmarks(tx: IDBTransaction): void {
+  const cursorRequest = tx.objectStore(BOOKS_STORE).openCursor()
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result
+    if (!cursor) return
+    const stored = cursor.value
+    if (Array.isArray(stored.bookmarks) && stored.bookmarks.some((bm: unknown) => typeof bm === 'number')) {
+      cursor.update({ ...stored, bookmarks: normalizeBook(stored).bookmarks })
+    }
+    cursor.continue()
+  }
+}
+
+// Books and trashed books used to carry their full text on the record itself
+function moveBookTextToFiles(tx: IDBTransaction): void {
+  const strip = (record: any) => {
+    putBookText(tx, record)
+    const { content: _content, htmlContent: _html, ...rest } = record
+    return rest
+  }
+  const booksCursor = tx.objectStore(BOOKS_STORE).openCursor()
+  booksCursor.onsuccess = () => {
+    const cursor = booksCursor.result
+    if (!cursor) return
+    cursor.update(strip(cursor.value))
+    cursor.continue()
+  }
+  const trashCursor = tx.objectStore(TRASH_STORE).openCursor()
+  trashCursor.onsuccess = () => {
+    const cursor = trashCursor.result
+    if (!cursor) return
+    if (cursor.value.book) cursor.update({ ...cursor.value, book: strip(cursor.value.book) })
+    cursor.continue()
+  }
+}
+
+function bookPagesRange(bookId: string): IDBKeyRange {
+  return IDBKeyRange.bound([bookId, 0], [bookId, Number.MAX_SAFE_INTEGER])
+}
+
+async function loadLibrary(): Promise<{ books: Book[]; highlights: Highlight[]; threads: ChatThread[]; messages: ChatMessage[]; palette: HighlightColor[]; views: AnnotationView[]; trash: TrashEntry[]; shelves: Shelf[] }> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([BOOKS_STORE, PAGES_STORE, STORE_NAME, HIGHLIGHTS_STORE, CHAT_THREADS_STORE, PALETTE_STORE, ANNOTATION_VIEWS_STORE, TRASH_STORE, SHELVES_STORE], 'readonly')
+    const books: Book[] = []
+    let highlights: Highlight[] = []
+    let storedThreads: StoredChatThread[] = []
+    let storedPalette: StoredHighlightColor[] = []
+    let views: AnnotationView[] = []
+    const trash: TrashEntry[] = []
+    let shelves: Shelf[] = []
+
+    const loadText = (book: Book) => {
+      const contentRequest = tx.objectStore(STORE_NAME).get(book.id + '_content')
+      contentRequest.onsuccess = () => {
+        if (typeof contentRequest.result?.data === 'string') book.content = contentRequest.result.data
+      }
+      // EPUB markup carries inlined images, so the reader loads it when the book is opened
+      if (book.fileType === 'docx') {
+        const htmlRequest = tx.objectStore(STORE_NAME).get(book.id + '_html')
+        htmlRequest.onsuccess = () => {
+          if (typeof htmlRequest.result?.data === 'string') book.htmlContent = htmlRequest.result.data
+        }
+      }
+      // PDF page text is only needed for search, so it stays in the pages store
+      if (book.fileType === 'pdf') return
+      const pagesRequest = tx.objectStore(PAGES_STORE).getAll(bookPagesRange(book.id))
+      pagesRequest.onsuccess = () => {
+        book.pages = (pagesRequest.result as StoredPage[]).map(p => p.text)
       }
     }
-    request.onsuccess = () => resolve(request.result)
+
+    const booksRequest = tx.objectStore(BOOKS_STORE).getAll()
+    booksRequest.onsuccess = () => {
+      for (const stored of booksRequest.result as StoredBook[]) {
+        const book = normalizeBook(stored)
+        books.push(book)
+        loadText(book)
+      }
+    }
+    // Trashed books keep their pages and files until purged, so a restore has everything back
+    const trashRequest = tx.objectStore(TRASH_STORE).getAll()
+    trashRequest.onsuccess = () => {
+      for (const stored of trashRequest.result as StoredTrashEntry[]) {
+        const entry: TrashEntry = { ...stored, book: stored.book && normalizeBook(stored.book), highlights: stored.highlights ?? [] }
+        trash.push(entry)
+        if (entry.book) loadText(entry.book)
+      }
+    }
+    const highlightsRequest = tx.objectStore(HIGHLIGHTS_STORE).getAll()
+    highlightsRequest.onsuccess = () => { highlights = highlightsRequest.result }
+    const threadsRequest = tx.objectStore(CHAT_THREADS_STORE).getAll()
+    threadsRequest.onsuccess = () => { storedThreads = threadsRequest.result }
+    const paletteRequest = tx.objectStore(PALETTE_STORE).getAll()
+    paletteRequest.onsuccess = () => { storedPalette = paletteRequest.result }
+    const viewsRequest = tx.objectStore(ANNOTATION_VIEWS_STORE).getAll()
+    viewsRequest.onsuccess = () => { views = viewsRequest.result }
+    const shelvesRequest = tx.objectStore(SHELVES_STORE).getAll()
+    shelvesRequest.onsuccess = () => { shelves = shelvesRequest.result }
+
+    tx.oncomplete = () => {
+      books.sort((a, b) => (b.uploadDate || '').localeCompare(a.uploadDate || ''))
+      highlights.sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''))
+      const messages = storedThreads.flatMap(t => Array.isArray(t.messages) ? t.messages : [])
+      const threads = storedThreads.map(({ messages: _messages, ...thread }) => thread)
+      // Libraries from before the palette have none stored until it is edited
+      const palette = storedPalette.length > 0
+        ? storedPalette.sort((a, b) => a.position - b.position).map(({ position: _position, ...color }) => color)
+        : DEFAULT_HIGHLIGHT_PALETTE
+      views.sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''))
+      trash.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+      shelves.sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''))
+      resolve({ books, highlights, threads, messages, palette, views, trash, shelves })
+    }
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+async function writeRecords(storeName: string, records: any[], deletedKeys: string[]): Promise<void> {
+  if (records.length === 0 && deletedKeys.length === 0) return
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite')
+    const store = tx.objectStore(storeName)
+    records.forEach(r => store.put(r))
+    deletedKeys.forEach(k => store.delete(k))
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+// Records whose value changed since `previous` (by `same`) and keys that disappeared
+function diffRecords<T>(records: T[], keyOf: (r: T) => string, previous: Map<string, T>, same: (a: T, b: T) => boolean = (a, b) => a === b): { next: Map<string, T>; changed: T[]; removed: string[] } {
+  const next = new Map<string, T>()
+  const changed: T[] = []
+  for (const r of records) {
+    const key = keyOf(r)
+    next.set(key, r)
+    const prev = previous.get(key)
+    if (prev === undefined || !same(prev, r)) changed.push(r)
+  }
+  const removed = Array.from(previous.keys()).filter(k => !next.has(k))
+  return { next, changed, removed }
+}
+
+async function savePageTexts(bookId: string, pageTexts: string[]): Promise<void> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PAGES_STORE, 'readwrite')
+    const store = tx.objectStore(PAGES_STORE)
+    store.delete(bookPagesRange(bookId))
+    pageTexts.forEach((text, index) => store.put({ bookId, index, text }))
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+async function getPageTexts(bookId: string): Promise<string[] | null> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(PAGES_STORE, 'readonly')
+    const request = tx.objectStore(PAGES_STORE).getAll(bookPagesRange(bookId))
+    request.onsuccess = () => resolve(request.result.length > 0 ? (request.result as StoredPage[]).map(p => p.text) : null)
     request.onerror = () => reject(request.error)
   })
 }
 
-async function saveFileData(id: string, data: string): Promise<void> {
+async function deletePageTexts(bookId: string): Promise<void> {
+  try {
+    const db = await openDB()
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(PAGES_STORE, 'readwrite')
+      tx.objectStore(PAGES_STORE).delete(bookPagesRange(bookId))
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+  } catch {
+    // silently ignore
+  }
+}
+
+// Text entries (EPUB XHTML, cover data URLs) are stored as strings, PDF bytes as an ArrayBuffer
+async function saveFileData(id: string, data: string | ArrayBuffer): Promise<void> {
   const db = await openDB()
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, 'readwrite')
@@ -148,7 +742,25 @@ async function getFileData(id: string): Promise<string | null> {
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, 'readonly')
     const request = tx.objectStore(STORE_NAME).get(id)
-    request.onsuccess = () => resolve(request.result?.data ?? null)
+    request.onsuccess = () => {
+      const data = request.result?.data
+      resolve(typeof data === 'string' ? data : null)
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function getFileBinary(id: string): Promise<ArrayBuffer | null> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly')
+    const request = tx.objectStore(STORE_NAME).get(id)
+    request.onsuccess = () => {
+      const data = request.result?.data
+      if (data instanceof ArrayBuffer) resolve(data)
+      else if (typeof data === 'string') resolve(base64ToArrayBuffer(data))
+      else resolve(null)
+    }
     request.onerror = () => reject(request.error)
   })
 }
@@ -167,83 +779,719 @@ async function deleteFileData(id: string): Promise<void> {
   }
 }
 
-// ===== FILE PROCESSING =====
-function splitIntoPages(text: string, charsPerPage: number): string[] {
-  if (!text) return ['']
-  const paragraphs = text.split(/\n\n+/)
-  const pages: string[] = []
-  let current = ''
+// ===== LIBRARY SEARCH INDEX =====
+// Inverted index over every book's page text. `search_terms` maps a term to the pages it
+// occurs on in each book; `search_books` keeps each book's term list so it can be removed.
+interface IndexPosting {
+  bookId: string
+  pages: number[]
+}
 
-  for (const para of paragraphs) {
-    if (current.length + para.length + 2 > charsPerPage && current.length > 0) {
-      pages.push(current.trim())
-      current = para
-    } else {
-      current += (current ? '\n\n' : '') + para
-    }
-  }
-  if (current.trim()) pages.push(current.trim())
-  return pages.length > 0 ? pages : ['']
+interface LibrarySearchResult {
+  bookId: string
+  pages: number[]
 }
 
-async function processFile(file: File, onStatus: (msg: string) => void): Promise<{
-  content: string
-  htmlContent: string
-  pdfDataBase64: string
-  totalPdfPages: number
-  pages: string[]
-  chapters: Chapter[]
-  fileType: 'pdf' | 'docx' | 'txt'
-}> {
-  const ext = file.name.split('.').pop()?.toLowerCase()
+const INDEX_TOKEN_RE = new RegExp('[\\p{L}\\p{N}]+', 'gu')
 
-  if (ext === 'pdf') {
-    onStatus('Loading PDF engine...')
-    const pdfjsLib = await loadPdfJs()
+function tokenizeForIndex(text: string): string[] {
+  const folded = (text || '').toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+  return (folded.match(INDEX_TOKEN_RE) ?? []).filter(t => t.length >= 2 && t.length <= 40)
+}
 
-    onStatus('Reading PDF file...')
-    const arrayBuffer = await file.arrayBuffer()
+// Replaces a book's postings; `pageTexts` null removes the book from the index
+async function writeBookIndex(bookId: string, pageTexts: string[] | null): Promise<void> {
+  const termPages = new Map<string, number[]>()
+  ;(pageTexts ?? []).forEach((text, pageIndex) => {
+    Array.from(new Set(tokenizeForIndex(text))).forEach((term) => {
+      const pages = termPages.get(term)
+      if (pages) pages.push(pageIndex)
+      else termPages.set(term, [pageIndex])
+    })
+  })
 
-    // Convert to base64 for IndexedDB storage
-    const uint8 = new Uint8Array(arrayBuffer)
-    let binaryStr = ''
-    const chunkSize = 8192
-    for (let i = 0; i < uint8.length; i += chunkSize) {
-      const chunk = uint8.subarray(i, Math.min(i + chunkSize, uint8.length))
-      binaryStr += String.fromCharCode.apply(null, Array.from(chunk))
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([INDEX_TERMS_STORE, INDEX_BOOKS_STORE], 'readwrite')
+    const termStore = tx.objectStore(INDEX_TERMS_STORE)
+    const bookStore = tx.objectStore(INDEX_BOOKS_STORE)
+    const previous = bookStore.get(bookId)
+    previous.onsuccess = () => {
+      const oldTerms: string[] = Array.isArray(previous.result?.terms) ? previous.result.terms : []
+      const affected = new Set(oldTerms.concat(Array.from(termPages.keys())))
+      affected.forEach((term) => {
+        const req = termStore.get(term)
+        req.onsuccess = () => {
+          const postings: IndexPosting[] = (req.result?.postings ?? []).filter((p: IndexPosting) => p.bookId !== bookId)
+          const pages = termPages.get(term)
+          if (pages) postings.push({ bookId, pages })
+          if (postings.length > 0) termStore.put({ term, postings })
+          else termStore.delete(term)
+        }
+      })
+      if (pageTexts) bookStore.put({ bookId, terms: Array.from(termPages.keys()), indexedAt: new Date().toISOString() })
+      else bookStore.delete(bookId)
     }
-    const base64 = btoa(binaryStr)
-
-    onStatus('Parsing PDF pages...')
-    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise
-    const totalPages = pdf.numPages
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+  })
+}
 
-    let fullText = ''
-    const chapters: Chapter[] = []
+function indexBookPages(bookId: string, pageTexts: string[]): Promise<void> {
+  return writeBookIndex(bookId, pageTexts)
+}
 
-    for (let i = 1; i <= totalPages; i++) {
-      onStatus(`Extracting text from page ${i} of ${totalPages}...`)
-      const page = await pdf.getPage(i)
-      const textContent = await page.getTextContent()
-      const pageText = textContent.items.map((item: any) => item.str).join(' ')
-      fullText += `\n--- Page ${i} ---\n${pageText}`
+async function removeBookFromIndex(bookId: string): Promise<void> {
+  try {
+    await writeBookIndex(bookId, null)
+  } catch {
+    // silently ignore
+  }
+}
 
-      const chapterMatch = pageText.match(/^(Chapter|Part|Section|CHAPTER|PART)\s+[\dIVXLCDM]+[.:\s]+(.*)/m)
-      if (chapterMatch) {
-        chapters.push({ title: chapterMatch[0].trim().substring(0, 80), startIndex: i - 1 })
-      }
-    }
+async function getIndexedBookIds(): Promise<string[]> {
+  const db = await openDB()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(INDEX_BOOKS_STORE, 'readonly')
+    const request = tx.objectStore(INDEX_BOOKS_STORE).getAllKeys()
+    request.onsuccess = () => resolve(request.result.map(String))
+    request.onerror = () => reject(request.error)
+  })
+}
 
-    onStatus('Detecting chapters...')
+// Pages that contain every query term; the last term matches as a prefix so results follow typing
+async function searchLibraryIndex(query: string): Promise<LibrarySearchResult[]> {
+  const queryTerms = Array.from(new Set(tokenizeForIndex(query)))
+  if (queryTerms.length === 0) return []
 
-    return {
-      content: fullText,
+  const db = await openDB()
+  const perTerm = await new Promise<Map<string, Set<number>>[]>((resolve, reject) => {
+    const tx = db.transaction(INDEX_TERMS_STORE, 'readonly')
+    const store = tx.objectStore(INDEX_TERMS_STORE)
+    const found = queryTerms.map(() => new Map<string, Set<number>>())
+    queryTerms.forEach((term, i) => {
+      const range = i === queryTerms.length - 1 ? IDBKeyRange.bound(term, term + '\uffff') : IDBKeyRange.only(term)
+      const req = store.getAll(range, 500)
+      req.onsuccess = () => {
+        for (const record of req.result) {
+          for (const posting of record.postings as IndexPosting[]) {
+            const pages = found[i].get(posting.bookId) ?? new Set<number>()
+            posting.pages.forEach(p => pages.add(p))
+            found[i].set(posting.bookId, pages)
+          }
+        }
+      }
+    })
+    tx.oncomplete = () => resolve(found)
+    tx.onerror = () => reject(tx.error)
+  })
+
+  const results: LibrarySearchResult[] = []
+  perTerm[0].forEach((firstPages, bookId) => {
+    const pages = Array.from(firstPages).filter(p => perTerm.every(m => m.get(bookId)?.has(p)))
+    if (pages.length > 0) results.push({ bookId, pages: pages.sort((a, b) => a - b) })
+  })
+  return results.sort((a, b) => b.pages.length - a.pages.length)
+}
+
+// searchLibraryIndex over the page texts of books that aren't indexed, like the sample library
+async function searchBookTexts(books: Book[], query: string): Promise<LibrarySearchResult[]> {
+  const queryTerms = Array.from(new Set(tokenizeForIndex(query)))
+  if (queryTerms.length === 0) return []
+  const last = queryTerms.length - 1
+
+  const results: LibrarySearchResult[] = []
+  for (const book of books) {
+    const pages: number[] = []
+    ;(await loadBookPageTexts(book)).forEach((text, pageIndex) => {
+      const terms = new Set(tokenizeForIndex(text))
+      const matches = queryTerms.every((term, i) => i === last ? Array.from(terms).some(t => t.startsWith(term)) : terms.has(term))
+      if (matches) pages.push(pageIndex)
+    })
+    if (pages.length > 0) results.push({ bookId: book.id, pages })
+  }
+  return results.sort((a, b) => b.pages.length - a.pages.length)
+}
+
+// ===== LIBRARY BACKUP =====
+// A library archive is a zip: manifest.json, books.json, highlights.json, chat.json,
+// palette.json, views.json, shelves.json, pages/<bookId>.json and the book_files entries of each book
+// under files/.
+const LIBRARY_ARCHIVE_FORMAT = 'bookshelf-library'
+// Version 2 keeps each book's text in files/ (`<id>_content`) instead of books.json
+const LIBRARY_ARCHIVE_VERSION = 2
+
+// book_files entries that belong to a book, by key suffix
+const BOOK_FILE_ENTRIES = [
+  { suffix: '', name: 'pdf', binary: true },
+  { suffix: '_content', name: 'content', binary: false },
+  { suffix: '_html', name: 'html', binary: false },
+  { suffix: '_cover', name: 'cover', binary: false },
+  { suffix: '_cover_custom', name: 'custom-cover', binary: false },
+] as const
+
+interface LibraryArchiveBook {
+  id: string
+  title: string
+  fileType: Book['fileType']
+  contentHash: string
+  files: string[]
+}
+
+interface LibraryArchiveManifest {
+  format: string
+  formatVersion: number
+  schemaVersion: number
+  exportedAt: string
+  books: LibraryArchiveBook[]
+  highlightCount: number
+  threadCount: number
+}
+
+interface LibraryArchive {
+  manifest: LibraryArchiveManifest
+  books: Book[]
+  highlights: Highlight[]
+  threads: ChatThread[]
+  messages: ChatMessage[]
+  palette: HighlightColor[]
+  views: AnnotationView[]
+  shelves: Shelf[]
+  // Keyed by archive book id, then by book_files suffix
+  files: Record<string, Record<string, string | ArrayBuffer>>
+  pageTexts: Record<string, string[]>
+}
+
+type ImportDecision = 'skip' | 'replace' | 'keep'
+
+async function sha256Hex(data: string | ArrayBuffer): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binaryStr = atob(base64)
+  const bytes = new Uint8Array(binaryStr.length)
+  for (let i = 0; i < binaryStr.length; i++) bytes[i] = binaryStr.charCodeAt(i)
+  return bytes.buffer
+}
+
+// Identifies a book across libraries: the PDF bytes when there are any, else the extracted text
+async function hashBookContent(book: Book, pdfData: ArrayBuffer | null): Promise<string> {
+  if (pdfData) return sha256Hex(pdfData)
+  return sha256Hex(book.content || '')
+}
+
+async function exportLibraryArchive(books: Book[], highlights: Highlight[], threads: ChatThread[], messages: ChatMessage[], palette: HighlightColor[], views: AnnotationView[], shelves: Shelf[]): Promise<Blob> {
+  const JSZip = await loadJSZip()
+  const zip = new JSZip()
+  const manifestBooks: LibraryArchiveBook[] = []
+
+  for (const book of books) {
+    const files: string[] = []
+    let pdfData: ArrayBuffer | null = null
+    for (const entry of BOOK_FILE_ENTRIES) {
+      const data = entry.binary ? await getFileBinary(book.id + entry.suffix) : await getFileData(book.id + entry.suffix)
+      if (data == null) continue
+      if (data instanceof ArrayBuffer) pdfData = data
+      zip.file(`files/${book.id}${entry.suffix}`, data)
+      files.push(entry.name)
+    }
+    const pageTexts = await loadBookPageTexts(book)
+    zip.file(`pages/${book.id}.json`, JSON.stringify(pageTexts))
+    manifestBooks.push({ id: book.id, title: book.title, fileType: book.fileType, contentHash: await hashBookContent(book, pdfData), files })
+  }
+
+  const manifest: LibraryArchiveManifest = {
+    format: LIBRARY_ARCHIVE_FORMAT,
+    formatVersion: LIBRARY_ARCHIVE_VERSION,
+    schemaVersion: DB_VERSION,
+    exportedAt: new Date().toISOString(),
+    books: manifestBooks,
+    highlightCount: highlights.length,
+    threadCount: threads.length,
+  }
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2))
+  zip.file('books.json', JSON.stringify(books.map(toStoredBook)))
+  zip.file('highlights.json', JSON.stringify(highlights))
+  zip.file('chat.json', JSON.stringify(toStoredChatThreads(threads, messages)))
+  zip.file('palette.json', JSON.stringify(palette))
+  zip.file('views.json', JSON.stringify(views))
+  zip.file('shelves.json', JSON.stringify(shelves))
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+}
+
+async function readLibraryArchive(file: File): Promise<LibraryArchive> {
+  const JSZip = await loadJSZip()
+  const zip = await JSZip.loadAsync(await file.arrayBuffer())
+  const readJson = async (path: string) => {
+    const entry = zip.file(path)
+    return entry ? JSON.parse(await entry.async('string')) : null
+  }
+
+  const manifest = await readJson('manifest.json') as LibraryArchiveManifest | null
+  if (!manifest || manifest.format !== LIBRARY_ARCHIVE_FORMAT) throw new Error('This file is not a BookShelf library archive')
+  if (manifest.formatVersion > LIBRARY_ARCHIVE_VERSION) throw new Error('This archive was made by a newer version of BookShelf')
+
+  const storedBooks = (await readJson('books.json')) ?? []
+  const books: Book[] = (Array.isArray(storedBooks) ? storedBooks : []).map(normalizeBook)
+  const files: Record<string, Record<string, string | ArrayBuffer>> = {}
+  const pageTexts: Record<string, string[]> = {}
+  for (const book of books) {
+    files[book.id] = {}
+    for (const entry of BOOK_FILE_ENTRIES) {
+      const zipEntry = zip.file(`files/${book.id}${entry.suffix}`)
+      if (zipEntry) files[book.id][entry.suffix] = await zipEntry.async(entry.binary ? 'arraybuffer' : 'string')
+    }
+    // Archives from before the text moved to book_files have it in books.json
+    const text = files[book.id]
+    if (typeof text._content === 'string') book.content = text._content
+    else if (book.content) text._content = book.content
+    if (book.fileType === 'docx') {
+      if (typeof text._html === 'string') book.htmlContent = text._html
+      else if (book.htmlContent) text._html = book.htmlContent
+    }
+    const pages = await readJson(`pages/${book.id}.json`)
+    pageTexts[book.id] = Array.isArray(pages) ? pages : []
+    if (book.fileType !== 'pdf') book.pages = pageTexts[book.id]
+  }
+
+  const highlights = await readJson('highlights.json')
+  const chatState = (await readJson('chat.json')) ?? []
+  const storedThreads: StoredChatThread[] = Array.isArray(chatState) ? chatState : []
+  // Older archives have no palette, views or shelves
+  const palette = await readJson('palette.json')
+  const views = await readJson('views.json')
+  const shelves = await readJson('shelves.json')
+  return {
+    manifest,
+    books,
+    highlights: Array.isArray(highlights) ? highlights : [],
+    threads: storedThreads.map(({ messages: _messages, ...thread }) => thread),
+    messages: storedThreads.flatMap(t => Array.isArray(t.messages) ? t.messages : []),
+    palette: Array.isArray(palette) ? palette : [],
+    views: Array.isArray(views) ? views : [],
+    shelves: Array.isArray(shelves) ? shelves : [],
+    files,
+    pageTexts,
+  }
+}
+
+// Pairs each archived book with the library book holding the same content, if any
+async function findDuplicateBooks(archive: LibraryArchive, books: Book[]): Promise<{ archived: Book; existing: Book }[]> {
+  const byHash = new Map<string, Book>()
+  for (const book of books) {
+    byHash.set(await hashBookContent(book, book.fileType === 'pdf' ? await getFileBinary(book.id) : null), book)
+  }
+  const duplicates: { archived: Book; existing: Book }[] = []
+  for (const archived of archive.books) {
+    const hash = archive.manifest.books.find(b => b.id === archived.id)?.contentHash
+    const existing = hash ? byHash.get(hash) : undefined
+    if (existing) duplicates.push({ archived, existing })
+  }
+  return duplicates
+}
+
+// ===== FILE PROCESSING =====
+function splitIntoPages(text: string, charsPerPage: number): string[] {
+  if (!text) return ['']
+  const paragraphs = text.split(/\n\n+/)
+  const pages: string[] = []
+  let current = ''
+
+  for (const para of paragraphs) {
+    if (current.length + para.length + 2 > charsPerPage && current.length > 0) {
+      pages.push(current.trim())
+      current = para
+    } else {
+      current += (current ? '\n\n' : '') + para
+    }
+  }
+  if (current.trim()) pages.push(current.trim())
+  return pages.length > 0 ? pages : ['']
+}
+
+// Mammoth inlines a DOCX's pictures as data URLs, in document order
+function docxImageSources(root: ParentNode): string[] {
+  return Array.from(root.querySelectorAll('img')).map(img => img.getAttribute('src') ?? '').filter(src => src.startsWith('data:'))
+}
+
+// ===== EPUB PROCESSING =====
+// Resolves an href found inside an EPUB document against that document's directory
+function resolveEpubPath(baseDir: string, href: string): string {
+  const clean = decodeURIComponent(href.split('#')[0])
+  const out: string[] = []
+  for (const part of (baseDir + clean).split('/')) {
+    if (part === '..') out.pop()
+    else if (part && part !== '.') out.push(part)
+  }
+  return out.join('/')
+}
+
+function epubDirOf(path: string): string {
+  return path.includes('/') ? path.substring(0, path.lastIndexOf('/') + 1) : ''
+}
+
+function parseEpubXml(text: string, mimeType: DOMParserSupportedType): Document {
+  const parser = new DOMParser()
+  const doc = parser.parseFromString(text, mimeType)
+  // Many EPUBs ship slightly malformed XHTML -- fall back to the forgiving HTML parser
+  if (mimeType !== 'text/html' && doc.getElementsByTagName('parsererror').length > 0) {
+    return parser.parseFromString(text, 'text/html')
+  }
+  return doc
+}
+
+async function readEpubImage(zip: any, path: string, mediaType: string): Promise<string> {
+  const entry = zip.file(path)
+  if (!entry) return ''
+  const base64 = await entry.async('base64')
+  return `data:${mediaType || 'image/jpeg'};base64,${base64}`
+}
+
+// EPUB markup is rendered as HTML in the app, so only known-safe tags and attributes survive.
+// Other tags are unwrapped (their children kept), except those dropped with their contents.
+const EPUB_ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'address', 'article', 'aside', 'b', 'bdi', 'bdo', 'big', 'blockquote', 'br', 'caption', 'center',
+  'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'dfn', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'main', 'mark', 'nav',
+  'ol', 'p', 'pre', 'q', 'rp', 'rt', 'ruby', 's', 'samp', 'section', 'small', 'span', 'strike', 'strong', 'sub', 'sup',
+  'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'time', 'tr', 'tt', 'u', 'ul', 'var', 'wbr',
+  'svg', 'g', 'image',
+])
+const EPUB_DROPPED_TAGS = new Set([
+  'script', 'style', 'link', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'form', 'input', 'button',
+  'select', 'textarea', 'meta', 'base', 'area', 'map', 'noscript', 'template', 'audio', 'video', 'canvas', 'title',
+  'head', 'foreignobject',
+])
+const EPUB_ALLOWED_ATTRIBUTES = new Set([
+  'id', 'class', 'title', 'lang', 'xml:lang', 'dir', 'alt', 'width', 'height', 'colspan', 'rowspan', 'span', 'start',
+  'reversed', 'datetime', 'viewbox', 'preserveaspectratio', 'x', 'y',
+  'href', 'xlink:href', 'src', 'cite',
+])
+const EPUB_URL_ATTRIBUTES = new Set(['href', 'xlink:href', 'src', 'cite'])
+
+function isSafeEpubUrl(value: string): boolean {
+  const url = value.trim()
+  return /^https?:/i.test(url) || url.startsWith('#') || /^data:image\//i.test(url)
+}
+
+// Applies the tag and attribute allowlists to an EPUB section body, in place. In-book
+// links cannot navigate the app, so relative hrefs go too and keep only their text.
+function sanitizeEpubBody(body: Element) {
+  Array.from(body.getElementsByTagName('*')).forEach((el) => {
+    if (!el.isConnected) return
+    const tag = el.localName.toLowerCase()
+    if (EPUB_DROPPED_TAGS.has(tag)) {
+      el.remove()
+      return
+    }
+    if (!EPUB_ALLOWED_TAGS.has(tag)) {
+      el.replaceWith(...Array.from(el.childNodes))
+      return
+    }
+    Array.from(el.attributes).forEach((attr) => {
+      const name = attr.name.toLowerCase()
+      if (!EPUB_ALLOWED_ATTRIBUTES.has(name) || (EPUB_URL_ATTRIBUTES.has(name) && !isSafeEpubUrl(attr.value))) {
+        el.removeAttributeNode(attr)
+      }
+    })
+  })
+}
+
+// Collects { title, path } entries from an EPUB 3 nav document or an EPUB 2 NCX file
+function readEpubToc(doc: Document, baseDir: string, isNcx: boolean): { title: string; path: string }[] {
+  const entries: { title: string; path: string }[] = []
+  if (isNcx) {
+    Array.from(doc.getElementsByTagName('navPoint')).forEach((point) => {
+      const label = point.getElementsByTagName('text')[0]?.textContent?.trim() ?? ''
+      const src = point.getElementsByTagName('content')[0]?.getAttribute('src') ?? ''
+      if (label && src) entries.push({ title: label, path: resolveEpubPath(baseDir, src) })
+    })
+    return entries
+  }
+  const navs = Array.from(doc.getElementsByTagName('nav'))
+  const tocNav = navs.find(n => (n.getAttribute('epub:type') ?? n.getAttributeNS('http://www.idpf.org/2007/ops', 'type') ?? '').includes('toc')) ?? navs[0]
+  if (!tocNav) return entries
+  Array.from(tocNav.getElementsByTagName('a')).forEach((a) => {
+    const label = (a.textContent ?? '').replace(/\s+/g, ' ').trim()
+    const href = a.getAttribute('href') ?? ''
+    if (label && href) entries.push({ title: label, path: resolveEpubPath(baseDir, href) })
+  })
+  return entries
+}
+
+async function processEpub(arrayBuffer: ArrayBuffer, onStatus: (msg: string, fraction?: number) => void, signal?: AbortSignal): Promise<{
+  content: string
+  htmlContent: string
+  pages: string[]
+  chapters: Chapter[]
+  coverImage: string
+  metadata: BookMetadata
+}> {
+  onStatus('Loading EPUB reader...')
+  const JSZip = await loadJSZip()
+
+  onStatus('Unpacking EPUB container...')
+  const zip = await JSZip.loadAsync(arrayBuffer)
+  const containerXml = await zip.file('META-INF/container.xml')?.async('string')
+  if (!containerXml) throw new Error('Invalid EPUB: META-INF/container.xml is missing')
+  const container = parseEpubXml(containerXml, 'application/xml')
+  const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path') ?? ''
+  const opfXml = opfPath ? await zip.file(opfPath)?.async('string') : null
+  if (!opfXml) throw new Error('Invalid EPUB: package document not found')
+
+  onStatus('Reading package manifest...')
+  const opf = parseEpubXml(opfXml, 'application/xml')
+  const opfDir = epubDirOf(opfPath)
+  const manifest = new Map<string, { path: string; mediaType: string; properties: string }>()
+  Array.from(opf.getElementsByTagName('item')).forEach((item) => {
+    const id = item.getAttribute('id')
+    const href = item.getAttribute('href')
+    if (!id || !href) return
+    manifest.set(id, {
+      path: resolveEpubPath(opfDir, href),
+      mediaType: item.getAttribute('media-type') ?? '',
+      properties: item.getAttribute('properties') ?? '',
+    })
+  })
+  const manifestItems = Array.from(manifest.entries())
+  const mediaTypeByPath = new Map(manifestItems.map(([, item]) => [item.path, item.mediaType]))
+
+  const spineEl = opf.getElementsByTagName('spine')[0]
+  const spinePaths = Array.from(opf.getElementsByTagName('itemref'))
+    .map(ref => manifest.get(ref.getAttribute('idref') ?? ''))
+    .filter((item): item is { path: string; mediaType: string; properties: string } => !!item && /html/.test(item.mediaType))
+    .map(item => item.path)
+
+  // Spine documents become sections: one page of plain text and one block of XHTML each
+  const pages: string[] = []
+  const sectionHtml: string[] = []
+  const pageIndexByPath = new Map<string, number>()
+  const headingChapters: Chapter[] = []
+  for (let i = 0; i < spinePaths.length; i++) {
+    const path = spinePaths[i]
+    signal?.throwIfAborted()
+    onStatus(`Extracting section ${i + 1} of ${spinePaths.length}...`, i / spinePaths.length)
+    const raw = await zip.file(path)?.async('string')
+    if (!raw) continue
+    const doc = parseEpubXml(raw, 'application/xhtml+xml')
+    const body = doc.getElementsByTagName('body')[0]
+    if (!body) continue
+
+    const docDir = epubDirOf(path)
+    for (const img of Array.from(body.getElementsByTagName('img'))) {
+      const src = img.getAttribute('src') ?? ''
+      if (!src || src.startsWith('data:')) continue
+      const imgPath = resolveEpubPath(docDir, src)
+      img.setAttribute('src', await readEpubImage(zip, imgPath, mediaTypeByPath.get(imgPath) ?? ''))
+    }
+    for (const image of Array.from(body.getElementsByTagName('image'))) {
+      const href = image.getAttribute('xlink:href') ?? image.getAttribute('href') ?? ''
+      if (!href || href.startsWith('data:')) continue
+      const imgPath = resolveEpubPath(docDir, href)
+      const dataUrl = await readEpubImage(zip, imgPath, mediaTypeByPath.get(imgPath) ?? '')
+      image.setAttribute('href', dataUrl)
+      image.setAttributeNS('http://www.w3.org/1999/xlink', 'xlink:href', dataUrl)
+    }
+    // After image inlining, so pictures that resolved to data:image/ URLs are kept
+    sanitizeEpubBody(body)
+
+    const text = (body.textContent ?? '').replace(/[ \t]+/g, ' ').replace(/\n\s*\n\s*/g, '\n\n').trim()
+    const hasImage = body.getElementsByTagName('img').length > 0 || body.getElementsByTagName('image').length > 0
+    if (!text && !hasImage) continue
+
+    const pageIdx = pages.length
+    pageIndexByPath.set(path, pageIdx)
+    pages.push(text)
+    sectionHtml.push(`<section data-epub-section="${pageIdx}">${body.innerHTML}</section>`)
+    const heading = body.querySelector('h1, h2, h3')?.textContent?.replace(/\s+/g, ' ').trim()
+    if (heading && heading.length > 2) headingChapters.push({ title: heading.substring(0, 80), startIndex: pageIdx, level: 0 })
+  }
+
+  onStatus('Reading table of contents...')
+  const navItem = manifestItems.find(([, item]) => item.properties.split(/\s+/).includes('nav'))?.[1]
+  const ncxItem = manifest.get(spineEl?.getAttribute('toc') ?? '') ?? manifestItems.find(([, item]) => item.mediaType === 'application/x-dtbncx+xml')?.[1]
+  let tocEntries: { title: string; path: string }[] = []
+  if (navItem) {
+    const navXml = await zip.file(navItem.path)?.async('string')
+    if (navXml) tocEntries = readEpubToc(parseEpubXml(navXml, 'application/xhtml+xml'), epubDirOf(navItem.path), false)
+  }
+  if (tocEntries.length === 0 && ncxItem) {
+    const ncxXml = await zip.file(ncxItem.path)?.async('string')
+    if (ncxXml) tocEntries = readEpubToc(parseEpubXml(ncxXml, 'application/xml'), epubDirOf(ncxItem.path), true)
+  }
+
+  const chapters: Chapter[] = []
+  for (const entry of tocEntries) {
+    // TOC targets may point at a spine document that had no content of its own -- use the next section
+    const spineIdx = spinePaths.indexOf(entry.path)
+    if (spineIdx < 0) continue
+    const nextPath = spinePaths.slice(spineIdx).find(p => pageIndexByPath.has(p))
+    if (nextPath === undefined) continue
+    chapters.push({ title: entry.title.substring(0, 80), startIndex: pageIndexByPath.get(nextPath) ?? 0, level: 0 })
+  }
+
+  onStatus('Extracting cover image...')
+  const metaCoverId = Array.from(opf.getElementsByTagName('meta')).find(m => m.getAttribute('name') === 'cover')?.getAttribute('content') ?? ''
+  const coverItem = manifestItems.find(([, item]) => item.properties.split(/\s+/).includes('cover-image'))?.[1]
+    ?? manifest.get(metaCoverId)
+    ?? manifestItems.find(([id, item]) => item.mediaType.startsWith('image/') && /cover/i.test(id + item.path))?.[1]
+  const coverImage = coverItem && coverItem.mediaType.startsWith('image/')
+    ? await readEpubImage(zip, coverItem.path, coverItem.mediaType)
+    : ''
+
+  return {
+    content: pages.join('\n\n'),
+    htmlContent: sectionHtml.join('\n'),
+    pages: pages.length > 0 ? pages : [''],
+    chapters: chapters.length > 0 ? chapters : headingChapters,
+    coverImage,
+    metadata: parseOpfMetadata(opf),
+  }
+}
+
+// Splits the stored EPUB XHTML back into its per-section fragments
+function splitEpubSections(html: string): string[] {
+  if (!html) return []
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  return Array.from(doc.querySelectorAll('section[data-epub-section]')).map(el => el.innerHTML)
+}
+
+// The PDF's outline (bookmarks) as nested chapters. An entry without a page of its
+// own, such as a web link or a bare heading, starts at its first child instead
+async function getPdfOutline(pdf: any): Promise<Chapter[]> {
+  const outline = await pdf.getOutline()
+  if (!Array.isArray(outline)) return []
+
+  const resolvePage = async (dest: any): Promise<number | null> => {
+    try {
+      const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest
+      if (!Array.isArray(explicit) || explicit.length === 0) return null
+      return typeof explicit[0] === 'number' ? explicit[0] : await pdf.getPageIndex(explicit[0])
+    } catch {
+      return null
+    }
+  }
+
+  const build = async (items: any[], level: number): Promise<Chapter[]> => {
+    const chapters: Chapter[] = []
+    for (const item of items) {
+      const children = Array.isArray(item.items) ? await build(item.items, level + 1) : []
+      const startIndex = (item.dest ? await resolvePage(item.dest) : null) ?? children[0]?.startIndex ?? null
+      const title = String(item.title ?? '').replace(/\s+/g, ' ').trim()
+      if (startIndex === null || !title) continue
+      chapters.push({ title: title.substring(0, 80), startIndex, level, ...(children.length > 0 ? { children } : {}) })
+    }
+    return chapters
+  }
+  return build(outline, 0)
+}
+
+// Printed page labels, or undefined when the PDF has none or they just count from 1
+async function getPdfPageLabels(pdf: any): Promise<string[] | undefined> {
+  const labels: unknown = await pdf.getPageLabels().catch(() => null)
+  if (!Array.isArray(labels) || labels.every((label, i) => !label || label === String(i + 1))) return undefined
+  return labels.map((label, i) => (typeof label === 'string' && label.trim()) || String(i + 1))
+}
+
+// `onStatus` gets a message for each step, and how far through the file it is when that is
+// known. Aborting `signal` stops the extraction at the next page or section
+async function processFile(file: File, onStatus: (msg: string, fraction?: number) => void, signal?: AbortSignal): Promise<{
+  content: string
+  htmlContent: string
+  pdfData: ArrayBuffer | null
+  totalPdfPages: number
+  pageLabels?: string[]
+  pages: string[]
+  // Full per-page text for search: one entry per PDF page, otherwise the same as `pages`
+  pageTexts: string[]
+  chapters: Chapter[]
+  fileType: 'pdf' | 'docx' | 'txt' | 'epub'
+  coverImage: string
+  metadata: BookMetadata
+}> {
+  const ext = file.name.split('.').pop()?.toLowerCase()
+
+  if (ext === 'epub') {
+    onStatus('Reading EPUB file...')
+    const arrayBuffer = await file.arrayBuffer()
+    const epub = await processEpub(arrayBuffer, onStatus, signal)
+    onStatus('Making cover thumbnail...')
+    const coverImage = epub.coverImage ? (await imageToThumbnail(epub.coverImage).catch(() => null)) ?? epub.coverImage : ''
+    return {
+      ...epub,
+      coverImage,
+      pageTexts: epub.pages,
+      pdfData: null,
+      totalPdfPages: 0,
+      fileType: 'epub',
+    }
+  }
+
+  if (ext === 'pdf') {
+    onStatus('Loading PDF engine...')
+    const pdfjsLib = await loadPdfJs()
+
+    onStatus('Reading PDF file...')
+    const arrayBuffer = await file.arrayBuffer()
+
+    onStatus('Parsing PDF pages...')
+    // PDF.js transfers the buffer it is given to its worker, so hand it a copy and keep the original for storage
+    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer.slice(0) }).promise
+    const totalPages = pdf.numPages
+
+    let fullText = ''
+    const pageTexts: string[] = []
+    const chapters: Chapter[] = []
+
+    for (let i = 1; i <= totalPages; i++) {
+      signal?.throwIfAborted()
+      onStatus(`Extracting text from page ${i} of ${totalPages}...`, (i - 1) / totalPages)
+      const page = await pdf.getPage(i)
+      const textContent = await page.getTextContent()
+      const pageText = textContent.items.map((item: any) => item.str).join(' ')
+      fullText += `\n--- Page ${i} ---\n${pageText}`
+      pageTexts.push(pageText)
+
+      const chapterMatch = pageText.match(/^(Chapter|Part|Section|CHAPTER|PART)\s+[\dIVXLCDM]+[.:\s]+(.*)/m)
+      if (chapterMatch) {
+        chapters.push({ title: chapterMatch[0].trim().substring(0, 80), startIndex: i - 1, level: 0 })
+      }
+    }
+
+    // The regex matches above are only a fallback for PDFs without an outline
+    onStatus('Reading outline...')
+    const outline = await getPdfOutline(pdf).catch(() => [] as Chapter[])
+    const pageLabels = await getPdfPageLabels(pdf)
+
+    onStatus('Reading metadata...')
+    // XMP is usually kept more carefully than the info dictionary, which producers fill in
+    // with file names; the copyright page supplies an ISBN when neither has one
+    const { info, metadata: xmp } = await pdf.getMetadata().catch(() => ({ info: null, metadata: null }))
+    const xmpRaw = xmp?.getRaw?.()
+    const metadata = mergeMetadata(
+      typeof xmpRaw === 'string' ? parseXmpMetadata(xmpRaw) : {},
+      parsePdfInfo(info),
+      { isbn: findIsbn(pageTexts.slice(0, 10).join('\n')) }
+    )
+
+    onStatus('Rendering cover...')
+    const coverImage = await pdf.getPage(1).then(renderPdfPageThumbnail).catch(() => '')
+
+    return {
+      content: fullText,
       htmlContent: '',
-      pdfDataBase64: base64,
+      pdfData: arrayBuffer,
       totalPdfPages: totalPages,
+      pageLabels,
       pages: [],
-      chapters,
+      pageTexts,
+      chapters: outline.length > 0 ? outline : chapters,
       fileType: 'pdf',
+      coverImage,
+      metadata,
     }
   }
 
@@ -257,6 +1505,7 @@ async function processFile(file: File, onStatus: (msg: string) => void): Promise
     onStatus('Converting DOCX to HTML...')
     const result = await mammoth.convertToHtml({ arrayBuffer })
     const html = result.value || ''
+    signal?.throwIfAborted()
 
     onStatus('Extracting text content...')
     const tempDiv = document.createElement('div')
@@ -268,25 +1517,47 @@ async function processFile(file: File, onStatus: (msg: string) => void): Promise
 
     onStatus('Detecting chapters...')
     const chapters: Chapter[] = []
-    const headingRegex = /<h[1-3][^>]*>(.*?)<\/h[1-3]>/gi
-    let match
-    while ((match = headingRegex.exec(html)) !== null) {
-      const headingText = match[1].replace(/<[^>]+>/g, '').trim()
-      if (headingText.length > 2) {
-        const textBefore = html.substring(0, match.index).replace(/<[^>]+>/g, '').length
-        const pageIdx = Math.floor(textBefore / 3000)
-        chapters.push({ title: headingText.substring(0, 80), startIndex: pageIdx })
-      }
-    }
+    const sectionOffsets = getSectionOffsets(pages, plainText)
+    const textBefore = document.createRange()
+    textBefore.setStart(tempDiv, 0)
+    tempDiv.querySelectorAll('h1, h2, h3').forEach((heading) => {
+      const headingText = (heading.textContent ?? '').trim()
+      if (headingText.length <= 2) return
+      textBefore.setEndBefore(heading)
+      const startOffset = textBefore.toString().length
+      chapters.push({
+        title: headingText.substring(0, 80),
+        startIndex: sectionIndexForOffset(sectionOffsets, startOffset),
+        startOffset,
+        level: Number(heading.tagName[1]) - 1,
+      })
+    })
+
+    onStatus('Reading metadata...')
+    // Metadata is a nicety -- a DOCX whose package can't be reread still uploads
+    const coreXml: string | undefined = await loadJSZip()
+      .then(JSZip => JSZip.loadAsync(arrayBuffer))
+      .then((zip: any) => zip.file('docProps/core.xml')?.async('string'))
+      .catch(() => undefined)
+    const metadata = mergeMetadata(
+      coreXml ? parseDocxCoreProperties(coreXml) : {},
+      { isbn: findIsbn(plainText.slice(0, 20000)) }
+    )
+
+    onStatus('Making cover thumbnail...')
+    const coverImage = await firstImageThumbnail(docxImageSources(tempDiv)) ?? ''
 
     return {
       content: plainText,
       htmlContent: html,
-      pdfDataBase64: '',
+      pdfData: null,
       totalPdfPages: 0,
       pages,
+      pageTexts: pages,
       chapters,
       fileType: 'docx',
+      coverImage,
+      metadata,
     }
   }
 
@@ -299,24 +1570,171 @@ async function processFile(file: File, onStatus: (msg: string) => void): Promise
 
   onStatus('Detecting chapters...')
   const chapters: Chapter[] = []
-  text.split('\n').forEach((line, idx) => {
+  const sectionOffsets = getSectionOffsets(pages, text)
+  let startOffset = 0
+  for (const line of text.split('\n')) {
     if (/^(Chapter|Part|Section)\s/i.test(line.trim())) {
-      const charsBefore = text.split('\n').slice(0, idx).join('\n').length
-      chapters.push({ title: line.trim().substring(0, 80), startIndex: Math.floor(charsBefore / 3000) })
+      chapters.push({ title: line.trim().substring(0, 80), startIndex: sectionIndexForOffset(sectionOffsets, startOffset), startOffset, level: 0 })
     }
-  })
+    startOffset += line.length + 1
+  }
 
   return {
     content: text,
     htmlContent: '',
-    pdfDataBase64: '',
+    pdfData: null,
     totalPdfPages: 0,
     pages,
+    pageTexts: pages,
     chapters,
     fileType: 'txt',
+    coverImage: '',
+    metadata: detectTextMetadata(text),
   }
 }
 
+/**
+ * Train `file` into the knowledge base as a book's chat document (fire and forget). Chunks
+ * carry the book's id, which chat filters retrieval on. Returns the stored document name.
+ */
+function trainBookDocument(bookId: string, title: string, file: File): string {
+  const ragDocumentName = getScopedDocumentName(bookId, file.name)
+  uploadAndTrainDocument(RAG_ID, file, {
+    documentName: ragDocumentName,
+    extraInfo: { book_id: bookId, book_title: title, file_name: file.name },
+  }).catch(() => {})
+  return ragDocumentName
+}
+
+// Everything stored locally under a book's id: files, page text and search index entries
+async function deleteBookData(bookId: string): Promise<void> {
+  await Promise.all(BOOK_FILE_ENTRIES.map(entry => deleteFileData(bookId + entry.suffix)))
+  await deletePageTexts(bookId)
+  await removeBookFromIndex(bookId)
+}
+
+// Uploads past this percentage are saving the extracted book and can no longer be cancelled
+const UPLOAD_SAVING_PROGRESS = 85
+
+function isBookFile(fileName: string): boolean {
+  return BOOK_FILE_EXTENSIONS.includes(fileName.split('.').pop()?.toLowerCase() ?? '')
+}
+
+/**
+ * Extract an uploaded file and store everything a new book needs: file data, page text,
+ * search index entries and cover. Returns the book without adding it to the library.
+ * `onStatus` gets each step with the overall progress in percent, when it moves.
+ */
+async function importBookFile(file: File, fileHash: string, onStatus: (msg: string, progress?: number) => void, signal?: AbortSignal): Promise<{ book: Book; pageCount: number }> {
+  const bookId = generateId()
+  const titleFromName = file.name.replace(/\.(pdf|docx|txt|epub)$/i, '').replace(/[_-]/g, ' ').replace(/\b\w/g, c => c.toUpperCase())
+
+  // Extraction is most of the work, up to UPLOAD_SAVING_PROGRESS
+  const processed = await processFile(file, (msg, fraction) => onStatus(msg, fraction === undefined ? undefined : Math.round(5 + fraction * (UPLOAD_SAVING_PROGRESS - 5))), signal)
+  // Past this point the book is saved whole, so cancelling no longer applies
+  signal?.throwIfAborted()
+
+  try {
+    // Store large PDF data in IndexedDB
+    if (processed.pdfData) {
+      onStatus('Saving PDF to storage...', 88)
+      await saveFileData(bookId, processed.pdfData)
+    }
+
+    // The text and markup go to the file store; the book record keeps only metadata
+    await saveFileData(bookId + '_content', processed.content)
+    if (processed.htmlContent) {
+      await saveFileData(bookId + '_html', processed.htmlContent)
+    }
+
+    onStatus('Saving pages...', 91)
+    await savePageTexts(bookId, processed.pageTexts)
+    onStatus('Indexing text for library search...', 94)
+    await indexBookPages(bookId, processed.pageTexts).catch(() => {})
+
+    if (processed.coverImage) {
+      onStatus('Saving cover image...', 97)
+      await saveFileData(bookId + '_cover', processed.coverImage)
+    }
+  } catch (err) {
+    // Nothing refers to a book that failed to save, so what was written of it goes
+    await deleteBookData(bookId)
+    throw err
+  }
+
+  // Trained last, once the book is stored, so a failed upload leaves no document behind
+  onStatus('Uploading to AI knowledge base...', 99)
+  // EPUB is trained from the text extracted above rather than unzipped again on the server
+  const trainFile = processed.fileType === 'epub' ? new File([processed.content], file.name.replace(/\.epub$/i, '.txt'), { type: 'text/plain' }) : file
+  const ragDocumentName = trainBookDocument(bookId, processed.metadata.title ?? titleFromName, trainFile)
+
+  const pageCount = processed.fileType === 'pdf' ? processed.totalPdfPages : processed.pages.length
+  const { metadata } = processed
+
+  const book: Book = {
+    id: bookId,
+    title: metadata.title ?? titleFromName,
+    author: metadata.authors?.length ? joinAuthors(metadata.authors) : 'Unknown Author',
+    fileName: file.name,
+    fileType: processed.fileType,
+    content: processed.content,
+    htmlContent: processed.fileType === 'epub' ? '' : processed.htmlContent,
+    pdfDataBase64: '', // stored in IndexedDB
+    totalPdfPages: processed.totalPdfPages,
+    ...(processed.pageLabels ? { pageLabels: processed.pageLabels } : {}),
+    pages: processed.pages,
+    chapters: processed.chapters,
+    progress: 0,
+    lastRead: new Date().toISOString(),
+    uploadDate: new Date().toISOString(),
+    coverColor: COVER_COLORS[Math.floor(Math.random() * COVER_COLORS.length)],
+    hasCover: !!processed.coverImage,
+    bookmarks: [],
+    currentPage: 0,
+    fileSize: file.size,
+    fileHash,
+    ragDocumentName,
+    publisher: metadata.publisher,
+    language: metadata.language,
+    publishedDate: metadata.publishedDate,
+    isbn: metadata.isbn,
+    description: metadata.description,
+    series: metadata.series,
+    seriesIndex: metadata.seriesIndex,
+    tags: metadata.subjects,
+  }
+  return { book, pageCount }
+}
+
+// The book among `books` with the same content as an upload. Books stored before file
+// hashes were kept are compared by their PDF bytes or their text, which a TXT file is whole.
+// DOCX and EPUB books of that time keep only extracted text, so for them the same file name
+// and size is taken as the same file
+async function findUploadDuplicate(file: File, fileHash: string, books: Book[], legacyHashes: Map<string, string>): Promise<Book | null> {
+  let textHash: string | null = null
+  for (const book of books) {
+    if (book.fileHash) {
+      if (book.fileHash === fileHash) return book
+      continue
+    }
+    if (book.fileType === 'docx' || book.fileType === 'epub') {
+      if (book.fileName === file.name && book.fileSize === file.size) return book
+      continue
+    }
+    let hash = legacyHashes.get(book.id)
+    if (!hash) {
+      hash = await hashBookContent(book, book.fileType === 'pdf' ? await getFileBinary(book.id) : null)
+      legacyHashes.set(book.id, hash)
+    }
+    if (book.fileType === 'pdf' && hash === fileHash) return book
+    if (book.fileType === 'txt' && file.name.toLowerCase().endsWith('.txt')) {
+      textHash ??= await sha256Hex(await file.text())
+      if (hash === textHash) return book
+    }
+  }
+  return null
+}
+
 function formatFileSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
@@ -337,17 +1755,22 @@ const SAMPLE_BOOKS: Book[] = [
     totalPdfPages: 0,
     pages: [],
     chapters: [
-      { title: 'Chapter 1: The Activity and Art of Reading', startIndex: 0 },
-      { title: 'Chapter 2: The Levels of Reading', startIndex: 1 },
-      { title: 'Chapter 3: The First Level of Reading', startIndex: 2 }
+      { title: 'Chapter 1: The Activity and Art of Reading', startIndex: 0, level: 0 },
+      { title: 'Chapter 2: The Levels of Reading', startIndex: 1, level: 0 },
+      { title: 'Chapter 3: The First Level of Reading', startIndex: 2, level: 0 }
     ],
     progress: 35,
     lastRead: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
     uploadDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
     coverColor: '#8B6F47',
-    bookmarks: [0, 2],
+    hasCover: false,
+    bookmarks: [
+      { id: 'sample-1-bookmark-0', label: 'Chapter 1: The Activity and Art of Reading', note: '', pageIndex: 0, createdAt: new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString() },
+      { id: 'sample-1-bookmark-2', label: 'The first level', note: 'Start here for the exercises', pageIndex: 2, createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString() },
+    ],
     currentPage: 1,
     fileSize: 2048,
+    ragDocumentName: '',
   },
   {
     id: 'sample-2',
@@ -361,17 +1784,27 @@ const SAMPLE_BOOKS: Book[] = [
     totalPdfPages: 0,
     pages: [],
     chapters: [
-      { title: 'Part I: Principles', startIndex: 0 },
-      { title: 'Chapter 1: The Transaction', startIndex: 0 },
-      { title: 'Chapter 2: Simplicity', startIndex: 1 }
+      {
+        title: 'Part I: Principles',
+        startIndex: 0,
+        level: 0,
+        children: [
+          { title: 'Chapter 1: The Transaction', startIndex: 0, level: 1 },
+          { title: 'Chapter 2: Simplicity', startIndex: 1, level: 1 }
+        ]
+      }
     ],
     progress: 62,
     lastRead: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
     uploadDate: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
     coverColor: '#6B8E6B',
-    bookmarks: [1],
+    hasCover: false,
+    bookmarks: [
+      { id: 'sample-2-bookmark-1', label: 'Chapter 2: Simplicity', note: '', pageIndex: 1, createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString() },
+    ],
     currentPage: 0,
     fileSize: 45000,
+    ragDocumentName: '',
   },
   {
     id: 'sample-3',
@@ -385,17 +1818,25 @@ const SAMPLE_BOOKS: Book[] = [
     totalPdfPages: 412,
     pages: [],
     chapters: [
-      { title: 'Introduction', startIndex: 0 },
-      { title: 'Part I: Two Systems', startIndex: 3 },
-      { title: 'Chapter 1: The Characters of the Story', startIndex: 5 }
+      { title: 'Introduction', startIndex: 0, level: 0 },
+      {
+        title: 'Part I: Two Systems',
+        startIndex: 3,
+        level: 0,
+        children: [
+          { title: 'Chapter 1: The Characters of the Story', startIndex: 5, level: 1 }
+        ]
+      }
     ],
     progress: 12,
     lastRead: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
     uploadDate: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
     coverColor: '#7B6B8E',
+    hasCover: false,
     bookmarks: [],
     currentPage: 0,
     fileSize: 4200000,
+    ragDocumentName: '',
   }
 ]
 
@@ -434,11 +1875,11 @@ const SAMPLE_HIGHLIGHTS: Highlight[] = [
 
 const SAMPLE_CHAT: ChatMessage[] = [
   {
-    id: 'sc-1', role: 'user', content: 'What are the four levels of reading?',
+    id: 'sc-1', role: 'user', content: 'What are the four levels of reading?', bookId: 'sample-1', threadId: 'st-1',
     timestamp: new Date(Date.now() - 60 * 60 * 1000).toISOString()
   },
   {
-    id: 'sc-2', role: 'assistant',
+    id: 'sc-2', role: 'assistant', bookId: 'sample-1', threadId: 'st-1',
     content: 'According to the text, there are four levels of reading that are cumulative (higher levels include lower ones):\n\n1. **Elementary Reading** - Also called rudimentary, basic, or initial reading. The question at this level is "What does the sentence say?"\n\n2. **Inspectional Reading** - Characterized by emphasis on time. The aim is to get the most out of a book within a given time period.\n\n3. The third and fourth levels are discussed in later chapters of the book.',
     sources: ['Chapter 2: The Levels of Reading - "There are four levels of reading..."'],
     followUpQuestions: ['What is the difference between inspectional and analytical reading?', 'How can I improve my elementary reading skills?'],
@@ -446,6 +1887,14 @@ const SAMPLE_CHAT: ChatMessage[] = [
   }
 ]
 
+const SAMPLE_THREADS: ChatThread[] = [
+  {
+    id: 'st-1', bookId: 'sample-1', title: 'Levels of reading', sessionId: `${AGENT_ID}-sample-1`,
+    createdAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    updatedAt: new Date(Date.now() - 59 * 60 * 1000).toISOString()
+  }
+]
+
 const COVER_COLORS = ['#8B6F47', '#6B8E6B', '#7B6B8E', '#8E6B6B', '#6B7B8E', '#8E8B6B', '#6B8E8B', '#8B6B7B']
 
 // ===== HELPERS =====
@@ -469,54 +1918,279 @@ function timeAgo(dateStr: string): string {
   return `${weeks}w ago`
 }
 
-function getTextPages(content: string): string[] {
-  if (!content) return ['']
-  return splitIntoPages(content, 3000)
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
 }
 
-function renderMarkdown(text: string) {
-  if (!text) return null
-  return (
-    <div className="space-y-1.5">
-      {text.split('\n').map((line, i) => {
-        if (line.startsWith('### ')) return <h4 key={i} className="font-semibold text-sm mt-3 mb-1">{line.slice(4)}</h4>
-        if (line.startsWith('## ')) return <h3 key={i} className="font-semibold text-base mt-3 mb-1">{line.slice(3)}</h3>
-        if (line.startsWith('# ')) return <h2 key={i} className="font-bold text-lg mt-4 mb-2">{line.slice(2)}</h2>
-        if (line.startsWith('- ') || line.startsWith('* ')) return <li key={i} className="ml-4 list-disc text-sm">{formatInline(line.slice(2))}</li>
-        if (/^\d+\.\s/.test(line)) return <li key={i} className="ml-4 list-decimal text-sm">{formatInline(line.replace(/^\d+\.\s/, ''))}</li>
-        if (!line.trim()) return <div key={i} className="h-1" />
-        return <p key={i} className="text-sm leading-relaxed">{formatInline(line)}</p>
-      })}
-    </div>
-  )
+// Chapters in reading order, with nested outline entries after their parent
+function flattenChapters(chapters: Chapter[]): Chapter[] {
+  return chapters.flatMap(ch => [ch, ...flattenChapters(ch.children ?? [])])
 }
 
-function formatInline(text: string) {
-  const parts = text.split(/\*\*(.*?)\*\*/g)
-  if (parts.length === 1) return text
-  return parts.map((part, i) =>
-    i % 2 === 1 ? <strong key={i} className="font-semibold">{part}</strong> : part
-  )
+// TXT and DOCX books are laid out at reading time, so positions in them are character
+// offsets into the whole text
+function usesTextOffsets(book: Book | undefined): boolean {
+  return book?.fileType === 'txt' || book?.fileType === 'docx'
 }
 
-const HIGHLIGHT_COLORS: Record<string, string> = {
-  yellow: 'bg-yellow-200/60',
-  green: 'bg-green-200/60',
-  blue: 'bg-blue-200/60',
-  pink: 'bg-pink-200/60',
+// The chapter holding a page or section, or a character offset when the book and its chapters have them
+function getChapterAt(book: Book, pageIndex: number, offset?: number): Chapter | null {
+  if (!Array.isArray(book.chapters)) return null
+  const chapters = flattenChapters(book.chapters)
+  const byOffset = offset !== undefined && chapters.every(ch => ch.startOffset !== undefined)
+  const position = byOffset ? (offset ?? 0) : pageIndex
+  const startOf = (ch: Chapter) => byOffset ? (ch.startOffset ?? 0) : ch.startIndex
+  let current: Chapter | null = null
+  for (const ch of chapters) {
+    if (startOf(ch) <= position && (!current || startOf(ch) >= startOf(current))) current = ch
+  }
+  return current
 }
 
-const HIGHLIGHT_BORDER_COLORS: Record<string, string> = {
-  yellow: 'border-l-yellow-400',
-  green: 'border-l-green-400',
-  blue: 'border-l-blue-400',
-  pink: 'border-l-pink-400',
+function getCurrentChapter(book: Book): Chapter | null {
+  // Laid-out books know the exact reading position
+  return getChapterAt(book, book.currentPage, book.readingOffset)
 }
 
-const FILE_TYPE_COLORS: Record<string, string> = {
+// The printed label of a page where the PDF defines one, otherwise its number
+function getPageLabel(book: Book, pageIndex: number): string {
+  return book.pageLabels?.[pageIndex] || String(pageIndex + 1)
+}
+
+// "Page iv" for a PDF page, "Section 3" for a stored section of the other formats
+function getPositionLabel(book: Book, pageIndex: number): string {
+  return book.fileType === 'pdf' ? `Page ${getPageLabel(book, pageIndex)}` : `Section ${pageIndex + 1}`
+}
+
+// New bookmarks are named after their chapter, or their position in a book without chapters
+function defaultBookmarkLabel(book: Book, pageIndex: number, offset?: number): string {
+  return getChapterAt(book, pageIndex, offset)?.title || getPositionLabel(book, pageIndex)
+}
+
+// "Discworld #3", or just the series name when the book has no number in it
+function seriesLabel(book: Book): string {
+  if (!book.series) return ''
+  return book.seriesIndex !== undefined ? `${book.series} #${book.seriesIndex}` : book.series
+}
+
+// Whether a trash entry has been kept for `retentionDays`; 0 keeps entries until the trash is emptied
+function isTrashExpired(entry: TrashEntry, retentionDays: number, now = Date.now()): boolean {
+  return retentionDays > 0 && now - new Date(entry.deletedAt).getTime() >= retentionDays * 24 * 60 * 60 * 1000
+}
+
+// A copy of `items` with the item at `index` swapped with its neighbour in `direction`
+function moveItem<T>(items: T[], index: number, direction: 1 | -1): T[] {
+  const target = index + direction
+  if (index < 0 || target < 0 || target >= items.length) return items
+  const moved = [...items]
+  const [item] = moved.splice(index, 1)
+  moved.splice(target, 0, item)
+  return moved
+}
+
+// Prefixes a chat question with the open book's identity and reading position. Retrieval is
+// kept to the book's own document by the `book_id` filter sent with the question
+
+function buildBookContextMessage(book: Book, question: string): string {
+  const chapter = getCurrentChapter(book)
+  const totalPages = book.fileType === 'pdf' ? book.totalPdfPages : (Array.isArray(book.pages) ? book.pages.length : 0)
+  const lines = [
+    '[Reading context]',
+    `Book ID: ${book.id}`,
+    `Title: ${book.title}`,
+    `Author: ${book.author}`,
+  ]
+  if (book.ragDocumentName) lines.push(`Knowledge base document: ${book.ragDocumentName}`)
+  if (chapter) lines.push(`Current chapter: ${chapter.title}`)
+  lines.push(`Current ${book.fileType === 'pdf' ? 'page' : 'section'}: ${getPageLabel(book, book.currentPage)}${totalPages > 0 ? ` of ${totalPages}` : ''}`)
+  lines.push('Answer using only this book.')
+  lines.push('[/Reading context]', '', question)
+  return lines.join('\n')
+}
+
+const NEW_THREAD_TITLE = 'New conversation'
+
+function createChatThread(bookId: string | undefined, title: string): ChatThread {
+  const now = new Date().toISOString()
+  return {
+    id: generateId(),
+    bookId,
+    title: title.substring(0, 60),
+    sessionId: `${AGENT_ID}-${generateId()}`,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+// Reads the persisted `bookshelf_chat` state. Older versions stored a bare ChatMessage[]
+// without threads -- those messages are grouped into one thread per book.
+function loadChatState(raw: string | null): { threads: ChatThread[]; messages: ChatMessage[] } {
+  if (!raw) return { threads: [], messages: [] }
+  const parsed = JSON.parse(raw)
+  if (!Array.isArray(parsed)) {
+    return {
+      threads: Array.isArray(parsed?.threads) ? parsed.threads : [],
+      messages: Array.isArray(parsed?.messages) ? parsed.messages : [],
+    }
+  }
+  const legacyThreads = new Map<string, ChatThread>()
+  const messages = (parsed as ChatMessage[]).map((m) => {
+    if (m.threadId) return m
+    const key = m.bookId ?? ''
+    let thread = legacyThreads.get(key)
+    if (!thread) {
+      thread = { ...createChatThread(m.bookId, 'Earlier conversation'), createdAt: m.timestamp, updatedAt: m.timestamp }
+      legacyThreads.set(key, thread)
+    }
+    if (m.timestamp > thread.updatedAt) thread.updatedAt = m.timestamp
+    return { ...m, threadId: thread.id }
+  })
+  return { threads: Array.from(legacyThreads.values()), messages }
+}
+
+function getTextPages(content: string): string[] {
+  if (!content) return ['']
+  return splitIntoPages(content, 3000)
+}
+
+// Where each stored section begins in the book text. Sections are trimmed runs of
+// paragraphs, so each is searched for from the end of the one before
+function getSectionOffsets(sections: string[], text: string): number[] {
+  const offsets: number[] = []
+  let cursor = 0
+  for (const section of sections) {
+    const found = text.indexOf(section.substring(0, 64), cursor)
+    const start = found >= 0 ? found : cursor
+    offsets.push(start)
+    cursor = Math.min(text.length, start + section.length)
+  }
+  return offsets
+}
+
+function sectionIndexForOffset(sectionOffsets: number[], offset: number): number {
+  let index = 0
+  while (index + 1 < sectionOffsets.length && sectionOffsets[index + 1] <= offset) index++
+  return index
+}
+
+// Top-level blocks of DOCX HTML with their offsets in its text, for layout pagination
+function splitHtmlBlocks(html: string): { blocks: { html: string; text: string }[]; starts: number[]; text: string } {
+  const template = document.createElement('template')
+  template.innerHTML = html
+  const blocks: { html: string; text: string }[] = []
+  const starts: number[] = []
+  let text = ''
+  template.content.childNodes.forEach((node) => {
+    const nodeText = node.textContent ?? ''
+    let block: Element | null = null
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      block = node as Element
+    } else if (node.nodeType === Node.TEXT_NODE && nodeText.trim()) {
+      block = document.createElement('p')
+      block.textContent = nodeText
+    }
+    if (block) {
+      // Selections and highlights on a page of blocks map back to offsets in the whole text
+      block.setAttribute('data-text-offset', String(text.length))
+      starts.push(text.length)
+      blocks.push({ html: block.outerHTML, text: nodeText })
+    }
+    text += nodeText
+  })
+  return { blocks, starts, text }
+}
+
+// Per-page text of a book: the full copy in the pages store, else what the Book record carries
+async function loadBookPageTexts(book: Book): Promise<string[]> {
+  try {
+    const pages = await getPageTexts(book.id)
+    if (pages) return pages
+  } catch {
+    // fall back to the Book record
+  }
+  if (book.fileType === 'pdf') return getPdfPageTexts(book.content, Math.max(book.totalPdfPages, 1))
+  return Array.isArray(book.pages) && book.pages.length > 0 ? book.pages : getTextPages(book.content)
+}
+
+function buildSearchSnippet(text: string, query: string, context = 70): string {
+  const lower = (text || '').toLowerCase()
+  let at = -1
+  for (const term of tokenizeForIndex(query)) {
+    at = lower.indexOf(term)
+    if (at >= 0) break
+  }
+  const start = Math.max(0, at - context)
+  const snippet = text.substring(start, Math.max(at, 0) + context * 2).replace(/\s+/g, ' ').trim()
+  return (start > 0 ? '…' : '') + snippet + (start + context * 3 < text.length ? '…' : '')
+}
+
+// Recovers per-page text from a PDF's `--- Page N ---` delimited content
+function getPdfPageTexts(content: string, totalPages: number): string[] {
+  const pages: string[] = Array.from({ length: totalPages }, () => '')
+  const parts = (content || '').split(/\n--- Page (\d+) ---\n/)
+  for (let i = 1; i < parts.length; i += 2) {
+    const idx = parseInt(parts[i], 10) - 1
+    if (idx >= 0 && idx < totalPages) pages[idx] = parts[i + 1] ?? ''
+  }
+  // Sample PDFs carry plain text without page markers
+  if (parts.length === 1 && content) pages[0] = content
+  return pages
+}
+
+function renderMarkdown(text: string) {
+  if (!text) return null
+  return (
+    <div className="space-y-1.5">
+      {text.split('\n').map((line, i) => {
+        if (line.startsWith('### ')) return <h4 key={i} className="font-semibold text-sm mt-3 mb-1">{line.slice(4)}</h4>
+        if (line.startsWith('## ')) return <h3 key={i} className="font-semibold text-base mt-3 mb-1">{line.slice(3)}</h3>
+        if (line.startsWith('# ')) return <h2 key={i} className="font-bold text-lg mt-4 mb-2">{line.slice(2)}</h2>
+        if (line.startsWith('- ') || line.startsWith('* ')) return <li key={i} className="ml-4 list-disc text-sm">{formatInline(line.slice(2))}</li>
+        if (/^\d+\.\s/.test(line)) return <li key={i} className="ml-4 list-decimal text-sm">{formatInline(line.replace(/^\d+\.\s/, ''))}</li>
+        if (!line.trim()) return <div key={i} className="h-1" />
+        return <p key={i} className="text-sm leading-relaxed">{formatInline(line)}</p>
+      })}
+    </div>
+  )
+}
+
+function formatInline(text: string) {
+  const parts = text.split(/\*\*(.*?)\*\*/g)
+  if (parts.length === 1) return text
+  return parts.map((part, i) =>
+    i % 2 === 1 ? <strong key={i} className="font-semibold">{part}</strong> : part
+  )
+}
+
+const DEFAULT_HIGHLIGHT_PALETTE: HighlightColor[] = [
+  { id: 'yellow', name: 'Yellow', hex: '#fde047' },
+  { id: 'green', name: 'Green', hex: '#86efac' },
+  { id: 'blue', name: 'Blue', hex: '#93c5fd' },
+  { id: 'pink', name: 'Pink', hex: '#f9a8d4' },
+]
+
+// A highlight's palette color; highlights whose color is gone show in the first one
+function paletteColor(palette: HighlightColor[], id: string): HighlightColor {
+  return palette.find(c => c.id === id) ?? palette[0] ?? DEFAULT_HIGHLIGHT_PALETTE[0]
+}
+
+// Translucent fill for highlighted text, from a palette hex color
+function highlightFill(hex: string, alpha = 0.45): string {
+  const m = /^#?([0-9a-f]{6})$/i.exec(hex)
+  const rgb = m ? parseInt(m[1], 16) : 0xfde047
+  return `rgba(${rgb >> 16}, ${(rgb >> 8) & 255}, ${rgb & 255}, ${alpha})`
+}
+
+const FILE_TYPE_COLORS: Record<string, string> = {
   pdf: 'bg-red-100 text-red-700 border-red-200',
   docx: 'bg-blue-100 text-blue-700 border-blue-200',
   txt: 'bg-gray-100 text-gray-700 border-gray-200',
+  epub: 'bg-amber-100 text-amber-700 border-amber-200',
 }
 
 // ===== ERROR BOUNDARY =====
@@ -548,15 +2222,140 @@ class ErrorBoundary extends React.Component<
 }
 
 // ===== PDF PAGE RENDERER =====
-function PdfPageRenderer({ pdfDataBase64, pageNumber, scale }: {
-  pdfDataBase64: string
+// One parsed PDF.js document per open book, plus the last few rendered pages, so a page
+// turn copies pixels instead of decoding and reparsing the whole file
+interface RenderedPdfPage {
+  canvas: HTMLCanvasElement
+  textItems: any[]
+}
+
+interface PdfDocumentEntry {
+  doc: Promise<any>
+  pages: Map<string, Promise<RenderedPdfPage>>
+  // Text lines per page number, for the reflow view
+  lines: Map<number, Promise<PdfTextLine[]>>
+}
+
+const PDF_RENDER_CACHE_SIZE = 6
+const pdfDocumentCache = new Map<string, PdfDocumentEntry>()
+
+function freeRenderedPage(rendered: Promise<RenderedPdfPage>): void {
+  rendered.then((r) => {
+    r.canvas.width = 0
+    r.canvas.height = 0
+  }).catch(() => {})
+}
+
+function getPdfDocumentEntry(bookId: string): PdfDocumentEntry {
+  const existing = pdfDocumentCache.get(bookId)
+  if (existing) return existing
+
+  const doc = (async () => {
+    const data = await getFileBinary(bookId)
+    if (!data) throw new Error('PDF data not found in storage. The file may need to be re-uploaded.')
+    const pdfjsLib = await loadPdfJs()
+    return pdfjsLib.getDocument({ data }).promise
+  })()
+  const entry: PdfDocumentEntry = { doc, pages: new Map(), lines: new Map() }
+  pdfDocumentCache.set(bookId, entry)
+  // Don't cache a failed load
+  doc.catch(() => {
+    if (pdfDocumentCache.get(bookId) === entry) pdfDocumentCache.delete(bookId)
+  })
+  return entry
+}
+
+function getPdfDocument(bookId: string): Promise<any> {
+  return getPdfDocumentEntry(bookId).doc
+}
+
+function renderPdfPage(bookId: string, pageNumber: number, scale: number): Promise<RenderedPdfPage> {
+  const entry = getPdfDocumentEntry(bookId)
+  const key = `${pageNumber}@${scale}`
+  const cached = entry.pages.get(key)
+  if (cached) {
+    // Most recently used pages are evicted last
+    entry.pages.delete(key)
+    entry.pages.set(key, cached)
+    return cached
+  }
+
+  const rendered = entry.doc.then(async (pdf) => {
+    if (pageNumber < 1 || pageNumber > pdf.numPages) {
+      throw new Error(`Page ${pageNumber} out of range (1-${pdf.numPages})`)
+    }
+    const page = await pdf.getPage(pageNumber)
+    const viewport = page.getViewport({ scale })
+    const canvas = document.createElement('canvas')
+    canvas.width = viewport.width
+    canvas.height = viewport.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Canvas rendering is not available')
+    await page.render({ canvasContext: ctx, viewport }).promise
+    const textContent = await page.getTextContent()
+    page.cleanup()
+    return { canvas, textItems: textContent.items }
+  })
+  entry.pages.set(key, rendered)
+  rendered.catch(() => {
+    if (entry.pages.get(key) === rendered) entry.pages.delete(key)
+  })
+
+  while (entry.pages.size > PDF_RENDER_CACHE_SIZE) {
+    const oldest = entry.pages.keys().next().value as string
+    freeRenderedPage(entry.pages.get(oldest) as Promise<RenderedPdfPage>)
+    entry.pages.delete(oldest)
+  }
+  return rendered
+}
+
+function getPdfPageLines(bookId: string, pageNumber: number): Promise<PdfTextLine[]> {
+  const entry = getPdfDocumentEntry(bookId)
+  const cached = entry.lines.get(pageNumber)
+  if (cached) return cached
+
+  const lines = entry.doc.then(async (pdf) => {
+    const page = await pdf.getPage(pageNumber)
+    const textContent = await page.getTextContent()
+    return groupTextLines(textContent.items)
+  })
+  entry.lines.set(pageNumber, lines)
+  lines.catch(() => {
+    if (entry.lines.get(pageNumber) === lines) entry.lines.delete(pageNumber)
+  })
+  return lines
+}
+
+// Paragraph text of one page. Two pages either side are read to recognise running
+// headers and footers, including ones that alternate between left and right pages
+async function getReflowedPdfPage(bookId: string, pageIndex: number, totalPages: number): Promise<string> {
+  const neighbours = [pageIndex - 2, pageIndex - 1, pageIndex + 1, pageIndex + 2].filter(i => i >= 0 && i < totalPages)
+  const [lines, ...neighbourLines] = await Promise.all([pageIndex, ...neighbours].map(i => getPdfPageLines(bookId, i + 1)))
+  return reflowTextLines(stripRunningLines(lines, neighbourLines))
+}
+
+// Drops a book's parsed document and rendered pages when the reader closes it
+function releasePdfDocument(bookId: string): void {
+  const entry = pdfDocumentCache.get(bookId)
+  if (!entry) return
+  pdfDocumentCache.delete(bookId)
+  entry.pages.forEach(freeRenderedPage)
+  entry.doc.then(pdf => pdf.destroy()).catch(() => {})
+}
+
+function PdfPageRenderer({ bookId, pageNumber, scale, highlights = [], palette = DEFAULT_HIGHLIGHT_PALETTE }: {
+  bookId: string
   pageNumber: number
   scale: number
+  highlights?: Highlight[]
+  palette?: HighlightColor[]
 }) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const textLayerRef = useRef<HTMLDivElement>(null)
   const [rendering, setRendering] = useState(true)
   const [error, setError] = useState('')
+  // Unscaled page size, the space highlight rectangles are stored in
+  const [pageSize, setPageSize] = useState<{ width: number; height: number } | null>(null)
 
   useEffect(() => {
     let cancelled = false
@@ -564,38 +2363,29 @@ function PdfPageRenderer({ pdfDataBase64, pageNumber, scale }: {
       setRendering(true)
       setError('')
       try {
-        const pdfjsLib = await loadPdfJs()
-        const binaryStr = atob(pdfDataBase64)
-        const bytes = new Uint8Array(binaryStr.length)
-        for (let i = 0; i < binaryStr.length; i++) bytes[i] = binaryStr.charCodeAt(i)
-
-        const pdf = await pdfjsLib.getDocument({ data: bytes.buffer }).promise
-        if (pageNumber < 1 || pageNumber > pdf.numPages) {
-          if (!cancelled) setError(`Page ${pageNumber} out of range (1-${pdf.numPages})`)
-          if (!cancelled) setRendering(false)
-          return
-        }
-        const page = await pdf.getPage(pageNumber)
-        const viewport = page.getViewport({ scale })
+        const rendered = await renderPdfPage(bookId, pageNumber, scale)
 
         const canvas = canvasRef.current
         if (!canvas || cancelled) return
-        canvas.width = viewport.width
-        canvas.height = viewport.height
+        canvas.width = rendered.canvas.width
+        canvas.height = rendered.canvas.height
 
         const ctx = canvas.getContext('2d')
         if (!ctx) return
 
-        await page.render({ canvasContext: ctx, viewport }).promise
+        ctx.drawImage(rendered.canvas, 0, 0)
+        setPageSize({ width: canvas.width / scale, height: canvas.height / scale })
 
         // Build text layer for text selection
-        const textContent = await page.getTextContent()
         if (textLayerRef.current && !cancelled) {
           textLayerRef.current.innerHTML = ''
-          textLayerRef.current.style.width = viewport.width + 'px'
-          textLayerRef.current.style.height = viewport.height + 'px'
+          textLayerRef.current.dataset.searchPage = String(pageNumber - 1)
+          textLayerRef.current.dataset.pageWidth = String(canvas.width / scale)
+          textLayerRef.current.style.width = canvas.width + 'px'
+          textLayerRef.current.style.height = canvas.height + 'px'
 
-          for (const item of textContent.items) {
+          const stretched: { span: HTMLSpanElement; width: number }[] = []
+          for (const item of rendered.textItems) {
             const ti = item as any
             if (!ti.str || !ti.transform) continue
             const tx = ti.transform
@@ -608,29 +2398,33 @@ function PdfPageRenderer({ pdfDataBase64, pageNumber, scale }: {
             span.style.fontFamily = 'sans-serif'
             span.style.color = 'transparent'
             span.style.lineHeight = '1'
+            span.style.whiteSpace = 'pre'
+            span.style.transformOrigin = '0 0'
             textLayerRef.current.appendChild(span)
+            if (ti.width > 0) stretched.push({ span, width: ti.width * scale })
+          }
+          // Stretch each run to the width it has on the page so selections line up with the
+          // glyphs; measure everything first to lay the layer out only once
+          const measured = stretched.map(({ span, width }) => ({ span, factor: width / (span.offsetWidth || width) }))
+          for (const { span, factor } of measured) {
+            if (Math.abs(factor - 1) > 0.01) span.style.transform = `scaleX(${factor})`
           }
         }
+
+        // Prerender the neighbouring pages so the next turn is instant
+        const pdf = await getPdfDocument(bookId)
+        for (const neighbour of [pageNumber + 1, pageNumber - 1]) {
+          if (!cancelled && neighbour >= 1 && neighbour <= pdf.numPages) renderPdfPage(bookId, neighbour, scale).catch(() => {})
+        }
       } catch (err: any) {
         if (!cancelled) setError(err?.message || 'Failed to render PDF page')
       } finally {
         if (!cancelled) setRendering(false)
       }
     }
-    if (pdfDataBase64) render()
+    render()
     return () => { cancelled = true }
-  }, [pdfDataBase64, pageNumber, scale])
-
-  if (!pdfDataBase64) {
-    return (
-      <div className="flex items-center justify-center py-20">
-        <div className="text-center">
-          <FiLoader className="w-6 h-6 animate-spin text-primary mx-auto mb-2" />
-          <p className="text-sm text-muted-foreground">Loading PDF data...</p>
-        </div>
-      </div>
-    )
-  }
+  }, [bookId, pageNumber, scale])
 
   return (
     <div className="relative inline-block mx-auto">
@@ -648,11 +2442,150 @@ function PdfPageRenderer({ pdfDataBase64, pageNumber, scale }: {
         </div>
       )}
       <canvas ref={canvasRef} className="shadow-lg rounded border border-border max-w-full" style={{ maxWidth: '100%', height: 'auto' }} />
-      <div ref={textLayerRef} className="absolute top-0 left-0 select-text pointer-events-auto overflow-hidden" />
+      {pageSize && highlights.length > 0 && (
+        <div className="absolute inset-0 pointer-events-none">
+          {highlights.flatMap(h => (h.rects ?? []).map((r, i) => (
+            <div
+              key={`${h.id}-${i}`}
+              className="absolute mix-blend-multiply rounded-sm"
+              style={{
+                backgroundColor: highlightFill(paletteColor(palette, h.color).hex, 0.6),
+                left: `${(r.x / pageSize.width) * 100}%`,
+                top: `${(r.y / pageSize.height) * 100}%`,
+                width: `${(r.width / pageSize.width) * 100}%`,
+                height: `${(r.height / pageSize.height) * 100}%`,
+              }}
+            />
+          )))}
+        </div>
+      )}
+      <div ref={textLayerRef} data-search-root="pdf" className="absolute top-0 left-0 select-text pointer-events-auto overflow-hidden" />
+    </div>
+  )
+}
+
+// Every page stacked vertically. Pages mount a renderer only once they come near the
+// viewport; the rest are placeholders sized from the first page.
+function PdfContinuousView({ bookId, totalPages, scale, currentPage, scrollRoot, onVisiblePageChange, highlights, palette }: {
+  bookId: string
+  totalPages: number
+  scale: number
+  currentPage: number
+  scrollRoot: React.RefObject<HTMLDivElement>
+  onVisiblePageChange: (pageIndex: number) => void
+  highlights: Highlight[]
+  palette: HighlightColor[]
+}) {
+  const [pageSize, setPageSize] = useState<{ width: number; height: number } | null>(null)
+  const [nearPages, setNearPages] = useState<Set<number>>(() => new Set([currentPage]))
+  const pageRefs = useRef<(HTMLDivElement | null)[]>([])
+  const visibleHeights = useRef(new Map<number, number>())
+  const reportedPage = useRef(-1)
+  const onVisibleRef = useRef(onVisiblePageChange)
+  onVisibleRef.current = onVisiblePageChange
+
+  useEffect(() => {
+    let cancelled = false
+    getPdfDocument(bookId).then(pdf => pdf.getPage(1)).then((page) => {
+      const viewport = page.getViewport({ scale })
+      if (!cancelled) setPageSize({ width: viewport.width, height: viewport.height })
+    }).catch(() => {})
+    return () => { cancelled = true }
+  }, [bookId, scale])
+
+  // Scroll to pages reached some other way (contents, page input, search) -- and to the saved page on open
+  useEffect(() => {
+    if (!pageSize || currentPage === reportedPage.current) return
+    reportedPage.current = currentPage
+    pageRefs.current[currentPage]?.scrollIntoView({ block: 'start' })
+  }, [currentPage, pageSize])
+
+  useEffect(() => {
+    const root = scrollRoot.current
+    if (!root || !pageSize) return
+    const pageOf = (el: Element) => Number((el as HTMLElement).dataset.pdfPage)
+    const heights = visibleHeights.current
+
+    const nearObserver = new IntersectionObserver((entries) => {
+      setNearPages((prev) => {
+        const next = new Set(prev)
+        for (const e of entries) {
+          if (e.isIntersecting) next.add(pageOf(e.target))
+          else next.delete(pageOf(e.target))
+        }
+        return next
+      })
+    }, { root, rootMargin: '150% 0px' })
+
+    // The page with the most visible height is the current page
+    const visibleObserver = new IntersectionObserver((entries) => {
+      for (const e of entries) {
+        if (e.isIntersecting) heights.set(pageOf(e.target), e.intersectionRect.height)
+        else heights.delete(pageOf(e.target))
+      }
+      let best = -1
+      let bestHeight = 0
+      heights.forEach((height, page) => {
+        if (height > bestHeight) {
+          best = page
+          bestHeight = height
+        }
+      })
+      if (best >= 0 && best !== reportedPage.current) {
+        reportedPage.current = best
+        onVisibleRef.current(best)
+      }
+    }, { root, threshold: [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1] })
+
+    pageRefs.current.forEach((el) => {
+      if (!el) return
+      nearObserver.observe(el)
+      visibleObserver.observe(el)
+    })
+    return () => {
+      nearObserver.disconnect()
+      visibleObserver.disconnect()
+      heights.clear()
+    }
+  }, [scrollRoot, pageSize, totalPages])
+
+  if (!pageSize) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <FiLoader className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      {Array.from({ length: totalPages }, (_, i) => (
+        <div
+          key={i}
+          ref={(el) => { pageRefs.current[i] = el }}
+          data-pdf-page={i}
+          className="flex justify-center max-w-full"
+          style={nearPages.has(i) ? undefined : { width: pageSize.width, aspectRatio: `${pageSize.width} / ${pageSize.height}` }}
+        >
+          {nearPages.has(i) ? (
+            <PdfPageRenderer bookId={bookId} pageNumber={i + 1} scale={scale} highlights={highlights.filter(h => h.pageIndex === i)} palette={palette} />
+          ) : (
+            <div className="w-full h-full rounded border border-border bg-card/60 flex items-center justify-center text-xs text-muted-foreground">{i + 1}</div>
+          )}
+        </div>
+      ))}
     </div>
   )
 }
 
+// Facing pages shown together with `pageIndex`; with the cover alone, spreads start on page 2
+function getSpreadPages(pageIndex: number, totalPages: number, coverAlone: boolean): number[] {
+  if (coverAlone && pageIndex === 0) return [0]
+  const offset = coverAlone ? 1 : 0
+  const first = Math.floor((pageIndex - offset) / 2) * 2 + offset
+  return [first, first + 1].filter(p => p < totalPages)
+}
+
 // ===== DOCX RENDERER =====
 function DocxRenderer({ htmlContent, fontSize, lineHeight, fontFamily }: {
   htmlContent: string
@@ -672,6 +2605,7 @@ function DocxRenderer({ htmlContent, fontSize, lineHeight, fontFamily }: {
   return (
     <div ref={containerRef}>
       <div
+        data-search-root="html"
         className="prose prose-sm max-w-none select-text"
         style={{
           fontSize: `${fontSize}px`,
@@ -685,16 +2619,29 @@ function DocxRenderer({ htmlContent, fontSize, lineHeight, fontFamily }: {
 }
 
 // ===== SIDEBAR NAV =====
-function SidebarNav({ activeScreen, onNavigate, collapsed, onToggle }: {
+function SidebarNav({ activeScreen, onNavigate, collapsed, onToggle, shelves, shelfCounts, totalBooks, activeShelfId, onSelectShelf, onNewShelf, onEditShelf, onDropBook }: {
   activeScreen: string
   onNavigate: (screen: string) => void
   collapsed: boolean
   onToggle: () => void
+  // Built-in shelves first, then the reader's own
+  shelves: Shelf[]
+  shelfCounts: Record<string, number>
+  totalBooks: number
+  activeShelfId: string | null
+  onSelectShelf: (id: string | null) => void
+  onNewShelf: () => void
+  onEditShelf: (shelf: Shelf) => void
+  onDropBook: (shelfId: string, bookId: string) => void
 }) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
   const navItems = [
     { id: 'library', label: 'Library', icon: FiBook },
     { id: 'reader', label: 'Reader', icon: FiBookOpen },
     { id: 'annotations', label: 'Notes', icon: FiEdit3 },
+    { id: 'bookmarks', label: 'Bookmarks', icon: FiBookmark },
+    { id: 'trash', label: 'Trash', icon: FiTrash2 },
   ]
 
   return (
@@ -705,7 +2652,7 @@ function SidebarNav({ activeScreen, onNavigate, collapsed, onToggle }: {
           <FiMenu className="w-4 h-4" />
         </button>
       </div>
-      <nav className="flex-1 p-2 space-y-1">
+      <nav className="flex-1 p-2 space-y-1 overflow-y-auto">
         {navItems.map((item) => {
           const Icon = item.icon
           return (
@@ -722,6 +2669,56 @@ function SidebarNav({ activeScreen, onNavigate, collapsed, onToggle }: {
             </TooltipProvider>
           )
         })}
+
+        {!collapsed && (
+          <div className="pt-4 space-y-0.5">
+            <div className="flex items-center justify-between px-3 pb-1">
+              <span className="text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Shelves</span>
+              <button onClick={onNewShelf} className="p-0.5 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors" title="New shelf">
+                <FiPlus className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {[null, ...shelves].map((shelf) => {
+              const id = shelf?.id ?? null
+              const active = activeScreen === 'library' && activeShelfId === id
+              // Only collections take dropped books; smart shelves pick theirs by rules
+              const droppable = shelf?.kind === 'collection'
+              const Icon = !shelf ? FiGrid : shelf.kind === 'collection' ? FiFolder : shelf.id === 'shelf-reading' ? FiBookOpen : shelf.id === 'shelf-finished' ? FiCheck : shelf.id === 'shelf-unread' ? FiBook : FiZap
+              return (
+                <div
+                  key={id ?? 'all'}
+                  onDragOver={(e) => {
+                    if (!droppable || !e.dataTransfer.types.includes(BOOK_DRAG_TYPE)) return
+                    e.preventDefault()
+                    e.dataTransfer.dropEffect = 'copy'
+                    setDropTarget(id)
+                  }}
+                  onDragLeave={() => setDropTarget(prev => prev === id ? null : prev)}
+                  onDrop={(e) => {
+                    setDropTarget(null)
+                    const bookId = e.dataTransfer.getData(BOOK_DRAG_TYPE)
+                    if (shelf && droppable && bookId) {
+                      e.preventDefault()
+                      onDropBook(shelf.id, bookId)
+                    }
+                  }}
+                  className={cn("group flex items-center rounded-md transition-colors", active ? "bg-secondary text-foreground" : "text-muted-foreground hover:bg-secondary/60 hover:text-foreground", dropTarget === id && id && "ring-1 ring-primary bg-primary/10")}
+                >
+                  <button onClick={() => onSelectShelf(id)} className="flex-1 min-w-0 flex items-center gap-2 px-3 py-1.5 text-xs">
+                    <Icon className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate flex-1 text-left">{shelf?.name ?? 'All Books'}</span>
+                    <span className="text-[10px] text-muted-foreground tabular-nums">{shelf ? shelfCounts[shelf.id] ?? 0 : totalBooks}</span>
+                  </button>
+                  {shelf && !isBuiltInShelf(shelf) && (
+                    <button onClick={() => onEditShelf(shelf)} className="p-1 mr-1 rounded opacity-0 group-hover:opacity-100 hover:bg-background text-muted-foreground hover:text-foreground transition-opacity" title="Edit shelf">
+                      <FiEdit3 className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
       </nav>
       <div className="p-3 border-t border-border">
         <div className={cn("flex items-center gap-2 text-xs text-muted-foreground", collapsed && "justify-center")}>
@@ -734,81 +2731,263 @@ function SidebarNav({ activeScreen, onNavigate, collapsed, onToggle }: {
 }
 
 // ===== UPLOAD DROPZONE =====
-function UploadDropzone({ onUpload, uploading, statusMsg }: {
-  onUpload: (file: File) => void
-  uploading: boolean
-  statusMsg: string
+// Files of a drop, with folders read through. Inside folders only book files are kept
+async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries have to be taken before the first await, while the drop event is current
+  const entries = Array.from(dataTransfer.items).map(item => item.webkitGetAsEntry?.()).filter((e): e is FileSystemEntry => !!e)
+  if (entries.length === 0) return Array.from(dataTransfer.files)
+
+  const fileOf = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+  const readAll = async (dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+    const reader = dir.createReader()
+    const all: FileSystemEntry[] = []
+    // readEntries hands entries over in batches until it returns none
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+      if (batch.length === 0) return all
+      all.push(...batch)
+    }
+  }
+
+  const files: File[] = []
+  const walk = async (entry: FileSystemEntry, inFolder: boolean) => {
+    if (entry.isFile) {
+      if (!inFolder || (!entry.name.startsWith('.') && isBookFile(entry.name))) files.push(await fileOf(entry as FileSystemFileEntry))
+    } else if (entry.isDirectory) {
+      for (const child of await readAll(entry as FileSystemDirectoryEntry)) await walk(child, true)
+    }
+  }
+  for (const entry of entries) await walk(entry, false)
+  return files
+}
+
+function UploadDropzone({ onUpload }: {
+  onUpload: (files: File[]) => void
 }) {
   const [dragOver, setDragOver] = useState(false)
   const fileRef = useRef<HTMLInputElement>(null)
+  const folderRef = useRef<HTMLInputElement>(null)
+
+  // React doesn't know the attribute that turns a file input into a folder picker
+  useEffect(() => {
+    folderRef.current?.setAttribute('webkitdirectory', '')
+  }, [])
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     setDragOver(false)
-    const file = e.dataTransfer.files[0]
-    if (file) onUpload(file)
+    collectDroppedFiles(e.dataTransfer).then((files) => {
+      if (files.length > 0) onUpload(files)
+    }).catch(err => console.error('Failed to read dropped files:', err))
   }, [onUpload])
 
-  const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) onUpload(file)
-    if (fileRef.current) fileRef.current.value = ''
+  const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>, fromFolder: boolean) => {
+    const files = Array.from(e.target.files ?? []).filter(f => !fromFolder || (!f.name.startsWith('.') && isBookFile(f.name)))
+    if (files.length > 0) onUpload(files)
+    e.target.value = ''
   }, [onUpload])
 
   return (
     <div onDragOver={(e) => { e.preventDefault(); setDragOver(true) }} onDragLeave={() => setDragOver(false)} onDrop={handleDrop} onClick={() => fileRef.current?.click()} className={cn("border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-all duration-200", dragOver ? "border-primary bg-primary/5" : "border-border hover:border-primary/50 hover:bg-secondary/50")}>
-      <input ref={fileRef} type="file" accept=".pdf,.docx,.txt" onChange={handleChange} className="hidden" />
-      {uploading ? (
-        <div className="flex flex-col items-center gap-2">
-          <FiLoader className="w-6 h-6 text-primary animate-spin" />
-          <p className="text-sm text-muted-foreground">{statusMsg || 'Processing...'}</p>
+      <input ref={fileRef} type="file" accept=".pdf,.docx,.txt,.epub" multiple onChange={(e) => handleChange(e, false)} className="hidden" />
+      <input ref={folderRef} type="file" onChange={(e) => handleChange(e, true)} className="hidden" />
+      <div className="flex flex-col items-center gap-2">
+        <FiUpload className="w-8 h-8 text-muted-foreground" />
+        <p className="text-sm font-medium text-foreground">Drop books or folders here, or click to upload</p>
+        <p className="text-xs text-muted-foreground">
+          Supports PDF, DOCX, TXT, EPUB -- with full content extraction.{' '}
+          <button onClick={(e) => { e.stopPropagation(); folderRef.current?.click() }} className="text-primary hover:underline">Choose a folder</button>
+        </p>
+      </div>
+    </div>
+  )
+}
+
+function UploadQueue({ tasks, onCancel, onRetry, onDismiss, onOpenBook }: {
+  tasks: UploadTask[]
+  onCancel: (id: string) => void
+  onRetry: (id: string, allowDuplicate?: boolean) => void
+  onDismiss: (ids: string[]) => void
+  onOpenBook: (bookId: string) => void
+}) {
+  const finished = tasks.filter(t => t.status === 'done' || t.status === 'failed' || t.status === 'duplicate' || t.status === 'cancelled')
+  const done = tasks.filter(t => t.status === 'done').length
+
+  return (
+    <Card className="bg-card">
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="font-serif font-semibold text-sm text-foreground">Uploads <span className="text-xs font-sans font-normal text-muted-foreground">{done} of {tasks.length} added</span></h3>
+          {finished.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onDismiss(finished.map(t => t.id))}>Clear finished</Button>
+          )}
         </div>
-      ) : (
-        <div className="flex flex-col items-center gap-2">
-          <FiUpload className="w-8 h-8 text-muted-foreground" />
-          <p className="text-sm font-medium text-foreground">Drop a book here or click to upload</p>
-          <p className="text-xs text-muted-foreground">Supports PDF, DOCX, TXT -- with full content extraction</p>
+        <div className="space-y-1.5 max-h-72 overflow-y-auto">
+          {tasks.map((task) => {
+            const running = task.status === 'checking' || task.status === 'processing'
+            const problem = task.status === 'failed' || task.status === 'duplicate'
+            return (
+              <div key={task.id} className="flex items-center gap-3 px-2 py-1.5 rounded-md border border-border">
+                <div className="w-4 flex-shrink-0 text-muted-foreground">
+                  {running ? <FiLoader className="w-3.5 h-3.5 animate-spin text-primary" />
+                    : task.status === 'done' ? <FiCheck className="w-3.5 h-3.5 text-primary" />
+                    : task.status === 'queued' ? <FiClock className="w-3.5 h-3.5" />
+                    : task.status === 'duplicate' ? <FiCopy className="w-3.5 h-3.5 text-destructive" />
+                    : <FiX className={cn("w-3.5 h-3.5", task.status === 'failed' && "text-destructive")} />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium text-foreground truncate">{task.file.name}</span>
+                    <span className="text-[10px] text-muted-foreground flex-shrink-0">{formatFileSize(task.file.size)}</span>
+                  </div>
+                  {task.status === 'processing' && <Progress value={task.progress} className="h-1 my-1" />}
+                  <p className={cn("text-[10px] truncate", problem ? "text-destructive" : "text-muted-foreground")} title={task.message}>{task.message}</p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {task.status === 'done' && task.bookId && (
+                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onOpenBook(task.bookId as string)}>Open</Button>
+                  )}
+                  {task.status === 'duplicate' && (
+                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onRetry(task.id, true)}>Add anyway</Button>
+                  )}
+                  {(task.status === 'failed' || task.status === 'cancelled') && isBookFile(task.file.name) && (
+                    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => onRetry(task.id)}>Retry</Button>
+                  )}
+                  {(task.status === 'queued' || task.status === 'checking' || (task.status === 'processing' && task.progress < UPLOAD_SAVING_PROGRESS)) ? (
+                    <button onClick={() => onCancel(task.id)} className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors" title="Cancel">
+                      <FiX className="w-3.5 h-3.5" />
+                    </button>
+                  ) : !running && (
+                    <button onClick={() => onDismiss([task.id])} className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors" title="Dismiss">
+                      <FiX className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            )
+          })}
         </div>
-      )}
-      {!uploading && statusMsg && (
-        <p className={cn("text-xs mt-2", statusMsg.toLowerCase().includes('error') || statusMsg.toLowerCase().includes('unsupported') ? "text-destructive" : "text-primary")}>{statusMsg}</p>
-      )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// ===== BOOK COVER =====
+// Loads the cover thumbnail from IndexedDB: the reader's own image, or the one made at upload time
+function useBookCover(book: Book): string | null {
+  const [cover, setCover] = useState<string | null>(null)
+
+  useEffect(() => {
+    const key = book.customCover ? book.id + '_cover_custom' : book.hasCover ? book.id + '_cover' : null
+    if (!key) {
+      setCover(null)
+      return
+    }
+    let cancelled = false
+    getFileData(key).then((data) => {
+      if (!cancelled) setCover(data)
+    }).catch(() => {
+      if (!cancelled) setCover(null)
+    })
+    return () => { cancelled = true }
+  }, [book.id, book.hasCover, book.customCover])
+
+  return cover
+}
+
+// A cover thumbnail made from the stored file, for books added before covers were generated
+async function generateCoverFromFile(book: Book): Promise<string | null> {
+  if (book.fileType === 'docx') {
+    const doc = new DOMParser().parseFromString(book.htmlContent, 'text/html')
+    return firstImageThumbnail(docxImageSources(doc))
+  }
+  if (book.fileType !== 'pdf') return null
+  const data = await getFileBinary(book.id)
+  if (!data) return null
+  const pdfjsLib = await loadPdfJs()
+  const pdf = await pdfjsLib.getDocument({ data }).promise
+  try {
+    return await renderPdfPageThumbnail(await pdf.getPage(1))
+  } finally {
+    pdf.destroy()
+  }
+}
+
+function coverStyle(book: Book, cover: string | null): React.CSSProperties {
+  return cover
+    ? { backgroundColor: book.coverColor, backgroundImage: `url(${cover})`, backgroundSize: 'cover', backgroundPosition: 'center' }
+    : { backgroundColor: book.coverColor }
+}
+
+// Title and author set on the cover color, for books without a cover image
+function TypographicCover({ book, compact, className }: { book: Book; compact?: boolean; className?: string }) {
+  if (compact) {
+    return <span className="font-serif font-semibold text-base text-white/90">{book.title.trim().charAt(0).toUpperCase() || '?'}</span>
+  }
+  return (
+    <div className={cn("flex flex-col items-center justify-center gap-1.5 w-full h-full text-center px-3", className)}>
+      <p className="font-serif font-semibold text-sm text-white leading-tight line-clamp-3">{book.title}</p>
+      <div className="w-6 h-px bg-white/50" />
+      <p className="text-[9px] uppercase tracking-wider text-white/75 line-clamp-1">{book.author}</p>
+    </div>
+  )
+}
+
+function BookListCover({ book }: { book: Book }) {
+  const cover = useBookCover(book)
+  return (
+    <div className="w-10 h-14 rounded flex-shrink-0 flex items-center justify-center" style={coverStyle(book, cover)}>
+      {!cover && <TypographicCover book={book} compact />}
     </div>
   )
 }
 
 // ===== BOOK CARD =====
-function BookCard({ book, onClick, onDelete }: {
+// Books are dragged from the library onto collections in the sidebar
+function startBookDrag(e: React.DragEvent, book: Book) {
+  e.dataTransfer.setData(BOOK_DRAG_TYPE, book.id)
+  e.dataTransfer.setData('text/plain', book.title)
+  e.dataTransfer.effectAllowed = 'copy'
+}
+
+function BookCard({ book, onClick, onEdit, onDelete, onRemoveFromShelf }: {
   book: Book
   onClick: () => void
+  onEdit: (e: React.MouseEvent) => void
   onDelete: (e: React.MouseEvent) => void
+  // Shown while the library is filtered to a collection
+  onRemoveFromShelf?: (e: React.MouseEvent) => void
 }) {
+  const cover = useBookCover(book)
   const fileTypeColor = FILE_TYPE_COLORS[book.fileType] ?? FILE_TYPE_COLORS.txt
   const pageCount = book.fileType === 'pdf' ? book.totalPdfPages : (Array.isArray(book.pages) ? book.pages.length : 0)
   const pagesFromContent = pageCount > 0 ? pageCount : Math.max(1, Math.ceil((book.content?.length ?? 0) / 3000))
 
   return (
-    <Card className="group cursor-pointer transition-all duration-300 hover:shadow-lg hover:-translate-y-1 overflow-hidden bg-card" onClick={onClick}>
-      <div className="h-36 flex items-end p-4 relative" style={{ backgroundColor: book.coverColor }}>
-        <div className="flex-1">
-          {book.fileType === 'pdf' ? (
-            <FiFile className="w-8 h-8 text-white/80 mb-2" />
-          ) : book.fileType === 'docx' ? (
-            <FiFileText className="w-8 h-8 text-white/80 mb-2" />
-          ) : (
-            <FiBookOpen className="w-8 h-8 text-white/80 mb-2" />
-          )}
-        </div>
+    <Card draggable onDragStart={(e) => startBookDrag(e, book)} className="group cursor-pointer transition-all duration-300 hover:shadow-lg hover:-translate-y-1 overflow-hidden bg-card" onClick={onClick}>
+      <div className="h-36 flex relative" style={coverStyle(book, cover)}>
+        {!cover && <TypographicCover book={book} className="pt-8 pb-4" />}
         <Badge className={cn("absolute top-2 left-2 text-[10px] font-semibold border", fileTypeColor)}>
           {book.fileType.toUpperCase()}
         </Badge>
-        <button onClick={onDelete} className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity p-1.5 rounded-md bg-black/20 hover:bg-black/40 text-white">
-          <FiTrash2 className="w-3.5 h-3.5" />
-        </button>
+        <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button onClick={onEdit} className="p-1.5 rounded-md bg-black/20 hover:bg-black/40 text-white" title="Edit details">
+            <FiEdit3 className="w-3.5 h-3.5" />
+          </button>
+          {onRemoveFromShelf && (
+            <button onClick={onRemoveFromShelf} className="p-1.5 rounded-md bg-black/20 hover:bg-black/40 text-white" title="Remove from collection">
+              <FiX className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button onClick={onDelete} className="p-1.5 rounded-md bg-black/20 hover:bg-black/40 text-white" title="Delete">
+            <FiTrash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
       </div>
       <CardContent className="p-4 space-y-2">
         <h3 className="font-serif font-semibold text-sm text-card-foreground line-clamp-2 leading-snug">{book.title}</h3>
         <p className="text-xs text-muted-foreground">{book.author}</p>
+        {book.series && <p className="text-[10px] text-muted-foreground/80 italic truncate">{seriesLabel(book)}</p>}
         <div className="flex items-center justify-between text-xs text-muted-foreground">
           <span className="flex items-center gap-1"><FiClock className="w-3 h-3" />{timeAgo(book.lastRead)}</span>
           <span>{book.progress}%</span>
@@ -823,22 +3002,447 @@ function BookCard({ book, onClick, onDelete }: {
   )
 }
 
-// ===== CHAT PANEL =====
-function ChatPanel({ open, onClose, chatMessages, onSend, loading }: {
-  open: boolean
-  onClose: () => void
-  chatMessages: ChatMessage[]
+// ===== BOOK DETAILS EDITOR =====
+function CoverPreview({ book, image }: { book: Book; image?: string }) {
+  const stored = useBookCover(book)
+  const cover = image ?? stored
+  return (
+    <div className="w-20 h-28 rounded-md shadow-sm overflow-hidden flex-shrink-0 flex" style={coverStyle(book, cover)}>
+      {!cover && <TypographicCover book={book} className="px-1.5" />}
+    </div>
+  )
+}
+
+function BookDetailsDialog({ book, onSave, onClose }: {
+  book: Book | null
+  // `cover` is a new cover image, null to go back to the book's own cover, or undefined when unchanged
+  onSave: (book: Book, cover?: string | null) => void
+  onClose: () => void
+}) {
+  const [title, setTitle] = useState(book?.title ?? '')
+  const [authors, setAuthors] = useState(book && book.author !== 'Unknown Author' ? book.author : '')
+  const [series, setSeries] = useState(book?.series ?? '')
+  const [seriesIndex, setSeriesIndex] = useState(book?.seriesIndex !== undefined ? String(book.seriesIndex) : '')
+  const [publisher, setPublisher] = useState(book?.publisher ?? '')
+  const [publishedDate, setPublishedDate] = useState(book?.publishedDate ?? '')
+  const [language, setLanguage] = useState(book?.language ?? '')
+  const [isbn, setIsbn] = useState(book?.isbn ?? '')
+  const [description, setDescription] = useState(book?.description ?? '')
+  const [tags, setTags] = useState<string[]>(book?.tags ?? [])
+  const [tagInput, setTagInput] = useState('')
+  const [coverDraft, setCoverDraft] = useState<string | null | undefined>(undefined)
+  const [coverError, setCoverError] = useState('')
+  const coverInputRef = useRef<HTMLInputElement>(null)
+
+  const pickCover = useCallback(async (file: File) => {
+    setCoverError('')
+    const url = URL.createObjectURL(file)
+    try {
+      const thumbnail = await imageToThumbnail(url)
+      if (thumbnail) setCoverDraft(thumbnail)
+    } catch {
+      setCoverError('This image could not be read')
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }, [])
+
+  const addTag = useCallback((raw: string) => {
+    const tag = normalizeTag(raw)
+    if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) setTags([...tags, tag])
+    setTagInput('')
+  }, [tags])
+
+  const isbnError = isbn.trim() && !normalizeIsbn(isbn) ? 'Not a valid ISBN-10 or ISBN-13' : ''
+  const dateError = publishedDate.trim() && !normalizeDate(publishedDate) ? 'Use yyyy, yyyy-mm or yyyy-mm-dd' : ''
+  const indexValue = Number(seriesIndex)
+  const indexError = seriesIndex.trim() && (isNaN(indexValue) || indexValue <= 0) ? 'A positive number' : ''
+  const invalid = !title.trim() || !!isbnError || !!dateError || !!indexError
+
+  const save = useCallback(() => {
+    if (!book || invalid) return
+    const pending = normalizeTag(tagInput)
+    const finalTags = pending && !tags.some(t => t.toLowerCase() === pending.toLowerCase()) ? [...tags, pending] : tags
+    onSave({
+      ...book,
+      title: title.trim(),
+      author: joinAuthors(splitAuthors(authors)) || 'Unknown Author',
+      series: series.trim() || undefined,
+      seriesIndex: series.trim() && seriesIndex.trim() ? indexValue : undefined,
+      publisher: publisher.trim() || undefined,
+      publishedDate: normalizeDate(publishedDate),
+      language: language.trim() || undefined,
+      isbn: normalizeIsbn(isbn),
+      description: description.trim() || undefined,
+      tags: finalTags,
+    }, coverDraft)
+    onClose()
+  }, [book, invalid, title, authors, series, seriesIndex, indexValue, publisher, publishedDate, language, isbn, description, tags, tagInput, coverDraft, onSave, onClose])
+
+  const hasCustomCover = typeof coverDraft === 'string' || (!!book?.customCover && coverDraft === undefined)
+
+  return (
+    <Dialog open={!!book} onOpenChange={(o) => { if (!o) onClose() }}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-base">Book Details</DialogTitle>
+          <DialogDescription className="text-xs">{book?.fileName}</DialogDescription>
+        </DialogHeader>
+        {book && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-4">
+              <CoverPreview
+                book={{ ...book, title: title || book.title, author: authors || book.author, customCover: coverDraft === null ? undefined : book.customCover }}
+                image={coverDraft ?? undefined}
+              />
+              <div className="space-y-2">
+                <Label className="text-xs font-medium block">Cover</Label>
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" size="sm" className="text-xs gap-1.5" onClick={() => coverInputRef.current?.click()}>
+                    <FiUpload className="w-3 h-3" /> Upload image
+                  </Button>
+                  {hasCustomCover && (
+                    <Button variant="ghost" size="sm" className="text-xs" onClick={() => setCoverDraft(book.customCover ? null : undefined)}>
+                      Use original
+                    </Button>
+                  )}
+                </div>
+                {coverError && <p className="text-[10px] text-destructive">{coverError}</p>}
+                <input
+                  ref={coverInputRef}
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) pickCover(file)
+                    e.target.value = ''
+                  }}
+                />
+              </div>
+            </div>
+            <div>
+              <Label className="text-xs font-medium mb-1.5 block">Title</Label>
+              <Input value={title} onChange={(e) => setTitle(e.target.value)} className="text-sm" autoFocus />
+            </div>
+            <div>
+              <Label className="text-xs font-medium mb-1.5 block">Authors</Label>
+              <Input value={authors} onChange={(e) => setAuthors(e.target.value)} placeholder="Unknown Author" className="text-sm" />
+              <p className="text-[10px] text-muted-foreground mt-1">Separate several authors with &amp; or ;</p>
+            </div>
+            <div className="grid grid-cols-[1fr_88px] gap-3">
+              <div>
+                <Label className="text-xs font-medium mb-1.5 block">Series</Label>
+                <Input value={series} onChange={(e) => setSeries(e.target.value)} className="text-sm" />
+              </div>
+              <div>
+                <Label className="text-xs font-medium mb-1.5 block">Number</Label>
+                <Input value={seriesIndex} onChange={(e) => setSeriesIndex(e.target.value)} inputMode="decimal" disabled={!series.trim()} className="text-sm" />
+              </div>
+            </div>
+            {indexError && <p className="text-[10px] text-destructive -mt-2">Series number: {indexError}</p>}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-xs font-medium mb-1.5 block">Publisher</Label>
+                <Input value={publisher} onChange={(e) => setPublisher(e.target.value)} className="text-sm" />
+              </div>
+              <div>
+                <Label className="text-xs font-medium mb-1.5 block">Published</Label>
+                <Input value={publishedDate} onChange={(e) => setPublishedDate(e.target.value)} placeholder="yyyy-mm-dd" className="text-sm" />
+                {dateError && <p className="text-[10px] text-destructive mt-1">{dateError}</p>}
+              </div>
+              <div>
+                <Label className="text-xs font-medium mb-1.5 block">Language</Label>
+                <Input value={language} onChange={(e) => setLanguage(e.target.value)} placeholder="en" className="text-sm" />
+              </div>
+              <div>
+                <Label className="text-xs font-medium mb-1.5 block">ISBN</Label>
+                <Input value={isbn} onChange={(e) => setIsbn(e.target.value)} className="text-sm" />
+                {isbnError && <p className="text-[10px] text-destructive mt-1">{isbnError}</p>}
+              </div>
+            </div>
+            <div>
+              <Label className="text-xs font-medium mb-1.5 block">Description</Label>
+              <Textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={4} className="text-sm" />
+            </div>
+            <div>
+              <Label className="text-xs font-medium mb-1.5 block">Tags</Label>
+              <div className="flex flex-wrap items-center gap-1.5">
+                {tags.map(tag => (
+                  <Badge key={tag} variant="secondary" className="text-[10px] gap-1 pr-1">
+                    {tag}
+                    <button onClick={() => setTags(tags.filter(t => t !== tag))} className="rounded hover:bg-background/60" title={`Remove ${tag}`}><FiX className="w-2.5 h-2.5" /></button>
+                  </Badge>
+                ))}
+                <Input
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ',') {
+                      e.preventDefault()
+                      addTag(tagInput)
+                    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+                      setTags(tags.slice(0, -1))
+                    }
+                  }}
+                  onBlur={() => addTag(tagInput)}
+                  placeholder={tags.length === 0 ? 'Add tags...' : ''}
+                  className="h-7 text-xs flex-1 min-w-[80px]"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+              <Button size="sm" onClick={save} disabled={invalid}>Save</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ===== SHELVES =====
+// Reading states every library has. They are smart shelves that can't be edited or deleted
+const BUILT_IN_SHELVES: Shelf[] = [
+  { id: 'shelf-reading', name: 'Reading', kind: 'smart', bookIds: [], rules: [{ field: 'progress', min: 1, max: 99 }], match: 'all', createdAt: '' },
+  { id: 'shelf-finished', name: 'Finished', kind: 'smart', bookIds: [], rules: [{ field: 'progress', min: 100, max: 100 }], match: 'all', createdAt: '' },
+  { id: 'shelf-unread', name: 'Unread', kind: 'smart', bookIds: [], rules: [{ field: 'progress', min: 0, max: 0 }], match: 'all', createdAt: '' },
+]
+
+const SHELF_RULE_FIELDS: { field: ShelfRule['field']; label: string }[] = [
+  { field: 'progress', label: 'Progress' },
+  { field: 'fileType', label: 'File type' },
+  { field: 'tag', label: 'Tag' },
+  { field: 'title', label: 'Title' },
+  { field: 'author', label: 'Author' },
+  { field: 'series', label: 'Series' },
+  { field: 'publisher', label: 'Publisher' },
+  { field: 'lastRead', label: 'Last opened' },
+  { field: 'uploadDate', label: 'Added' },
+]
+
+function isBuiltInShelf(shelf: Shelf): boolean {
+  return BUILT_IN_SHELVES.some(s => s.id === shelf.id)
+}
+
+function defaultShelfRule(field: ShelfRule['field']): ShelfRule {
+  switch (field) {
+    case 'progress': return { field, min: 1, max: 99 }
+    case 'fileType': return { field, fileType: 'pdf' }
+    case 'lastRead': return { field, within: false, days: 30 }
+    case 'uploadDate': return { field, within: true, days: 30 }
+    default: return { field, contains: '' }
+  }
+}
+
+function shelfRuleMatches(book: Book, rule: ShelfRule, now: number): boolean {
+  switch (rule.field) {
+    case 'progress': return book.progress >= rule.min && book.progress <= rule.max
+    case 'fileType': return book.fileType === rule.fileType
+    case 'tag': return (book.tags ?? []).some(t => t.toLowerCase().includes(rule.contains.trim().toLowerCase()))
+    case 'lastRead':
+    case 'uploadDate': {
+      const age = now - new Date(book[rule.field]).getTime()
+      const limit = rule.days * 24 * 60 * 60 * 1000
+      return rule.within ? age <= limit : age > limit
+    }
+    default: return (book[rule.field] ?? '').toLowerCase().includes(rule.contains.trim().toLowerCase())
+  }
+}
+
+// A smart shelf without rules holds every book
+function booksOnShelf(shelf: Shelf, books: Book[], now = Date.now()): Book[] {
+  if (shelf.kind === 'collection') {
+    const ids = new Set(shelf.bookIds)
+    return books.filter(b => ids.has(b.id))
+  }
+  if (shelf.rules.length === 0) return books
+  return books.filter(b => shelf.match === 'all'
+    ? shelf.rules.every(r => shelfRuleMatches(b, r, now))
+    : shelf.rules.some(r => shelfRuleMatches(b, r, now)))
+}
+
+function describeShelfRule(rule: ShelfRule): string {
+  switch (rule.field) {
+    case 'progress': return rule.min === rule.max ? `Progress is ${rule.min}%` : `Progress between ${rule.min}% and ${rule.max}%`
+    case 'fileType': return `File type is ${rule.fileType.toUpperCase()}`
+    case 'lastRead': return rule.within ? `Opened in the last ${rule.days} days` : `Not opened in ${rule.days} days`
+    case 'uploadDate': return rule.within ? `Added in the last ${rule.days} days` : `Added over ${rule.days} days ago`
+    default: return `${SHELF_RULE_FIELDS.find(f => f.field === rule.field)?.label} contains "${rule.contains.trim()}"`
+  }
+}
+
+function ShelfEditorDialog({ shelf, isNew, books, onSave, onDelete, onClose }: {
+  shelf: Shelf | null
+  isNew: boolean
+  books: Book[]
+  onSave: (shelf: Shelf) => void
+  onDelete: (id: string) => void
+  onClose: () => void
+}) {
+  const [name, setName] = useState(shelf?.name ?? '')
+  const [kind, setKind] = useState<Shelf['kind']>(shelf?.kind ?? 'collection')
+  const [rules, setRules] = useState<ShelfRule[]>(shelf?.rules ?? [])
+  const [match, setMatch] = useState<Shelf['match']>(shelf?.match ?? 'all')
+
+  const draft = useMemo<Shelf | null>(() => shelf && { ...shelf, name: name.trim(), kind, rules, match }, [shelf, name, kind, rules, match])
+  const matching = useMemo(() => draft ? booksOnShelf(draft, books).length : 0, [draft, books])
+
+  const updateRule = (index: number, rule: ShelfRule) => setRules(rules.map((r, i) => i === index ? rule : r))
+
+  const save = useCallback(() => {
+    if (!draft || !draft.name) return
+    onSave(draft)
+    onClose()
+  }, [draft, onSave, onClose])
+
+  const selectClass = "text-xs border border-border rounded-md px-2 py-1.5 bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring"
+
+  return (
+    <Dialog open={!!shelf} onOpenChange={(o) => { if (!o) onClose() }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-base">{isNew ? 'New Shelf' : 'Edit Shelf'}</DialogTitle>
+          <DialogDescription className="text-xs">
+            {kind === 'collection' ? 'Drag books from the library onto the shelf in the sidebar to add them.' : 'Books matching the rules appear on the shelf by themselves.'}
+          </DialogDescription>
+        </DialogHeader>
+        {shelf && (
+          <div className="space-y-4">
+            <div>
+              <Label className="text-xs font-medium mb-1.5 block">Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') save() }} placeholder={kind === 'collection' ? 'e.g. Work' : 'e.g. Stalled PDFs'} className="text-sm" autoFocus />
+            </div>
+            {isNew && (
+              <div className="flex border border-border rounded-md overflow-hidden w-fit">
+                <button onClick={() => setKind('collection')} className={cn("px-3 py-1.5 text-xs transition-colors", kind === 'collection' ? "bg-primary text-primary-foreground" : "bg-background text-muted-foreground hover:bg-secondary")}>Collection</button>
+                <button onClick={() => { setKind('smart'); if (rules.length === 0) setRules([defaultShelfRule('progress')]) }} className={cn("px-3 py-1.5 text-xs transition-colors", kind === 'smart' ? "bg-primary text-primary-foreground" : "bg-background text-muted-foreground hover:bg-secondary")}>Smart shelf</button>
+              </div>
+            )}
+            {kind === 'smart' && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>Books matching</span>
+                  <select value={match} onChange={(e) => setMatch(e.target.value as Shelf['match'])} className={selectClass}>
+                    <option value="all">all rules</option>
+                    <option value="any">any rule</option>
+                  </select>
+                </div>
+                {rules.map((rule, i) => (
+                  <div key={i} className="flex items-center gap-2 flex-wrap">
+                    <select value={rule.field} onChange={(e) => updateRule(i, defaultShelfRule(e.target.value as ShelfRule['field']))} className={selectClass}>
+                      {SHELF_RULE_FIELDS.map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+                    </select>
+                    {rule.field === 'progress' && (
+                      <>
+                        <span className="text-xs text-muted-foreground">between</span>
+                        <Input type="number" min={0} max={100} value={rule.min} onChange={(e) => updateRule(i, { ...rule, min: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })} className="h-8 w-16 text-xs" />
+                        <span className="text-xs text-muted-foreground">and</span>
+                        <Input type="number" min={0} max={100} value={rule.max} onChange={(e) => updateRule(i, { ...rule, max: Math.min(100, Math.max(0, Number(e.target.value) || 0)) })} className="h-8 w-16 text-xs" />
+                        <span className="text-xs text-muted-foreground">%</span>
+                      </>
+                    )}
+                    {rule.field === 'fileType' && (
+                      <>
+                        <span className="text-xs text-muted-foreground">is</span>
+                        <select value={rule.fileType} onChange={(e) => updateRule(i, { ...rule, fileType: e.target.value as Book['fileType'] })} className={selectClass}>
+                          {(['pdf', 'epub', 'docx', 'txt'] as const).map(t => <option key={t} value={t}>{t.toUpperCase()}</option>)}
+                        </select>
+                      </>
+                    )}
+                    {'contains' in rule && (
+                      <>
+                        <span className="text-xs text-muted-foreground">contains</span>
+                        <Input value={rule.contains} onChange={(e) => updateRule(i, { ...rule, contains: e.target.value })} className="h-8 flex-1 min-w-[100px] text-xs" />
+                      </>
+                    )}
+                    {'within' in rule && (
+                      <>
+                        <select value={rule.within ? 'within' : 'older'} onChange={(e) => updateRule(i, { ...rule, within: e.target.value === 'within' })} className={selectClass}>
+                          <option value="within">in the last</option>
+                          <option value="older">not in the last</option>
+                        </select>
+                        <Input type="number" min={1} value={rule.days} onChange={(e) => updateRule(i, { ...rule, days: Math.max(1, Number(e.target.value) || 1) })} className="h-8 w-16 text-xs" />
+                        <span className="text-xs text-muted-foreground">days</span>
+                      </>
+                    )}
+                    <button onClick={() => setRules(rules.filter((_, j) => j !== i))} className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors ml-auto" title="Remove rule">
+                      <FiX className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" className="text-xs gap-1.5" onClick={() => setRules([...rules, defaultShelfRule('tag')])}>
+                  <FiPlus className="w-3 h-3" /> Add rule
+                </Button>
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">{matching} {matching === 1 ? 'book' : 'books'} on this shelf</p>
+            <div className="flex items-center justify-between gap-2">
+              {!isNew ? (
+                <Button variant="ghost" size="sm" onClick={() => { onDelete(shelf.id); onClose() }} className="gap-1.5 text-xs text-destructive hover:text-destructive">
+                  <FiTrash2 className="w-3 h-3" /> Delete
+                </Button>
+              ) : <span />}
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+                <Button size="sm" onClick={save} disabled={!name.trim()}>{isNew ? 'Create' : 'Save'}</Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ===== CHAT PANEL =====
+function ChatPanel({ open, onClose, chatMessages, onSend, onStop, loading, streamingReply, book, books, threads, activeThreadId, onSelectThread, onNewThread, onRenameThread }: {
+  open: boolean
+  onClose: () => void
+  chatMessages: ChatMessage[]
   onSend: (msg: string) => void
+  onStop: () => void
   loading: boolean
+  streamingReply: StreamingReply | null
+  book: Book | null
+  books: Book[]
+  threads: ChatThread[]
+  activeThreadId: string | null
+  onSelectThread: (id: string) => void
+  onNewThread: () => void
+  onRenameThread: (id: string, title: string) => void
 }) {
   const [input, setInput] = useState('')
+  const [scope, setScope] = useState<'book' | 'all'>('book')
+  const [renaming, setRenaming] = useState(false)
+  const [renameValue, setRenameValue] = useState('')
   const scrollRef = useRef<HTMLDivElement>(null)
 
+  const visibleThreads = useMemo(() => {
+    const result = scope === 'all' || !book ? [...threads] : threads.filter(t => t.bookId === book.id)
+    return result.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }, [threads, scope, book])
+
+  const activeThread = threads.find(t => t.id === activeThreadId) ?? null
+
+  const visibleMessages = useMemo(() => {
+    if (!activeThreadId) return []
+    return chatMessages.filter(m => m.threadId === activeThreadId)
+  }, [chatMessages, activeThreadId])
+
+  const submitRename = useCallback(() => {
+    if (activeThread && renameValue.trim()) onRenameThread(activeThread.id, renameValue.trim())
+    setRenaming(false)
+  }, [activeThread, renameValue, onRenameThread])
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight
     }
-  }, [chatMessages, loading])
+  }, [visibleMessages, loading, streamingReply])
+
+  const visibleStreamingReply = streamingReply && streamingReply.threadId === activeThreadId ? streamingReply : null
 
   const handleSend = useCallback(() => {
     if (!input.trim() || loading) return
@@ -854,22 +3458,54 @@ function ChatPanel({ open, onClose, chatMessages, onSend, loading }: {
             <HiOutlineSparkles className="w-4 h-4 text-primary" />
             Book Assistant
           </SheetTitle>
-          <SheetDescription className="text-xs text-muted-foreground">Ask questions about your uploaded books</SheetDescription>
+          <SheetDescription className="text-xs text-muted-foreground">
+            {book ? <>Asking about <span className="font-medium text-foreground">{book.title}</span></> : 'Ask questions about your uploaded books'}
+          </SheetDescription>
+          {book && (
+            <div className="flex border border-border rounded-md overflow-hidden w-fit mt-1">
+              <button onClick={() => setScope('book')} className={cn("px-2.5 py-1 text-xs transition-colors", scope === 'book' ? "bg-primary text-primary-foreground" : "bg-background text-muted-foreground hover:bg-secondary")}>This book</button>
+              <button onClick={() => setScope('all')} className={cn("px-2.5 py-1 text-xs transition-colors", scope === 'all' ? "bg-primary text-primary-foreground" : "bg-background text-muted-foreground hover:bg-secondary")}>All books</button>
+            </div>
+          )}
+          <div className="flex items-center gap-1.5 pt-1">
+            {renaming && activeThread ? (
+              <Input value={renameValue} onChange={(e) => setRenameValue(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') submitRename(); if (e.key === 'Escape') setRenaming(false) }} onBlur={submitRename} className="h-7 flex-1 text-xs bg-background" autoFocus />
+            ) : (
+              <select value={activeThreadId ?? ''} onChange={(e) => onSelectThread(e.target.value)} disabled={visibleThreads.length === 0} className="flex-1 min-w-0 text-xs border border-border rounded-md px-2 py-1.5 bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring">
+                {!activeThread && <option value="">{NEW_THREAD_TITLE}</option>}
+                {activeThread && !visibleThreads.includes(activeThread) && <option value={activeThread.id}>{activeThread.title}</option>}
+                {visibleThreads.map(t => (
+                  <option key={t.id} value={t.id}>
+                    {t.title}{scope === 'all' && t.bookId ? ` -- ${books.find(b => b.id === t.bookId)?.title ?? 'Removed book'}` : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+            {renaming ? (
+              <button onMouseDown={(e) => e.preventDefault()} onClick={submitRename} className="p-1.5 rounded-md hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors" title="Save name"><FiCheck className="w-3.5 h-3.5" /></button>
+            ) : (
+              <button onClick={() => { setRenameValue(activeThread?.title ?? ''); setRenaming(true) }} disabled={!activeThread} className="p-1.5 rounded-md hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40" title="Rename conversation"><FiEdit3 className="w-3.5 h-3.5" /></button>
+            )}
+            <button onClick={onNewThread} disabled={loading} className="p-1.5 rounded-md hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors disabled:opacity-40" title="New conversation"><FiPlus className="w-3.5 h-3.5" /></button>
+          </div>
         </SheetHeader>
 
         <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-4">
-          {chatMessages.length === 0 && !loading && (
+          {visibleMessages.length === 0 && !loading && (
             <div className="flex flex-col items-center justify-center h-full text-center text-muted-foreground py-12">
               <FiMessageSquare className="w-10 h-10 mb-3 opacity-40" />
               <p className="text-sm font-medium">No messages yet</p>
-              <p className="text-xs mt-1">Ask about your uploaded books</p>
+              <p className="text-xs mt-1">{book && scope === 'book' ? `Ask about ${book.title}` : 'Ask about your uploaded books'}</p>
             </div>
           )}
 
-          {chatMessages.map((msg) => (
+          {visibleMessages.map((msg) => (
             <div key={msg.id} className={cn("flex", msg.role === 'user' ? "justify-end" : "justify-start")}>
               <div className={cn("max-w-[85%] rounded-lg px-3 py-2.5", msg.role === 'user' ? "bg-primary text-primary-foreground" : "bg-secondary text-secondary-foreground")}>
-                {msg.role === 'assistant' ? renderMarkdown(msg.content) : <p className="text-sm">{msg.content}</p>}
+                {msg.role === 'assistant' ? (msg.content ? renderMarkdown(msg.content) : <p className="text-sm italic text-muted-foreground">Stopped before an answer arrived</p>) : <p className="text-sm">{msg.content}</p>}
+                {msg.cancelled && (
+                  <p className="mt-1.5 flex items-center gap-1 text-[10px] uppercase tracking-wide text-muted-foreground"><FiSquare className="w-2.5 h-2.5" /> Stopped</p>
+                )}
 
                 {msg.role === 'assistant' && Array.isArray(msg.sources) && msg.sources.length > 0 && (
                   <Collapsible className="mt-2">
@@ -899,7 +3535,20 @@ function ChatPanel({ open, onClose, chatMessages, onSend, loading }: {
             </div>
           ))}
 
-          {loading && (
+          {visibleStreamingReply && (visibleStreamingReply.content || visibleStreamingReply.sources.length > 0) ? (
+            <div className="flex justify-start">
+              <div className="max-w-[85%] rounded-lg px-3 py-2.5 bg-secondary text-secondary-foreground">
+                {renderMarkdown(visibleStreamingReply.content)}
+                <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-muted-foreground/60 animate-pulse" />
+                {visibleStreamingReply.sources.length > 0 && (
+                  <p className="mt-2 flex items-center gap-1 text-xs text-muted-foreground">
+                    <FiFileText className="w-3 h-3" />
+                    {visibleStreamingReply.sources.length} source{visibleStreamingReply.sources.length > 1 ? 's' : ''}
+                  </p>
+                )}
+              </div>
+            </div>
+          ) : loading && (
             <div className="flex justify-start">
               <div className="bg-secondary rounded-lg px-4 py-3">
                 <div className="flex gap-1.5">
@@ -914,10 +3563,16 @@ function ChatPanel({ open, onClose, chatMessages, onSend, loading }: {
 
         <div className="p-3 border-t border-border">
           <div className="flex gap-2">
-            <Input value={input} onChange={(e) => setInput(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend() } }} placeholder="Ask about this book..." className="flex-1 text-sm bg-background" disabled={loading} />
-            <Button size="sm" onClick={handleSend} disabled={!input.trim() || loading} className="px-3">
-              <FiSend className="w-4 h-4" />
-            </Button>
+            <Input value={input} onChange={(e) => setInput(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend() } }} placeholder="Ask about this book..." className="flex-1 text-sm bg-background" />
+            {loading ? (
+              <Button size="sm" variant="outline" onClick={onStop} className="px-3" title="Stop generating">
+                <FiSquare className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button size="sm" onClick={handleSend} disabled={!input.trim()} className="px-3">
+                <FiSend className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         </div>
       </SheetContent>
@@ -926,49 +3581,149 @@ function ChatPanel({ open, onClose, chatMessages, onSend, loading }: {
 }
 
 // ===== LIBRARY SCREEN =====
-function LibraryScreen({ books, onSelectBook, onUpload, uploading, uploadStatus, onDeleteBook, sampleMode }: {
+function LibraryScreen({ books, shelf, onSelectShelf, onEditShelf, onRemoveFromShelf, onSelectBook, onOpenBookAt, onUpload, uploadTasks, onCancelUpload, onRetryUpload, onDismissUploads, onSaveBookDetails, onDeleteBook, sampleMode }: {
   books: Book[]
+  // The shelf the library is filtered to, or null for every book
+  shelf: Shelf | null
+  onSelectShelf: (id: string | null) => void
+  onEditShelf: (shelf: Shelf) => void
+  onRemoveFromShelf: (shelfId: string, bookId: string) => void
   onSelectBook: (book: Book) => void
-  onUpload: (file: File) => void
-  uploading: boolean
-  uploadStatus: string
+  onOpenBookAt: (bookId: string, pageIndex: number) => void
+  onUpload: (files: File[]) => void
+  uploadTasks: UploadTask[]
+  onCancelUpload: (id: string) => void
+  onRetryUpload: (id: string, allowDuplicate?: boolean) => void
+  onDismissUploads: (ids: string[]) => void
+  onSaveBookDetails: (book: Book, cover?: string | null) => void
   onDeleteBook: (id: string) => void
   sampleMode: boolean
 }) {
   const [searchQuery, setSearchQuery] = useState('')
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
-  const [sortBy, setSortBy] = useState<'recent' | 'title' | 'author' | 'progress'>('recent')
+  const [sortBy, setSortBy] = useState<'recent' | 'title' | 'author' | 'series' | 'published' | 'progress'>('recent')
   const [showUpload, setShowUpload] = useState(false)
+  const [editingBook, setEditingBook] = useState<Book | null>(null)
+  const [textResults, setTextResults] = useState<{ book: Book; pages: { pageIndex: number; snippet: string }[]; total: number }[]>([])
+  const [textSearching, setTextSearching] = useState(false)
+  const pageTextCache = useRef<Map<string, string[]>>(new Map())
+
+  const shelfBooks = useMemo(() => shelf ? booksOnShelf(shelf, books) : books, [shelf, books])
+
+  // Full-text matches from the library search index, grouped by book
+  useEffect(() => {
+    const query = searchQuery.trim()
+    if (tokenizeForIndex(query).length === 0) {
+      setTextResults([])
+      setTextSearching(false)
+      return
+    }
+
+    let cancelled = false
+    setTextSearching(true)
+    const timer = setTimeout(async () => {
+      try {
+        const matches = sampleMode ? await searchBookTexts(shelfBooks, query) : await searchLibraryIndex(query)
+        const grouped = []
+        for (const match of matches.slice(0, 20)) {
+          const book = shelfBooks.find(b => b.id === match.bookId)
+          if (!book) continue
+          let pageTexts = pageTextCache.current.get(book.id)
+          if (!pageTexts) {
+            pageTexts = await loadBookPageTexts(book)
+            pageTextCache.current.set(book.id, pageTexts)
+          }
+          grouped.push({
+            book,
+            pages: match.pages.slice(0, 3).map(pageIndex => ({ pageIndex, snippet: buildSearchSnippet(pageTexts[pageIndex] ?? '', query) })),
+            total: match.pages.length,
+          })
+        }
+        if (!cancelled) setTextResults(grouped)
+      } catch {
+        if (!cancelled) setTextResults([])
+      } finally {
+        if (!cancelled) setTextSearching(false)
+      }
+    }, 250)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchQuery, shelfBooks, sampleMode])
 
   const filteredBooks = useMemo(() => {
-    let result = [...books]
+    let result = [...shelfBooks]
     if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase()
-      result = result.filter(b => b.title.toLowerCase().includes(q) || b.author.toLowerCase().includes(q))
+      const q = searchQuery.toLowerCase().trim()
+      const isbnQuery = q.replace(/[\s-]/g, '')
+      result = result.filter(b =>
+        [b.title, b.author, b.series, b.publisher, b.description, ...b.tags ?? []].some(field => field?.toLowerCase().includes(q)) ||
+        (/^\d{4,}x?$/.test(isbnQuery) && !!b.isbn?.toLowerCase().includes(isbnQuery))
+      )
     }
+    const byTitle = (a: Book, b: Book) => titleSortKey(a.title).localeCompare(titleSortKey(b.title))
     switch (sortBy) {
-      case 'title': result.sort((a, b) => a.title.localeCompare(b.title)); break
-      case 'author': result.sort((a, b) => a.author.localeCompare(b.author)); break
+      case 'title': result.sort(byTitle); break
+      case 'author': result.sort((a, b) => authorSortKey(a.author).localeCompare(authorSortKey(b.author)) || byTitle(a, b)); break
+      // Books in a series together, in reading order; the rest after them by title
+      case 'series': result.sort((a, b) =>
+        Number(!a.series) - Number(!b.series) ||
+        titleSortKey(a.series ?? '').localeCompare(titleSortKey(b.series ?? '')) ||
+        (a.seriesIndex ?? Infinity) - (b.seriesIndex ?? Infinity) ||
+        byTitle(a, b)
+      ); break
+      // Newest first, undated books last
+      case 'published': result.sort((a, b) => (b.publishedDate ?? '').localeCompare(a.publishedDate ?? '') || byTitle(a, b)); break
       case 'progress': result.sort((a, b) => b.progress - a.progress); break
       case 'recent': default: result.sort((a, b) => new Date(b.lastRead).getTime() - new Date(a.lastRead).getTime()); break
     }
     return result
-  }, [books, searchQuery, sortBy])
+  }, [shelfBooks, searchQuery, sortBy])
+
+  const removeFromShelf = shelf?.kind === 'collection'
+    ? (book: Book) => (e: React.MouseEvent) => { e.stopPropagation(); onRemoveFromShelf(shelf.id, book.id) }
+    : undefined
 
   return (
     <ScrollArea className="flex-1">
       <div className="max-w-6xl mx-auto p-6 space-y-6">
+        {/* Shelf */}
+        {shelf && (
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <h2 className="font-serif font-semibold text-lg text-foreground truncate">{shelf.name}</h2>
+                <Badge variant="outline" className="text-[10px] flex-shrink-0">{shelfBooks.length} {shelfBooks.length === 1 ? 'book' : 'books'}</Badge>
+              </div>
+              {shelf.kind === 'smart' && shelf.rules.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-0.5">{shelf.rules.map(describeShelfRule).join(shelf.match === 'all' ? ' and ' : ' or ')}</p>
+              )}
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              {!isBuiltInShelf(shelf) && (
+                <Button variant="outline" size="sm" className="gap-1.5 text-xs" onClick={() => onEditShelf(shelf)}>
+                  <FiEdit3 className="w-3 h-3" /> Edit Shelf
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" className="text-xs" onClick={() => onSelectShelf(null)}>All Books</Button>
+            </div>
+          </div>
+        )}
+
         {/* Controls */}
         <div className="flex items-center justify-between gap-4 flex-wrap">
           <div className="flex-1 min-w-[200px] max-w-md relative">
             <FiSearch className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-            <Input value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} placeholder="Search books..." className="pl-9 bg-background" />
+            <Input value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} placeholder="Search titles, authors, series, tags and book text..." className="pl-9 bg-background" />
           </div>
           <div className="flex items-center gap-2">
             <select value={sortBy} onChange={(e) => setSortBy(e.target.value as typeof sortBy)} className="text-xs border border-border rounded-md px-2 py-1.5 bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring">
               <option value="recent">Recently Read</option>
               <option value="title">By Title</option>
               <option value="author">By Author</option>
+              <option value="series">By Series</option>
+              <option value="published">By Publication Date</option>
               <option value="progress">By Progress</option>
             </select>
             <div className="flex border border-border rounded-md overflow-hidden">
@@ -984,11 +3739,65 @@ function LibraryScreen({ books, onSelectBook, onUpload, uploading, uploadStatus,
 
         {/* Upload zone */}
         {showUpload && (
-          <UploadDropzone onUpload={onUpload} uploading={uploading} statusMsg={uploadStatus} />
+          <UploadDropzone onUpload={onUpload} />
+        )}
+        {uploadTasks.length > 0 && (
+          <UploadQueue
+            tasks={uploadTasks}
+            onCancel={onCancelUpload}
+            onRetry={onRetryUpload}
+            onDismiss={onDismissUploads}
+            onOpenBook={(bookId) => {
+              const book = books.find(b => b.id === bookId)
+              if (book) onSelectBook(book)
+            }}
+          />
+        )}
+
+        {/* Full-text matches */}
+        {searchQuery.trim() && (textSearching || textResults.length > 0) && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h3 className="font-serif font-semibold text-sm text-foreground">In book text</h3>
+              {textSearching && <FiLoader className="w-3.5 h-3.5 animate-spin text-muted-foreground" />}
+            </div>
+            {textResults.map(({ book, pages, total }) => (
+              <Card key={book.id} className="bg-card">
+                <CardContent className="p-3 flex gap-3">
+                  <BookListCover book={book} />
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => onSelectBook(book)} className="font-serif font-semibold text-sm text-card-foreground truncate hover:text-primary transition-colors">{book.title}</button>
+                      <span className="text-[10px] text-muted-foreground flex-shrink-0">{total} {book.fileType === 'pdf' ? 'page' : 'section'}{total === 1 ? '' : 's'}</span>
+                    </div>
+                    {pages.map(({ pageIndex, snippet }) => (
+                      <button key={pageIndex} onClick={() => onOpenBookAt(book.id, pageIndex)} className="w-full text-left px-2 py-1 rounded hover:bg-secondary transition-colors">
+                        <span className="text-[10px] font-medium text-primary mr-2">{book.fileType === 'pdf' ? 'Page' : 'Section'} {getPageLabel(book, pageIndex)}</span>
+                        <span className="text-xs text-muted-foreground">{snippet}</span>
+                      </button>
+                    ))}
+                    {total > pages.length && (
+                      <p className="px-2 text-[10px] text-muted-foreground">and {total - pages.length} more</p>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
         )}
 
         {/* Book grid / list */}
-        {filteredBooks.length === 0 ? (
+        {filteredBooks.length === 0 && !(searchQuery.trim() && textResults.length > 0) && shelf && !searchQuery && books.length > 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-center">
+            <div className="w-20 h-24 rounded-lg border-2 border-dashed border-border flex items-center justify-center mb-4">
+              <FiFolder className="w-8 h-8 text-muted-foreground/50" />
+            </div>
+            <h3 className="font-serif font-semibold text-lg text-foreground mb-1">Nothing on this shelf yet</h3>
+            <p className="text-sm text-muted-foreground max-w-xs">
+              {shelf.kind === 'collection' ? `Drag books from All Books onto "${shelf.name}" in the sidebar to add them.` : 'No books match this shelf\'s rules right now.'}
+            </p>
+          </div>
+        ) : filteredBooks.length === 0 && !(searchQuery.trim() && textResults.length > 0) ? (
           <div className="flex flex-col items-center justify-center py-20 text-center">
             <div className="w-20 h-24 rounded-lg border-2 border-dashed border-border flex items-center justify-center mb-4">
               <FiBook className="w-8 h-8 text-muted-foreground/50" />
@@ -997,7 +3806,7 @@ function LibraryScreen({ books, onSelectBook, onUpload, uploading, uploadStatus,
               {searchQuery ? 'No books found' : 'Upload your first book'}
             </h3>
             <p className="text-sm text-muted-foreground max-w-xs">
-              {searchQuery ? 'Try a different search term' : 'Start building your personal library by uploading a PDF, DOCX, or TXT file. PDFs and DOCX files are fully parsed with real content extraction.'}
+              {searchQuery ? 'Try a different search term' : 'Start building your personal library by uploading a PDF, DOCX, TXT, or EPUB file. PDFs, DOCX and EPUB files are fully parsed with real content extraction.'}
             </p>
             {!searchQuery && !showUpload && (
               <Button onClick={() => setShowUpload(true)} className="mt-4 gap-1.5" size="sm">
@@ -1009,7 +3818,7 @@ function LibraryScreen({ books, onSelectBook, onUpload, uploading, uploadStatus,
         ) : viewMode === 'grid' ? (
           <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
             {filteredBooks.map((book) => (
-              <BookCard key={book.id} book={book} onClick={() => onSelectBook(book)} onDelete={(e) => { e.stopPropagation(); onDeleteBook(book.id) }} />
+              <BookCard key={book.id} book={book} onClick={() => onSelectBook(book)} onEdit={(e) => { e.stopPropagation(); setEditingBook(book) }} onDelete={(e) => { e.stopPropagation(); onDeleteBook(book.id) }} onRemoveFromShelf={removeFromShelf?.(book)} />
             ))}
           </div>
         ) : (
@@ -1017,17 +3826,18 @@ function LibraryScreen({ books, onSelectBook, onUpload, uploading, uploadStatus,
             {filteredBooks.map((book) => {
               const fileTypeColor = FILE_TYPE_COLORS[book.fileType] ?? FILE_TYPE_COLORS.txt
               return (
-                <Card key={book.id} className="cursor-pointer hover:shadow-md transition-all duration-200 bg-card" onClick={() => onSelectBook(book)}>
+                <Card key={book.id} draggable onDragStart={(e) => startBookDrag(e, book)} className="cursor-pointer hover:shadow-md transition-all duration-200 bg-card" onClick={() => onSelectBook(book)}>
                   <CardContent className="p-3 flex items-center gap-4">
-                    <div className="w-10 h-14 rounded flex-shrink-0 flex items-center justify-center" style={{ backgroundColor: book.coverColor }}>
-                      {book.fileType === 'pdf' ? <FiFile className="w-4 h-4 text-white/80" /> : <FiBookOpen className="w-4 h-4 text-white/80" />}
-                    </div>
+                    <BookListCover book={book} />
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2">
                         <h3 className="font-serif font-semibold text-sm text-card-foreground truncate">{book.title}</h3>
                         <Badge className={cn("text-[9px] font-semibold border flex-shrink-0", fileTypeColor)}>{book.fileType.toUpperCase()}</Badge>
                       </div>
-                      <p className="text-xs text-muted-foreground">{book.author}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {book.author}
+                        {book.series && <span className="italic text-muted-foreground/80"> · {seriesLabel(book)}</span>}
+                      </p>
                     </div>
                     <div className="flex items-center gap-4 flex-shrink-0">
                       <span className="text-[10px] text-muted-foreground hidden lg:inline">{formatFileSize(book.fileSize)}</span>
@@ -1036,6 +3846,14 @@ function LibraryScreen({ books, onSelectBook, onUpload, uploading, uploadStatus,
                         <Progress value={book.progress} className="h-1" />
                       </div>
                       <span className="text-xs text-muted-foreground w-8 text-right">{book.progress}%</span>
+                      <button onClick={(e) => { e.stopPropagation(); setEditingBook(book) }} className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors" title="Edit details">
+                        <FiEdit3 className="w-3.5 h-3.5" />
+                      </button>
+                      {removeFromShelf && (
+                        <button onClick={removeFromShelf(book)} className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors" title="Remove from collection">
+                          <FiX className="w-3.5 h-3.5" />
+                        </button>
+                      )}
                       <button onClick={(e) => { e.stopPropagation(); onDeleteBook(book.id) }} className="p-1 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors">
                         <FiTrash2 className="w-3.5 h-3.5" />
                       </button>
@@ -1057,7 +3875,7 @@ function LibraryScreen({ books, onSelectBook, onUpload, uploading, uploadStatus,
               </div>
               <div className="flex-1 min-w-0">
                 <p className="text-xs font-medium text-foreground">Book Chat Agent</p>
-                <p className="text-xs text-muted-foreground truncate">AI-powered Q&A about your uploaded books -- PDF, DOCX, TXT fully supported</p>
+                <p className="text-xs text-muted-foreground truncate">AI-powered Q&A about your uploaded books -- PDF, DOCX, TXT, EPUB fully supported</p>
               </div>
               <Badge variant="outline" className="text-xs flex-shrink-0">
                 {sampleMode ? 'Sample Mode' : 'Ready'}
@@ -1066,81 +3884,260 @@ function LibraryScreen({ books, onSelectBook, onUpload, uploading, uploadStatus,
           </Card>
         </div>
       </div>
+
+      <BookDetailsDialog key={editingBook?.id ?? 'none'} book={editingBook} onSave={onSaveBookDetails} onClose={() => setEditingBook(null)} />
     </ScrollArea>
   )
 }
 
 // ===== READER SCREEN =====
-function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, chatOpen, onToggleChat, onBack }: {
+// Where a new highlight is anchored, captured from the selection before it is cleared
+type HighlightTarget = Pick<Highlight, 'pageIndex' | 'anchor' | 'rects' | 'quote'>
+
+// A highlight as last painted, for finding the one under a click
+interface PaintedHighlight {
+  highlight: Highlight
+  root: HTMLElement
+  range: Range
+  // Fresh anchor in the text it was found in
+  anchor?: TextAnchor
+}
+
+function ReaderScreen({ book, books, onUpdateBook, pendingBookmark, onPendingBookmarkShown, highlights, palette, onAddHighlight, onEditHighlights, onDeleteHighlight, chatOpen, onToggleChat, onBack }: {
   book: Book | null
   books: Book[]
   onUpdateBook: (book: Book) => void
+  // A bookmark opened from elsewhere, whose spot on the page still has to be scrolled to
+  pendingBookmark: Bookmark | null
+  onPendingBookmarkShown: () => void
   highlights: Highlight[]
+  palette: HighlightColor[]
   onAddHighlight: (h: Highlight) => void
+  onEditHighlights: (changed: Highlight[], removedIds: string[]) => void
+  onDeleteHighlight: (id: string) => void
   chatOpen: boolean
   onToggleChat: () => void
   onBack: () => void
 }) {
   const [showTOC, setShowTOC] = useState(false)
+  // Outline entries the reader has folded away, keyed by their position in the tree
+  const [collapsedChapters, setCollapsedChapters] = useState<Set<string>>(() => new Set())
   const [showSettings, setShowSettings] = useState(false)
   const [fontSize, setFontSize] = useState(16)
   const [lineHeight, setLineHeight] = useState(1.8)
   const [fontFamily, setFontFamily] = useState<'serif' | 'sans'>('serif')
   const [readingMode, setReadingMode] = useState<'light' | 'sepia'>('sepia')
   const [showToolbar, setShowToolbar] = useState(true)
-  const [selectionPopover, setSelectionPopover] = useState<{ text: string; x: number; y: number } | null>(null)
-  const [annotationDialog, setAnnotationDialog] = useState<{ text: string; color: 'yellow' | 'green' | 'blue' | 'pink' } | null>(null)
+  const [selectionPopover, setSelectionPopover] = useState<{ text: string; x: number; y: number; target: HighlightTarget } | null>(null)
+  const [editingHighlight, setEditingHighlight] = useState<Highlight | null>(null)
+  const [editingBookmark, setEditingBookmark] = useState<Bookmark | null>(null)
+  // Where a PDF page or EPUB section should be scrolled to once it has rendered
+  const [scrollTarget, setScrollTarget] = useState<{ pageIndex: number; scroll: number } | null>(null)
+  const paintedHighlights = useRef<PaintedHighlight[]>([])
+  const [annotationDialog, setAnnotationDialog] = useState<{ text: string; color: string; target: HighlightTarget } | null>(null)
   const [annotationNote, setAnnotationNote] = useState('')
   const [searchOpen, setSearchOpen] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
+  const [searchOptions, setSearchOptions] = useState<BookSearchOptions>({ caseSensitive: false, wholeWord: false, regex: false })
+  const [activeHitIndex, setActiveHitIndex] = useState(-1)
+  const [fullPageTexts, setFullPageTexts] = useState<{ bookId: string; pages: string[] } | null>(null)
   const [pdfZoom, setPdfZoom] = useState(1.2)
-  const [pdfData, setPdfData] = useState<string | null>(null)
-  const [pdfLoading, setPdfLoading] = useState(false)
+  const [pdfLayout, setPdfLayout] = useState<'single' | 'continuous' | 'spread'>('single')
+  const [spreadCoverAlone, setSpreadCoverAlone] = useState(true)
+  const [pdfReflow, setPdfReflow] = useState(false)
+  const [reflowText, setReflowText] = useState<{ bookId: string; pageIndex: number; text: string } | null>(null)
+  const [pdfStatus, setPdfStatus] = useState<'idle' | 'loading' | 'ready' | 'missing'>('idle')
+  const [epubHtml, setEpubHtml] = useState<string | null>(null)
+  const [epubLoading, setEpubLoading] = useState(false)
   const [pageInput, setPageInput] = useState('')
+  const [layout, setLayout] = useState<{ bookId: string; key: string; pages: LayoutPage[] } | null>(null)
+  const [viewportSize, setViewportSize] = useState('')
   const toolbarTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
   const contentAreaRef = useRef<HTMLDivElement>(null)
+  const measureRef = useRef<HTMLDivElement>(null)
+  const pageBodyRef = useRef<HTMLDivElement>(null)
+  const scrolledHitRef = useRef<string | null>(null)
 
-  // Compute pages for text/docx (from book.pages or fallback)
-  const textPages = useMemo(() => {
-    if (!book) return ['']
-    if (book.fileType === 'pdf') return []
-    if (Array.isArray(book.pages) && book.pages.length > 0) return book.pages
-    return getTextPages(book.content)
-  }, [book])
+  // Load the per-page text from the pages store (PDF page text never lives on the Book)
+  const openBookId = book?.id
+  useEffect(() => {
+    if (!openBookId || openBookId.startsWith('sample-')) {
+      setFullPageTexts(null)
+      return
+    }
+
+    let cancelled = false
+    const bookId = openBookId
+    getPageTexts(bookId).then((pages) => {
+      if (!cancelled) setFullPageTexts(pages ? { bookId, pages } : null)
+    }).catch(() => {
+      if (!cancelled) setFullPageTexts(null)
+    })
+    return () => { cancelled = true }
+  }, [openBookId])
+
+  const storedPageTexts = book && fullPageTexts?.bookId === book.id ? fullPageTexts.pages : null
 
   const isPdf = book?.fileType === 'pdf'
   const isDocx = book?.fileType === 'docx'
-  const currentPage = book?.currentPage ?? 0
+  const isEpub = book?.fileType === 'epub'
+  // TXT and DOCX are cut into pages that fit the viewport at the current typography
+  const usesLayout = book?.fileType === 'txt' || book?.fileType === 'docx'
+  const bookFileType = book?.fileType
+  const bookPages = book?.pages
+  const bookContent = book?.content
+  const bookHtml = book?.htmlContent
+
+  // Stored sections of text books (from book.pages or fallback)
+  const sectionTexts = useMemo(() => {
+    if (!bookFileType) return ['']
+    if (bookFileType === 'pdf') return []
+    if (storedPageTexts && storedPageTexts.length > (Array.isArray(bookPages) ? bookPages.length : 0)) return storedPageTexts
+    if (Array.isArray(bookPages) && bookPages.length > 0) return bookPages
+    return getTextPages(bookContent ?? '')
+  }, [bookFileType, bookPages, bookContent, storedPageTexts])
+
+  // The text a laid-out book's pages are cut from, and where each block (line or HTML element) starts in it
+  const htmlBlocks = useMemo(() => bookFileType === 'docx' && bookHtml ? splitHtmlBlocks(bookHtml) : null, [bookFileType, bookHtml])
+  const flow = useMemo(() => {
+    if (!usesLayout) return null
+    if (htmlBlocks) return { text: htmlBlocks.text, blockStarts: htmlBlocks.starts }
+    // `content` of books stored before full-text storage may be cut short; the sections are not
+    const stored = sectionTexts.join('\n\n')
+    const text = (bookContent ?? '').length >= stored.length ? (bookContent ?? '') : stored
+    const blockStarts: number[] = []
+    let offset = 0
+    for (const line of text.split('\n')) {
+      blockStarts.push(offset)
+      offset += line.length + 1
+    }
+    return { text, blockStarts }
+  }, [usesLayout, htmlBlocks, sectionTexts, bookContent])
+  const sectionOffsets = useMemo(() => flow ? getSectionOffsets(sectionTexts, flow.text) : [], [flow, sectionTexts])
+
+  const layoutKey = flow && viewportSize ? [book?.id, viewportSize, fontSize, lineHeight, fontFamily, flow.text.length].join(':') : ''
+  // A stale layout of the same book stays on screen while the new one is measured
+  const layoutPages = usesLayout && layout && layout.bookId === book?.id ? layout.pages : null
+  const needsLayout = !!layoutKey && layout?.key !== layoutKey
+  const readingOffset = book?.readingOffset ?? sectionOffsets[book?.currentPage ?? 0] ?? 0
+
+  // PDF/EPUB pages are the stored sections; TXT/DOCX pages come from the layout
+  const textPages = useMemo(() => {
+    if (!usesLayout) return sectionTexts
+    if (!layoutPages || !flow) return []
+    return layoutPages.map(page => htmlBlocks
+      ? htmlBlocks.blocks.slice(page.firstBlock, page.lastBlock).map(b => b.text).join('\n')
+      : flow.text.slice(page.start, page.end))
+  }, [usesLayout, sectionTexts, layoutPages, flow, htmlBlocks])
+
+  const searchPageTexts = useMemo(() => {
+    if (!book) return []
+    if (book.fileType !== 'pdf') return textPages
+    return storedPageTexts ?? getPdfPageTexts(book.content, Math.max(book.totalPdfPages, 1))
+  }, [book, textPages, storedPageTexts])
+
+  const currentPage = usesLayout ? (layoutPages ? pageIndexForOffset(layoutPages, readingOffset) : 0) : (book?.currentPage ?? 0)
+  // Bookmarks and highlights of laid-out books refer to stored sections, which don't move on repagination
+  const currentSection = usesLayout ? (book?.currentPage ?? 0) : currentPage
   const totalPages = isPdf ? (book?.totalPdfPages ?? 0) : textPages.length
 
-  // Load PDF data from IndexedDB
+  useEffect(() => {
+    const area = contentAreaRef.current
+    if (!area || !usesLayout) return
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const observer = new ResizeObserver(() => {
+      clearTimeout(timer)
+      timer = setTimeout(() => setViewportSize(`${area.clientWidth}x${area.clientHeight}`), 150)
+    })
+    observer.observe(area)
+    return () => {
+      observer.disconnect()
+      clearTimeout(timer)
+    }
+  }, [usesLayout])
+
+  // The whole text is rendered into the hidden measuring element while a layout is needed
+  useEffect(() => {
+    const area = contentAreaRef.current
+    const measure = measureRef.current
+    const body = pageBodyRef.current
+    if (!needsLayout || !flow || !book || !area || !measure || !body) return
+    const bodyTop = body.getBoundingClientRect().top - area.getBoundingClientRect().top + area.scrollTop
+    // py-12 below the page body
+    const pageHeight = Math.max(120, area.clientHeight - bodyTop - 48)
+    const pages = paginateBlocks(measure, flow.blockStarts, flow.text.length, pageHeight, !htmlBlocks)
+    setLayout({ bookId: book.id, key: layoutKey, pages })
+  }, [needsLayout, layoutKey, flow, htmlBlocks, book])
+
+  // Open the PDF once for this reading session; pages render from the shared document cache
   useEffect(() => {
     if (!book || book.fileType !== 'pdf') {
-      setPdfData(null)
+      setPdfStatus('idle')
       return
     }
 
     // Check if it's a sample book (no real PDF data)
     if (book.id.startsWith('sample-')) {
-      setPdfData(null)
+      setPdfStatus('idle')
+      return
+    }
+
+    let cancelled = false
+    setPdfStatus('loading')
+    getPdfDocument(book.id).then(() => {
+      if (!cancelled) setPdfStatus('ready')
+    }).catch(() => {
+      if (!cancelled) setPdfStatus('missing')
+    })
+    return () => { cancelled = true }
+  }, [book?.id, book?.fileType])
+
+  const pdfBookId = isPdf && book && !book.id.startsWith('sample-') ? book.id : null
+  useEffect(() => {
+    if (!pdfBookId) return
+    return () => releasePdfDocument(pdfBookId)
+  }, [pdfBookId])
+
+  // Reflow view: rebuild the current page's paragraphs, falling back to the text extracted at upload
+  useEffect(() => {
+    if (!pdfReflow || !pdfBookId || pdfStatus !== 'ready') return
+    let cancelled = false
+    getReflowedPdfPage(pdfBookId, currentPage, totalPages).then((text) => {
+      if (!cancelled) setReflowText({ bookId: pdfBookId, pageIndex: currentPage, text })
+    }).catch(() => {
+      // PDFs have no sections, so the fallback is the page text saved at upload
+      const pageTexts = storedPageTexts ?? getPdfPageTexts(bookContent ?? '', Math.max(totalPages, 1))
+      if (!cancelled) setReflowText({ bookId: pdfBookId, pageIndex: currentPage, text: pageTexts[currentPage] ?? '' })
+    })
+    return () => { cancelled = true }
+  }, [pdfReflow, pdfBookId, pdfStatus, currentPage, totalPages, storedPageTexts, bookContent])
+
+  // Load full EPUB XHTML from IndexedDB (book.htmlContent may have been dropped for size)
+  const epubBookId = book?.fileType === 'epub' ? book.id : null
+  const bookHtmlContent = book?.htmlContent
+  useEffect(() => {
+    if (!epubBookId) {
+      setEpubHtml(null)
       return
     }
 
     let cancelled = false
-    setPdfLoading(true)
-    getFileData(book.id).then((data) => {
+    setEpubLoading(true)
+    getFileData(epubBookId + '_html').then((data) => {
       if (!cancelled) {
-        setPdfData(data)
-        setPdfLoading(false)
+        setEpubHtml(data ?? bookHtmlContent ?? '')
+        setEpubLoading(false)
       }
     }).catch(() => {
       if (!cancelled) {
-        setPdfData(null)
-        setPdfLoading(false)
+        setEpubHtml(bookHtmlContent ?? '')
+        setEpubLoading(false)
       }
     })
     return () => { cancelled = true }
-  }, [book?.id, book?.fileType])
+  }, [epubBookId, bookHtmlContent])
+
+  const epubSections = useMemo(() => splitEpubSections(epubHtml ?? ''), [epubHtml])
 
   // Toolbar auto-hide
   useEffect(() => {
@@ -1160,55 +4157,296 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
     }
   }, [])
 
+  // Moves a laid-out book to a character offset; the page on screen follows from the layout
+  const goToOffset = useCallback((offset: number) => {
+    if (!book || !flow) return
+    const clamped = Math.max(0, Math.min(offset, flow.text.length))
+    const onLastPage = !!layoutPages && pageIndexForOffset(layoutPages, clamped) === layoutPages.length - 1
+    const progress = onLastPage || flow.text.length === 0 ? 100 : Math.round((clamped / flow.text.length) * 100)
+    onUpdateBook({
+      ...book,
+      currentPage: sectionIndexForOffset(sectionOffsets, clamped),
+      readingOffset: clamped,
+      progress,
+      lastRead: new Date().toISOString(),
+    })
+  }, [book, flow, layoutPages, sectionOffsets, onUpdateBook])
+
   const goToPage = useCallback((page: number) => {
     if (!book) return
+    if (usesLayout) {
+      if (layoutPages) goToOffset(layoutPages[Math.max(0, Math.min(page, layoutPages.length - 1))].start)
+      return
+    }
     const max = isPdf ? (book.totalPdfPages - 1) : (textPages.length - 1)
     const clamped = Math.max(0, Math.min(page, max))
     const progress = max > 0 ? Math.round((clamped / max) * 100) : 100
     onUpdateBook({ ...book, currentPage: clamped, progress, lastRead: new Date().toISOString() })
-  }, [book, isPdf, textPages.length, onUpdateBook])
-
-  const toggleBookmark = useCallback(() => {
-    if (!book) return
-    const bookmarks = Array.isArray(book.bookmarks) ? [...book.bookmarks] : []
-    const idx = bookmarks.indexOf(currentPage)
-    if (idx >= 0) bookmarks.splice(idx, 1)
-    else bookmarks.push(currentPage)
-    onUpdateBook({ ...book, bookmarks })
-  }, [book, currentPage, onUpdateBook])
-
-  const isBookmarked = Array.isArray(book?.bookmarks) && book.bookmarks.includes(currentPage)
+  }, [book, usesLayout, layoutPages, goToOffset, isPdf, textPages.length, onUpdateBook])
+
+  // Chapter entries point at stored sections
+  const goToSection = useCallback((index: number) => {
+    if (usesLayout) goToOffset(sectionOffsets[index] ?? 0)
+    else goToPage(index)
+  }, [usesLayout, sectionOffsets, goToOffset, goToPage])
+
+  const deferredSearchQuery = useDeferredValue(searchQuery)
+  const { pattern: searchPattern, error: searchError } = useMemo(
+    () => buildSearchPattern(searchOpen ? deferredSearchQuery : '', searchOptions),
+    [searchOpen, deferredSearchQuery, searchOptions]
+  )
+  const searchResult = useMemo(
+    () => searchPattern ? searchBookPages(searchPageTexts, searchPattern, deferredSearchQuery) : null,
+    [searchPattern, searchPageTexts, deferredSearchQuery]
+  )
+  const searchHits = useMemo(() => searchResult?.hits ?? [], [searchResult])
+  const searchPagesWithHits = useMemo(() => new Set(searchHits.map(h => h.pageIndex)).size, [searchHits])
+  const activeHit = searchHits[activeHitIndex] ?? null
 
-  const handleTextSelect = useCallback(() => {
-    const selection = window.getSelection()
-    if (!selection || selection.isCollapsed) {
-      setSelectionPopover(null)
-      return
-    }
-    const text = selection.toString().trim()
-    if (!text || text.length < 3) {
-      setSelectionPopover(null)
+  useEffect(() => {
+    setActiveHitIndex(-1)
+  }, [searchResult])
+
+  const goToHit = useCallback((index: number) => {
+    const hit = searchHits[index]
+    if (!hit) return
+    setActiveHitIndex(index)
+    scrolledHitRef.current = null
+    if (hit.pageIndex !== currentPage) goToPage(hit.pageIndex)
+  }, [searchHits, currentPage, goToPage])
+
+  const stepHit = useCallback((direction: 1 | -1) => {
+    if (searchHits.length === 0) return
+    if (activeHitIndex < 0) {
+      // Start from the page being read rather than the top of the book
+      const next = direction === 1
+        ? searchHits.findIndex(h => h.pageIndex >= currentPage)
+        : searchHits.map(h => h.pageIndex <= currentPage).lastIndexOf(true)
+      goToHit(next >= 0 ? next : (direction === 1 ? 0 : searchHits.length - 1))
       return
     }
-    const range = selection.getRangeAt(0)
-    const rect = range.getBoundingClientRect()
-    setSelectionPopover({ text, x: rect.left + rect.width / 2, y: rect.top - 10 })
+    goToHit((activeHitIndex + direction + searchHits.length) % searchHits.length)
+  }, [searchHits, activeHitIndex, currentPage, goToHit])
+
+  const closeSearch = useCallback(() => {
+    setSearchOpen(false)
+    setSearchQuery('')
+    clearSearchHighlights()
   }, [])
 
+  // Paint matches on the rendered page; repaint whenever the page DOM changes (PDF text layer, EPUB load...)
   useEffect(() => {
-    document.addEventListener('mouseup', handleTextSelect)
-    return () => document.removeEventListener('mouseup', handleTextSelect)
-  }, [handleTextSelect])
+    const area = contentAreaRef.current
+    if (!area || !searchPattern) {
+      clearSearchHighlights()
+      return
+    }
 
-  const handleHighlight = useCallback((color: 'yellow' | 'green' | 'blue' | 'pink') => {
-    if (!selectionPopover || !book) return
-    setAnnotationDialog({ text: selectionPopover.text, color })
-    setAnnotationNote('')
-    setSelectionPopover(null)
-    window.getSelection()?.removeAllRanges()
-  }, [selectionPopover, book])
+    let frame = 0
+    const paint = () => {
+      // Continuous and spread layouts show several PDF pages; paint the current one
+      const root = area.querySelector<HTMLElement>(`[data-search-root][data-search-page="${currentPage}"]`) ?? area.querySelector<HTMLElement>('[data-search-root]')
+      if (!root) {
+        clearSearchHighlights()
+        return
+      }
+      const ranges = findTextRanges(root, searchPattern, root.dataset.searchRoot === 'pdf' ? ' ' : undefined)
+      // The PDF text layer lags a page change until the new page has rendered
+      const stale = root.dataset.searchPage !== undefined && Number(root.dataset.searchPage) !== currentPage
+      let activeIndex = -1
+      if (activeHit && !stale && activeHit.pageIndex === currentPage) activeIndex = activeHit.occurrence
+      const active = paintSearchHighlights(ranges, activeIndex)
+      if (active && activeHit && scrolledHitRef.current !== activeHit.id) {
+        scrolledHitRef.current = activeHit.id
+        active.startContainer.parentElement?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+      }
+    }
 
-  const confirmHighlight = useCallback(() => {
+    paint()
+    const observer = new MutationObserver(() => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(paint)
+    })
+    observer.observe(area, { childList: true, subtree: true, characterData: true })
+    return () => {
+      observer.disconnect()
+      cancelAnimationFrame(frame)
+    }
+  }, [searchPattern, activeHit, currentPage])
+
+  useEffect(() => () => clearSearchHighlights(), [])
+
+  const spreadPages = isPdf && !pdfReflow && pdfLayout === 'spread' ? getSpreadPages(currentPage, totalPages, spreadCoverAlone) : [currentPage]
+
+  // Previous/next move by a whole spread in the two-page layout
+  const stepPage = useCallback((direction: 1 | -1) => {
+    if (isPdf && !pdfReflow && pdfLayout === 'spread') {
+      const spread = getSpreadPages(currentPage, totalPages, spreadCoverAlone)
+      const target = direction === 1 ? spread[spread.length - 1] + 1 : spread[0] - 1
+      if (target >= 0 && target < totalPages) goToPage(getSpreadPages(target, totalPages, spreadCoverAlone)[0])
+      return
+    }
+    goToPage(currentPage + direction)
+  }, [isPdf, pdfReflow, pdfLayout, currentPage, totalPages, spreadCoverAlone, goToPage])
+
+  // The page a bookmark shows, in the current layout for laid-out books
+  const bookmarkPage = useCallback((bm: Bookmark) => {
+    if (!usesLayout) return bm.pageIndex
+    return layoutPages ? pageIndexForOffset(layoutPages, bm.offset ?? sectionOffsets[bm.pageIndex] ?? 0) : -1
+  }, [usesLayout, layoutPages, sectionOffsets])
+
+  const currentBookmark = book?.bookmarks.find(bm => bookmarkPage(bm) === currentPage) ?? null
+
+  // How far down the current PDF page or EPUB section the view is scrolled
+  const measurePageScroll = useCallback((): number | undefined => {
+    const area = contentAreaRef.current
+    const root = area?.querySelector<HTMLElement>(`[data-search-root][data-search-page="${currentPage}"]`) ?? area?.querySelector<HTMLElement>('[data-search-root]')
+    if (!area || !root) return undefined
+    const rect = root.getBoundingClientRect()
+    if (rect.height === 0) return undefined
+    const scroll = (area.getBoundingClientRect().top - rect.top) / rect.height
+    return Math.round(Math.max(0, Math.min(scroll, 1)) * 1000) / 1000
+  }, [currentPage])
+
+  // Bookmarks the spot on screen and opens it for naming
+  const addBookmark = useCallback(() => {
+    if (!book) return
+    const offset = usesLayout ? readingOffset : undefined
+    const bookmark: Bookmark = {
+      id: generateId(),
+      label: defaultBookmarkLabel(book, currentSection, offset),
+      note: '',
+      pageIndex: currentSection,
+      ...(usesLayout ? { offset } : { scroll: measurePageScroll() }),
+      createdAt: new Date().toISOString(),
+    }
+    onUpdateBook({ ...book, bookmarks: [...book.bookmarks, bookmark] })
+    setEditingBookmark(bookmark)
+  }, [book, usesLayout, readingOffset, currentSection, measurePageScroll, onUpdateBook])
+
+  const saveBookmark = useCallback((bookmark: Bookmark) => {
+    if (!book) return
+    onUpdateBook({ ...book, bookmarks: book.bookmarks.map(bm => bm.id === bookmark.id ? bookmark : bm) })
+  }, [book, onUpdateBook])
+
+  const deleteBookmark = useCallback((id: string) => {
+    if (!book) return
+    onUpdateBook({ ...book, bookmarks: book.bookmarks.filter(bm => bm.id !== id) })
+  }, [book, onUpdateBook])
+
+  const moveBookmark = useCallback((index: number, direction: 1 | -1) => {
+    if (!book) return
+    onUpdateBook({ ...book, bookmarks: moveItem(book.bookmarks, index, direction) })
+  }, [book, onUpdateBook])
+
+  const openBookmark = useCallback((bm: Bookmark) => {
+    if (usesLayout) {
+      goToOffset(bm.offset ?? sectionOffsets[bm.pageIndex] ?? 0)
+      return
+    }
+    goToPage(bm.pageIndex)
+    if (bm.scroll) setScrollTarget({ pageIndex: bm.pageIndex, scroll: bm.scroll })
+  }, [usesLayout, sectionOffsets, goToOffset, goToPage])
+
+  useEffect(() => {
+    if (!pendingBookmark || pendingBookmark.pageIndex !== book?.currentPage) return
+    if (pendingBookmark.scroll && !usesLayout) setScrollTarget({ pageIndex: pendingBookmark.pageIndex, scroll: pendingBookmark.scroll })
+    onPendingBookmarkShown()
+  }, [pendingBookmark, book?.currentPage, usesLayout, onPendingBookmarkShown])
+
+  // Scroll to a bookmarked spot once its page has rendered; a page that never does is given up on
+  useEffect(() => {
+    const area = contentAreaRef.current
+    if (!area || !scrollTarget || scrollTarget.pageIndex !== currentPage) return
+    const apply = () => {
+      const root = area.querySelector<HTMLElement>(`[data-search-root][data-search-page="${currentPage}"]`) ?? (isPdf ? null : area.querySelector<HTMLElement>('[data-search-root]'))
+      const rect = root?.getBoundingClientRect()
+      if (!rect || rect.height === 0) return false
+      area.scrollTop += rect.top - area.getBoundingClientRect().top + scrollTarget.scroll * rect.height
+      setScrollTarget(null)
+      return true
+    }
+    if (apply()) return
+
+    let frame = 0
+    const observer = new MutationObserver(() => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(apply)
+    })
+    observer.observe(area, { childList: true, subtree: true, attributes: true })
+    const timer = setTimeout(() => setScrollTarget(null), 5000)
+    return () => {
+      observer.disconnect()
+      cancelAnimationFrame(frame)
+      clearTimeout(timer)
+    }
+  }, [scrollTarget, currentPage, isPdf])
+
+  // The text that highlight offsets in the current view refer to. EPUB sections and the
+  // PDF text layer anchor to their own rendered text
+  const anchorText = usesLayout ? (flow?.text ?? null) : isPdf && pdfReflow ? (reflowText?.text ?? null) : null
+
+  // A character range for text views, page rectangles on a PDF page
+  const anchorSelection = useCallback((range: Range): HighlightTarget => {
+    const startNode = range.startContainer
+    const root = (startNode.nodeType === Node.ELEMENT_NODE ? startNode as Element : startNode.parentElement)?.closest<HTMLElement>('[data-search-root]')
+    if (!root || !contentAreaRef.current?.contains(root)) return { pageIndex: currentSection }
+
+    if (root.dataset.searchRoot === 'pdf') {
+      const pageIndex = Number(root.dataset.searchPage ?? currentPage)
+      const pageWidth = Number(root.dataset.pageWidth)
+      const rects = pageWidth > 0 ? selectionPageRects(range, root, pageWidth) : []
+      if (rects.length === 0) return { pageIndex }
+      const layerNodes = indexTextNodes(root)
+      const start = offsetOfPoint(layerNodes, range.startContainer, range.startOffset)
+      const end = offsetOfPoint(layerNodes, range.endContainer, range.endOffset)
+      const quote = start !== null && end !== null && end > start
+        ? createTextAnchor(layerNodes.map(n => n.node.data).join(''), start, end).quote
+        : undefined
+      return { pageIndex, rects, ...(quote ? { quote } : {}) }
+    }
+
+    const nodes = indexTextNodes(root)
+    const from = offsetOfPoint(nodes, range.startContainer, range.startOffset)
+    const to = offsetOfPoint(nodes, range.endContainer, range.endOffset)
+    if (from === null || to === null || to <= from) return { pageIndex: currentSection }
+    const text = anchorText ?? nodes.map(n => n.node.data).join('')
+    return {
+      pageIndex: usesLayout ? sectionIndexForOffset(sectionOffsets, from) : currentPage,
+      anchor: createTextAnchor(text, from, to),
+    }
+  }, [anchorText, usesLayout, sectionOffsets, currentSection, currentPage])
+
+  const handleTextSelect = useCallback(() => {
+    const selection = window.getSelection()
+    if (!selection || selection.isCollapsed) {
+      setSelectionPopover(null)
+      return
+    }
+    const text = selection.toString().trim()
+    if (!text || text.length < 3) {
+      setSelectionPopover(null)
+      return
+    }
+    const range = selection.getRangeAt(0)
+    const rect = range.getBoundingClientRect()
+    setSelectionPopover({ text, x: rect.left + rect.width / 2, y: rect.top - 10, target: anchorSelection(range) })
+  }, [anchorSelection])
+
+  useEffect(() => {
+    document.addEventListener('mouseup', handleTextSelect)
+    return () => document.removeEventListener('mouseup', handleTextSelect)
+  }, [handleTextSelect])
+
+  const handleHighlight = useCallback((color: string) => {
+    if (!selectionPopover || !book) return
+    setAnnotationDialog({ text: selectionPopover.text, color, target: selectionPopover.target })
+    setAnnotationNote('')
+    setSelectionPopover(null)
+    window.getSelection()?.removeAllRanges()
+  }, [selectionPopover, book])
+
+  const confirmHighlight = useCallback(() => {
     if (!annotationDialog || !book) return
     const highlight: Highlight = {
       id: generateId(),
@@ -1216,23 +4454,111 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
       text: annotationDialog.text,
       color: annotationDialog.color,
       note: annotationNote,
-      pageIndex: currentPage,
+      ...annotationDialog.target,
       createdAt: new Date().toISOString(),
     }
     onAddHighlight(highlight)
     setAnnotationDialog(null)
     setAnnotationNote('')
-  }, [annotationDialog, annotationNote, book, currentPage, onAddHighlight])
+  }, [annotationDialog, annotationNote, book, onAddHighlight])
 
-  const pageHighlights = useMemo(() => {
-    if (!book) return []
-    return highlights.filter(h => h.bookId === book.id && h.pageIndex === currentPage)
-  }, [highlights, book, currentPage])
+  const bookHighlights = useMemo(
+    () => book ? highlights.filter(h => h.bookId === book.id) : [],
+    [highlights, book]
+  )
+  const pdfRectHighlights = useMemo(() => bookHighlights.filter(h => h.rects), [bookHighlights])
+
+  // Paint saved text highlights on whatever is rendered; repaint when the page DOM changes
+  useEffect(() => {
+    const area = contentAreaRef.current
+    if (!area || bookHighlights.length === 0) {
+      clearTextHighlights()
+      paintedHighlights.current = []
+      return
+    }
 
-  const renderTextContent = useCallback((text: string) => {
+    let frame = 0
+    const paint = () => {
+      const rangesByColor = new Map<string, Range[]>()
+      const painted: PaintedHighlight[] = []
+      area.querySelectorAll<HTMLElement>('[data-search-root]').forEach((root) => {
+        const isPdfLayer = root.dataset.searchRoot === 'pdf'
+        const pageIndex = root.dataset.searchPage !== undefined ? Number(root.dataset.searchPage) : currentPage
+        const nodes = indexTextNodes(root)
+        const text = (isPdfLayer ? null : anchorText) ?? nodes.map(n => n.node.data).join('')
+
+        for (const h of bookHighlights) {
+          // PDF highlights with rectangles are drawn by the page renderer; the reflow view finds them by their quote
+          if (h.rects && isPdfLayer) continue
+          if (!usesLayout && h.pageIndex !== pageIndex) continue
+          // Older highlights only kept their text; look for it near the start of their section
+          const hint = usesLayout ? (sectionOffsets[h.pageIndex] ?? 0) : 0
+          const anchor = h.anchor && !isPdfLayer ? h.anchor : { start: hint, end: hint, quote: h.quote ?? { exact: h.text, prefix: '', suffix: '' } }
+          const resolved = resolveTextAnchor(text, anchor)
+          const range = resolved && rangeForOffsets(nodes, resolved.start, resolved.end)
+          if (!range) continue
+          const color = paletteColor(palette, h.color).id
+          const ranges = rangesByColor.get(color) ?? []
+          ranges.push(range)
+          rangesByColor.set(color, ranges)
+          // The PDF text layer is not the anchoring text, so only text views can re-anchor;
+          // page highlights keep their rectangles as the passage
+          painted.push({ highlight: h, root, range, anchor: isPdfLayer || h.rects ? undefined : createTextAnchor(text, resolved.start, resolved.end) })
+        }
+      })
+      paintTextHighlights(rangesByColor)
+      paintedHighlights.current = painted
+    }
+
+    paint()
+    const observer = new MutationObserver(() => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(paint)
+    })
+    observer.observe(area, { childList: true, subtree: true, characterData: true })
+    return () => {
+      observer.disconnect()
+      cancelAnimationFrame(frame)
+    }
+  }, [bookHighlights, palette, anchorText, usesLayout, sectionOffsets, currentPage])
+
+  useEffect(() => () => clearTextHighlights(), [])
+
+  // Clicking a highlight (without selecting text) opens it in the editor
+  const handleContentClick = useCallback((e: React.MouseEvent) => {
+    if (!window.getSelection()?.isCollapsed) return
+    const root = (e.target as HTMLElement).closest<HTMLElement>('[data-search-root]')
+    if (!root) return
+
+    if (root.dataset.searchRoot === 'pdf') {
+      const pageIndex = Number(root.dataset.searchPage)
+      const box = root.getBoundingClientRect()
+      const factor = box.width / Number(root.dataset.pageWidth)
+      if (factor > 0) {
+        const x = (e.clientX - box.left) / factor
+        const y = (e.clientY - box.top) / factor
+        const hit = pdfRectHighlights.find(h => h.pageIndex === pageIndex && h.rects?.some(r => x >= r.x && x <= r.x + r.width && y >= r.y && y <= r.y + r.height))
+        if (hit) {
+          setEditingHighlight(hit)
+          return
+        }
+      }
+    }
+
+    const caret = caretPointAt(e.clientX, e.clientY)
+    if (!caret) return
+    const hit = paintedHighlights.current.find(p => p.root === root && p.range.isPointInRange(caret.node, caret.offset))
+    // Edit against the text as it is now, which also anchors highlights that only had their text
+    if (hit) setEditingHighlight(hit.anchor ? { ...hit.highlight, anchor: hit.anchor } : hit.highlight)
+  }, [pdfRectHighlights])
+
+
+  // Each line carries its offset in the anchoring text (`baseOffset` is the first line's),
+  // so selections and saved highlights map to character ranges
+  const renderTextContent = useCallback((text: string, baseOffset = 0) => {
     if (!text) return null
 
-    const renderLine = (line: string, i: number) => {
+    const renderLine = (line: string, i: number, offset: number) => {
       if (!line.trim()) return <br key={i} />
       const isHeader = /^(Chapter|Part|Section)\s/i.test(line.trim())
       const isPageMarker = /^--- Page \d+ ---$/.test(line.trim())
@@ -1240,47 +4566,41 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
       if (isPageMarker) {
         return <div key={i} className="text-xs text-muted-foreground/50 text-center my-4 border-t border-border/30 pt-2">{line.trim()}</div>
       }
-
-      let lineElements: React.ReactNode[] = [line]
-      for (const h of pageHighlights) {
-        const newElements: React.ReactNode[] = []
-        for (const el of lineElements) {
-          if (typeof el !== 'string') {
-            newElements.push(el)
-            continue
-          }
-          const idx = el.indexOf(h.text)
-          if (idx >= 0) {
-            if (idx > 0) newElements.push(el.substring(0, idx))
-            newElements.push(
-              <span key={`hl-${h.id}-${i}`} className={cn("px-0.5 rounded", HIGHLIGHT_COLORS[h.color] ?? 'bg-yellow-200/60')}>
-                {h.text}
-              </span>
-            )
-            if (idx + h.text.length < el.length) newElements.push(el.substring(idx + h.text.length))
-          } else {
-            newElements.push(el)
-          }
-        }
-        lineElements = newElements
-      }
-
       if (isHeader) {
-        return <h3 key={i} className="font-serif font-semibold text-lg mt-6 mb-3 text-foreground">{lineElements}</h3>
+        return <h3 key={i} data-text-offset={offset} className="font-serif font-semibold text-lg mt-6 mb-3 text-foreground">{line}</h3>
       }
-      return <p key={i} className="mb-3 text-foreground/90">{lineElements}</p>
+      return <p key={i} data-text-offset={offset} className="mb-3 text-foreground/90">{line}</p>
     }
 
-    return text.split('\n').map((line, i) => renderLine(line, i))
-  }, [pageHighlights])
+    let offset = baseOffset
+    return text.split('\n').map((line, i) => {
+      const element = renderLine(line, i, offset)
+      offset += line.length + 1
+      return element
+    })
+  }, [])
 
+  // Accepts a printed page label ("xii") as well as a page number
   const handlePageInputSubmit = useCallback(() => {
-    const num = parseInt(pageInput, 10)
-    if (!isNaN(num) && num >= 1 && num <= totalPages) {
-      goToPage(isPdf ? num - 1 : num - 1)
+    const input = pageInput.trim().toLowerCase()
+    const labelIndex = input ? (book?.pageLabels?.findIndex(label => label.toLowerCase() === input) ?? -1) : -1
+    const num = parseInt(input, 10)
+    if (labelIndex >= 0) {
+      goToPage(labelIndex)
+    } else if (/^\d+$/.test(input) && num >= 1 && num <= totalPages) {
+      goToPage(num - 1)
     }
     setPageInput('')
-  }, [pageInput, totalPages, isPdf, goToPage])
+  }, [pageInput, book?.pageLabels, totalPages, goToPage])
+
+  const toggleChapterCollapsed = useCallback((key: string) => {
+    setCollapsedChapters((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }, [])
 
   if (!book) {
     return (
@@ -1297,6 +4617,32 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
   }
 
   const bgClass = readingMode === 'sepia' ? 'bg-[hsl(40,35%,95%)]' : 'bg-background'
+  const currentChapter = getCurrentChapter(book)
+  const currentPageLabel = getPageLabel(book, currentPage)
+
+  const renderChapterTree = (chapters: Chapter[], parentKey: string): React.ReactNode => chapters.map((ch, idx) => {
+    const key = parentKey ? `${parentKey}.${idx}` : String(idx)
+    const hasChildren = Array.isArray(ch.children) && ch.children.length > 0
+    const collapsed = collapsedChapters.has(key)
+    return (
+      <div key={key}>
+        <div className="flex items-center" style={{ paddingLeft: `${ch.level * 12}px` }}>
+          {hasChildren ? (
+            <button onClick={() => toggleChapterCollapsed(key)} className="p-0.5 rounded text-muted-foreground hover:text-foreground flex-shrink-0" aria-label={collapsed ? 'Expand' : 'Collapse'}>
+              {collapsed ? <FiChevronRight className="w-3 h-3" /> : <FiChevronDown className="w-3 h-3" />}
+            </button>
+          ) : (
+            <span className="w-4 flex-shrink-0" />
+          )}
+          <button onClick={() => usesLayout && ch.startOffset !== undefined ? goToOffset(ch.startOffset) : goToSection(ch.startIndex)} className={cn("flex-1 min-w-0 text-left text-xs px-2 py-1.5 rounded transition-colors flex items-baseline gap-2", currentChapter === ch ? "bg-primary/10 text-primary font-medium" : "text-muted-foreground hover:bg-secondary hover:text-foreground")}>
+            <span className="flex-1 min-w-0">{ch.title}</span>
+            {isPdf && <span className="text-[10px] text-muted-foreground/70 flex-shrink-0">{getPageLabel(book, ch.startIndex)}</span>}
+          </button>
+        </div>
+        {hasChildren && !collapsed && renderChapterTree(ch.children ?? [], key)}
+      </div>
+    )
+  })
 
   return (
     <div className={cn("flex-1 flex flex-col relative overflow-hidden", bgClass)}>
@@ -1311,15 +4657,20 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
           <TooltipProvider>
             <Tooltip><TooltipTrigger asChild><button onClick={onBack} className="p-1.5 rounded-full hover:bg-secondary transition-colors text-muted-foreground hover:text-foreground"><FiChevronLeft className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">Library</p></TooltipContent></Tooltip>
             <Tooltip><TooltipTrigger asChild><button onClick={() => setShowTOC(!showTOC)} className={cn("p-1.5 rounded-full transition-colors", showTOC ? "bg-primary text-primary-foreground" : "hover:bg-secondary text-muted-foreground hover:text-foreground")}><FiList className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">Contents</p></TooltipContent></Tooltip>
-            <Tooltip><TooltipTrigger asChild><button onClick={() => setSearchOpen(!searchOpen)} className={cn("p-1.5 rounded-full transition-colors", searchOpen ? "bg-primary text-primary-foreground" : "hover:bg-secondary text-muted-foreground hover:text-foreground")}><FiSearch className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">Search</p></TooltipContent></Tooltip>
-            <Tooltip><TooltipTrigger asChild><button onClick={toggleBookmark} className={cn("p-1.5 rounded-full transition-colors", isBookmarked ? "bg-primary text-primary-foreground" : "hover:bg-secondary text-muted-foreground hover:text-foreground")}><FiBookmark className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">{isBookmarked ? 'Bookmarked' : 'Bookmark'}</p></TooltipContent></Tooltip>
+            <Tooltip><TooltipTrigger asChild><button onClick={() => searchOpen ? closeSearch() : setSearchOpen(true)} className={cn("p-1.5 rounded-full transition-colors", searchOpen ? "bg-primary text-primary-foreground" : "hover:bg-secondary text-muted-foreground hover:text-foreground")}><FiSearch className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">Search</p></TooltipContent></Tooltip>
+            <Tooltip><TooltipTrigger asChild><button onClick={() => currentBookmark ? setEditingBookmark(currentBookmark) : addBookmark()} className={cn("p-1.5 rounded-full transition-colors", currentBookmark ? "bg-primary text-primary-foreground" : "hover:bg-secondary text-muted-foreground hover:text-foreground")}><FiBookmark className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">{currentBookmark ? 'Edit Bookmark' : 'Bookmark'}</p></TooltipContent></Tooltip>
             <Tooltip><TooltipTrigger asChild><button onClick={() => setShowSettings(true)} className="p-1.5 rounded-full hover:bg-secondary transition-colors text-muted-foreground hover:text-foreground"><FiSettings className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">Settings</p></TooltipContent></Tooltip>
             <Tooltip><TooltipTrigger asChild><button onClick={onToggleChat} className={cn("p-1.5 rounded-full transition-colors", chatOpen ? "bg-primary text-primary-foreground" : "hover:bg-secondary text-muted-foreground hover:text-foreground")}><FiMessageSquare className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">AI Chat</p></TooltipContent></Tooltip>
 
-            {/* PDF zoom controls */}
+            {/* PDF reflow and zoom controls */}
             {isPdf && (
               <>
                 <Separator orientation="vertical" className="h-5 mx-0.5" />
+                <Tooltip><TooltipTrigger asChild><button onClick={() => setPdfReflow(r => !r)} className={cn("p-1.5 rounded-full transition-colors", pdfReflow ? "bg-primary text-primary-foreground" : "hover:bg-secondary text-muted-foreground hover:text-foreground")}><FiAlignLeft className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">{pdfReflow ? 'Show Page' : 'Reflow Text'}</p></TooltipContent></Tooltip>
+              </>
+            )}
+            {isPdf && !pdfReflow && (
+              <>
                 <Tooltip><TooltipTrigger asChild><button onClick={() => setPdfZoom(z => Math.max(0.5, z - 0.1))} className="p-1.5 rounded-full hover:bg-secondary transition-colors text-muted-foreground hover:text-foreground"><FiZoomOut className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">Zoom Out</p></TooltipContent></Tooltip>
                 <span className="text-[10px] text-muted-foreground font-mono min-w-[36px] text-center">{Math.round(pdfZoom * 100)}%</span>
                 <Tooltip><TooltipTrigger asChild><button onClick={() => setPdfZoom(z => Math.min(3.0, z + 0.1))} className="p-1.5 rounded-full hover:bg-secondary transition-colors text-muted-foreground hover:text-foreground"><FiZoomIn className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">Zoom In</p></TooltipContent></Tooltip>
@@ -1332,11 +4683,60 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
 
       {/* Search bar */}
       {searchOpen && (
-        <div className="absolute top-14 left-1/2 -translate-x-1/2 z-20 w-80">
-          <div className="flex items-center gap-2 bg-card border border-border rounded-lg p-2 shadow-md">
-            <FiSearch className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-            <Input value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} placeholder="Search in book..." className="h-7 text-sm border-0 p-0 focus-visible:ring-0 bg-transparent" autoFocus />
-            <button onClick={() => { setSearchOpen(false); setSearchQuery('') }} className="p-1 text-muted-foreground hover:text-foreground"><FiX className="w-3.5 h-3.5" /></button>
+        <div className="absolute top-14 left-1/2 -translate-x-1/2 z-20 w-96">
+          <div className="bg-card border border-border rounded-lg shadow-md">
+            <div className="flex items-center gap-2 p-2">
+              <FiSearch className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+              <Input value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); stepHit(e.shiftKey ? -1 : 1) } else if (e.key === 'Escape') closeSearch() }} placeholder="Search in book..." className="h-7 text-sm border-0 p-0 focus-visible:ring-0 bg-transparent" autoFocus />
+              {([
+                ['caseSensitive', 'Aa', 'Match case'],
+                ['wholeWord', 'ab', 'Whole word'],
+                ['regex', '.*', 'Regular expression'],
+              ] as const).map(([key, label, title]) => (
+                <button key={key} onClick={() => setSearchOptions(o => ({ ...o, [key]: !o[key] }))} title={title} className={cn("px-1.5 py-0.5 rounded text-[11px] font-mono transition-colors", key === 'wholeWord' && "underline", searchOptions[key] ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:bg-secondary hover:text-foreground")}>
+                  {label}
+                </button>
+              ))}
+              <button onClick={closeSearch} className="p-1 text-muted-foreground hover:text-foreground"><FiX className="w-3.5 h-3.5" /></button>
+            </div>
+
+            {searchError && (
+              <p className="px-3 pb-2 text-[11px] text-destructive">{searchError}</p>
+            )}
+
+            {searchResult && (
+              <>
+                <div className="flex items-center justify-between border-t border-border px-3 py-1.5">
+                  <span className="text-[11px] text-muted-foreground">
+                    {searchHits.length === 0
+                      ? 'No matches'
+                      : `${activeHitIndex >= 0 ? `${activeHitIndex + 1} of ` : ''}${searchHits.length}${searchResult.truncated ? '+' : ''} match${searchHits.length === 1 ? '' : 'es'} in ${searchPagesWithHits} ${isPdf || usesLayout ? 'page' : 'section'}${searchPagesWithHits === 1 ? '' : 's'}`}
+                  </span>
+                  <div className="flex items-center gap-0.5">
+                    <button onClick={() => stepHit(-1)} disabled={searchHits.length === 0} title="Previous match (Shift+Enter)" className="p-1 rounded text-muted-foreground hover:bg-secondary hover:text-foreground disabled:opacity-40"><FiChevronUp className="w-3.5 h-3.5" /></button>
+                    <button onClick={() => stepHit(1)} disabled={searchHits.length === 0} title="Next match (Enter)" className="p-1 rounded text-muted-foreground hover:bg-secondary hover:text-foreground disabled:opacity-40"><FiChevronDown className="w-3.5 h-3.5" /></button>
+                  </div>
+                </div>
+                {searchHits.length > 0 && (
+                  <div className="max-h-72 overflow-y-auto border-t border-border p-1">
+                      {searchResult.ranked.map((hit) => {
+                        const index = searchHits.indexOf(hit)
+                        return (
+                          <button key={hit.id} onClick={() => goToHit(index)} className={cn("w-full text-left px-2 py-1.5 rounded transition-colors", index === activeHitIndex ? "bg-primary/10" : "hover:bg-secondary")}>
+                            <span className="block text-[10px] font-medium text-muted-foreground">{isPdf || usesLayout ? 'Page' : 'Section'} {getPageLabel(book, hit.pageIndex)}</span>
+                            <span className="block text-xs text-foreground/80 line-clamp-2">
+                              {hit.before}<mark className="bg-yellow-200/80 text-foreground rounded px-0.5">{hit.match}</mark>{hit.after}
+                            </span>
+                          </button>
+                        )
+                      })}
+                      {searchResult.truncated && (
+                        <p className="px-2 py-1.5 text-[10px] text-muted-foreground">Showing the first {MAX_SEARCH_HITS} matches -- refine the search to see more</p>
+                      )}
+                  </div>
+                )}
+              </>
+            )}
           </div>
         </div>
       )}
@@ -1352,30 +4752,37 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
                 <Badge className={cn("text-[9px] border", FILE_TYPE_COLORS[book.fileType] ?? '')}>{book.fileType.toUpperCase()}</Badge>
                 <span>{formatFileSize(book.fileSize)}</span>
               </div>
-              <p>{isPdf ? `${book.totalPdfPages} PDF pages` : `${textPages.length} sections`}</p>
+              <p>{isPdf ? `${book.totalPdfPages} PDF pages` : usesLayout ? `${textPages.length} pages, ${sectionTexts.length} sections` : `${textPages.length} sections`}</p>
             </div>
             {Array.isArray(book.chapters) && book.chapters.length > 0 ? (
               <div className="space-y-1">
-                {book.chapters.map((ch, idx) => (
-                  <button key={idx} onClick={() => goToPage(ch.startIndex)} className={cn("w-full text-left text-xs px-2 py-1.5 rounded transition-colors", currentPage === ch.startIndex ? "bg-primary/10 text-primary font-medium" : "text-muted-foreground hover:bg-secondary hover:text-foreground")}>
-                    {ch.title}
-                  </button>
-                ))}
+                {renderChapterTree(book.chapters, '')}
               </div>
             ) : (
               <p className="text-xs text-muted-foreground">No chapters detected</p>
             )}
 
-            {Array.isArray(book.bookmarks) && book.bookmarks.length > 0 && (
+            {book.bookmarks.length > 0 && (
               <>
                 <Separator className="my-3" />
                 <h3 className="font-serif font-semibold text-sm mb-2 text-foreground">Bookmarks</h3>
                 <div className="space-y-1">
                   {book.bookmarks.map((bm, idx) => (
-                    <button key={idx} onClick={() => goToPage(bm)} className="w-full text-left text-xs px-2 py-1.5 rounded text-muted-foreground hover:bg-secondary hover:text-foreground transition-colors flex items-center gap-1.5">
-                      <FiBookmark className="w-3 h-3 text-primary" />
-                      {isPdf ? `Page ${bm + 1}` : `Section ${bm + 1}`}
-                    </button>
+                    <div key={bm.id} className="group flex items-start gap-0.5">
+                      <button onClick={() => openBookmark(bm)} className={cn("flex-1 min-w-0 text-left text-xs px-2 py-1.5 rounded transition-colors flex items-start gap-1.5", currentBookmark?.id === bm.id ? "bg-primary/10 text-primary" : "text-muted-foreground hover:bg-secondary hover:text-foreground")}>
+                        <FiBookmark className="w-3 h-3 text-primary mt-0.5 flex-shrink-0" />
+                        <span className="min-w-0">
+                          <span className="block truncate">{bm.label}</span>
+                          <span className="block text-[10px] text-muted-foreground/70">{getPositionLabel(book, bm.pageIndex)}</span>
+                          {bm.note && <span className="block text-[10px] italic truncate">{bm.note}</span>}
+                        </span>
+                      </button>
+                      <div className="flex flex-col opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => moveBookmark(idx, -1)} disabled={idx === 0} className="p-0.5 rounded text-muted-foreground hover:text-foreground disabled:opacity-30" title="Move up"><FiChevronUp className="w-3 h-3" /></button>
+                        <button onClick={() => moveBookmark(idx, 1)} disabled={idx === book.bookmarks.length - 1} className="p-0.5 rounded text-muted-foreground hover:text-foreground disabled:opacity-30" title="Move down"><FiChevronDown className="w-3 h-3" /></button>
+                      </div>
+                      <button onClick={() => setEditingBookmark(bm)} className="p-1 mt-0.5 rounded opacity-0 group-hover:opacity-100 text-muted-foreground hover:bg-secondary hover:text-foreground transition-all" title="Edit bookmark"><FiEdit3 className="w-3 h-3" /></button>
+                    </div>
                   ))}
                 </div>
               </>
@@ -1384,41 +4791,100 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
         )}
 
         {/* Main content area */}
-        <div className="flex-1 overflow-y-auto" ref={contentAreaRef}>
+        <div className="flex-1 overflow-y-auto relative" ref={contentAreaRef} onClick={handleContentClick}>
+          {/* Hidden copy of the whole text, laid out like a page, for layout pagination */}
+          {needsLayout && flow && (
+            <div aria-hidden className="absolute inset-x-0 top-0 h-0 overflow-hidden invisible pointer-events-none">
+              <div className="max-w-2xl mx-auto px-8">
+                {htmlBlocks ? (
+                  <div
+                    ref={measureRef}
+                    className="prose prose-sm max-w-none"
+                    style={{ fontSize: `${fontSize}px`, lineHeight, fontFamily: fontFamily === 'serif' ? 'Georgia, "Times New Roman", serif' : 'system-ui, -apple-system, sans-serif' }}
+                    dangerouslySetInnerHTML={{ __html: htmlBlocks.blocks.map(b => b.html).join('') }}
+                  />
+                ) : (
+                  <div ref={measureRef} style={{ fontSize: `${fontSize}px`, lineHeight, fontFamily: fontFamily === 'serif' ? 'Georgia, "Times New Roman", serif' : 'system-ui, -apple-system, sans-serif' }}>
+                    {renderTextContent(flow.text)}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* PDF Rendering */}
           {isPdf && (
             <div className="flex flex-col items-center py-8 px-4">
               <h2 className="font-serif font-bold text-xl mb-1 text-foreground">{book.title}</h2>
               <p className="text-sm text-muted-foreground mb-4">{book.author}</p>
 
-              {pdfLoading && (
+              {pdfStatus === 'loading' && (
                 <div className="flex flex-col items-center justify-center py-20">
                   <FiLoader className="w-8 h-8 animate-spin text-primary mb-3" />
                   <p className="text-sm text-muted-foreground">Loading PDF from storage...</p>
                 </div>
               )}
 
-              {!pdfLoading && !pdfData && book.id.startsWith('sample-') && (
+              {book.id.startsWith('sample-') && (
                 <div className="max-w-2xl mx-auto px-8 py-4 select-text" style={{ fontSize: `${fontSize}px`, lineHeight, fontFamily: fontFamily === 'serif' ? 'Georgia, "Times New Roman", serif' : 'system-ui, -apple-system, sans-serif' }}>
                   <div className="mb-4 p-3 bg-secondary/50 rounded-lg border border-border">
                     <p className="text-xs text-muted-foreground">Sample PDF -- showing extracted text preview. Upload a real PDF to see full canvas rendering.</p>
                   </div>
-                  {renderTextContent(book.content)}
+                  <div data-search-root="text">{renderTextContent(book.content)}</div>
                 </div>
               )}
 
-              {!pdfLoading && !pdfData && !book.id.startsWith('sample-') && (
+              {pdfStatus === 'missing' && (
                 <div className="text-center py-20">
                   <FiFile className="w-12 h-12 text-muted-foreground/30 mx-auto mb-3" />
                   <p className="text-sm text-muted-foreground">PDF data not found in storage. The file may need to be re-uploaded.</p>
                 </div>
               )}
 
-              {!pdfLoading && pdfData && (
+              {pdfStatus === 'ready' && pdfReflow && (
+                <div className="w-full max-w-2xl mx-auto px-4 py-4 select-text" style={{ fontSize: `${fontSize}px`, lineHeight, fontFamily: fontFamily === 'serif' ? 'Georgia, "Times New Roman", serif' : 'system-ui, -apple-system, sans-serif' }}>
+                  {reflowText?.bookId === book.id && reflowText.pageIndex === currentPage ? (
+                    reflowText.text ? (
+                      <div data-search-root="text" data-search-page={currentPage}>{renderTextContent(reflowText.text)}</div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground text-center py-20">No text on this page. It may be a scanned image -- turn off reflow to see it.</p>
+                    )
+                  ) : (
+                    <div className="flex justify-center py-20">
+                      <FiLoader className="w-6 h-6 animate-spin text-primary" />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {pdfStatus === 'ready' && !pdfReflow && pdfLayout === 'single' && (
                 <PdfPageRenderer
-                  pdfDataBase64={pdfData}
+                  bookId={book.id}
                   pageNumber={currentPage + 1}
                   scale={pdfZoom}
+                  highlights={pdfRectHighlights.filter(h => h.pageIndex === currentPage)}
+                  palette={palette}
+                />
+              )}
+
+              {pdfStatus === 'ready' && !pdfReflow && pdfLayout === 'spread' && (
+                <div className="flex items-start justify-center gap-4 flex-wrap max-w-full">
+                  {spreadPages.map(p => (
+                    <PdfPageRenderer key={p} bookId={book.id} pageNumber={p + 1} scale={pdfZoom} highlights={pdfRectHighlights.filter(h => h.pageIndex === p)} palette={palette} />
+                  ))}
+                </div>
+              )}
+
+              {pdfStatus === 'ready' && !pdfReflow && pdfLayout === 'continuous' && (
+                <PdfContinuousView
+                  bookId={book.id}
+                  totalPages={book.totalPdfPages}
+                  scale={pdfZoom}
+                  currentPage={currentPage}
+                  scrollRoot={contentAreaRef}
+                  onVisiblePageChange={goToPage}
+                  highlights={pdfRectHighlights}
+                  palette={palette}
                 />
               )}
             </div>
@@ -1435,15 +4901,52 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
               </div>
               <Separator className="mb-8" />
 
-              {book.htmlContent ? (
+              <div ref={pageBodyRef}>
+                {!layoutPages ? (
+                  <div className="flex justify-center py-20">
+                    <FiLoader className="w-6 h-6 animate-spin text-primary" />
+                  </div>
+                ) : htmlBlocks ? (
+                  <DocxRenderer
+                    htmlContent={htmlBlocks.blocks.slice(layoutPages[currentPage].firstBlock, layoutPages[currentPage].lastBlock).map(b => b.html).join('')}
+                    fontSize={fontSize}
+                    lineHeight={lineHeight}
+                    fontFamily={fontFamily}
+                  />
+                ) : (
+                  <div data-search-root="text" style={{ fontSize: `${fontSize}px`, lineHeight, fontFamily: fontFamily === 'serif' ? 'Georgia, "Times New Roman", serif' : 'system-ui, -apple-system, sans-serif' }}>
+                    {renderTextContent(textPages[currentPage] ?? '', layoutPages[currentPage]?.start)}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* EPUB Rendering */}
+          {isEpub && (
+            <div className="max-w-2xl mx-auto px-8 py-12 select-text">
+              <h2 className="font-serif font-bold text-xl mb-1 text-foreground">{book.title}</h2>
+              <p className="text-sm text-muted-foreground mb-4">{book.author}</p>
+              <div className="mb-4 flex items-center gap-2">
+                <Badge className={cn("text-[9px] border", FILE_TYPE_COLORS.epub)}>EPUB</Badge>
+                <span className="text-[10px] text-muted-foreground">{formatFileSize(book.fileSize)}</span>
+              </div>
+              <Separator className="mb-8" />
+
+              {epubLoading ? (
+                <div className="flex flex-col items-center justify-center py-20">
+                  <FiLoader className="w-8 h-8 animate-spin text-primary mb-3" />
+                  <p className="text-sm text-muted-foreground">Loading EPUB from storage...</p>
+                </div>
+              ) : epubSections[currentPage] !== undefined ? (
                 <DocxRenderer
-                  htmlContent={book.htmlContent}
+                  htmlContent={epubSections[currentPage]}
                   fontSize={fontSize}
                   lineHeight={lineHeight}
                   fontFamily={fontFamily}
                 />
               ) : (
-                <div style={{ fontSize: `${fontSize}px`, lineHeight, fontFamily: fontFamily === 'serif' ? 'Georgia, "Times New Roman", serif' : 'system-ui, -apple-system, sans-serif' }}>
+                <div data-search-root="text" style={{ fontSize: `${fontSize}px`, lineHeight, fontFamily: fontFamily === 'serif' ? 'Georgia, "Times New Roman", serif' : 'system-ui, -apple-system, sans-serif' }}>
                   {renderTextContent(textPages[currentPage] ?? '')}
                 </div>
               )}
@@ -1451,7 +4954,7 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
           )}
 
           {/* TXT Rendering */}
-          {!isPdf && !isDocx && (
+          {!isPdf && !isDocx && !isEpub && (
             <div className="max-w-2xl mx-auto px-8 py-12 select-text" style={{ fontSize: `${fontSize}px`, lineHeight, fontFamily: fontFamily === 'serif' ? 'Georgia, "Times New Roman", serif' : 'system-ui, -apple-system, sans-serif' }}>
               <h2 className="font-serif font-bold text-xl mb-1 text-foreground">{book.title}</h2>
               <p className="text-sm text-muted-foreground mb-4">{book.author}</p>
@@ -1460,7 +4963,15 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
                 <span className="text-[10px] text-muted-foreground">{formatFileSize(book.fileSize)}</span>
               </div>
               <Separator className="mb-8" />
-              {renderTextContent(textPages[currentPage] ?? '')}
+              <div ref={pageBodyRef}>
+                {layoutPages ? (
+                  <div data-search-root="text">{renderTextContent(textPages[currentPage] ?? '', layoutPages[currentPage]?.start)}</div>
+                ) : (
+                  <div className="flex justify-center py-20">
+                    <FiLoader className="w-6 h-6 animate-spin text-primary" />
+                  </div>
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -1468,30 +4979,32 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
 
       {/* Page navigation */}
       <div className="border-t border-border bg-card/80 backdrop-blur-sm px-6 py-2 flex items-center justify-between flex-shrink-0">
-        <Button variant="ghost" size="sm" onClick={() => goToPage(currentPage - 1)} disabled={currentPage === 0} className="gap-1 text-xs">
+        <Button variant="ghost" size="sm" onClick={() => stepPage(-1)} disabled={spreadPages[0] <= 0} className="gap-1 text-xs">
           <FiChevronLeft className="w-3.5 h-3.5" /> Previous
         </Button>
         <div className="flex items-center gap-2">
           <span className="text-xs text-muted-foreground">
-            {isPdf ? `Page` : `Section`}
+            {isPdf || usesLayout ? `Page` : `Section`}
           </span>
           <Input
             value={pageInput}
             onChange={(e) => setPageInput(e.target.value)}
             onKeyDown={(e) => { if (e.key === 'Enter') handlePageInputSubmit() }}
             onBlur={handlePageInputSubmit}
-            placeholder={String(currentPage + 1)}
+            placeholder={currentPageLabel}
             className="w-12 h-6 text-xs text-center p-0 border-border bg-background"
           />
-          <span className="text-xs text-muted-foreground">of {totalPages}</span>
-          {isPdf && (
+          <span className="text-xs text-muted-foreground">
+            {currentPageLabel !== String(currentPage + 1) ? `(${currentPage + 1} of ${totalPages})` : `of ${totalPages}`}
+          </span>
+          {isPdf && !pdfReflow && (
             <>
               <Separator orientation="vertical" className="h-4 mx-1" />
               <span className="text-[10px] text-muted-foreground">{Math.round(pdfZoom * 100)}%</span>
             </>
           )}
         </div>
-        <Button variant="ghost" size="sm" onClick={() => goToPage(currentPage + 1)} disabled={currentPage >= totalPages - 1} className="gap-1 text-xs">
+        <Button variant="ghost" size="sm" onClick={() => stepPage(1)} disabled={spreadPages[spreadPages.length - 1] >= totalPages - 1} className="gap-1 text-xs">
           Next <FiChevronRight className="w-3.5 h-3.5" />
         </Button>
       </div>
@@ -1499,8 +5012,8 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
       {/* Selection popover */}
       {selectionPopover && (
         <div className="fixed z-50 flex items-center gap-1 bg-card border border-border rounded-lg shadow-lg p-1.5" style={{ left: Math.max(10, selectionPopover.x - 100), top: Math.max(10, selectionPopover.y - 44) }}>
-          {(['yellow', 'green', 'blue', 'pink'] as const).map((color) => (
-            <button key={color} onClick={() => handleHighlight(color)} className={cn("w-6 h-6 rounded-full border-2 border-white shadow-sm transition-transform hover:scale-110", color === 'yellow' ? 'bg-yellow-300' : color === 'green' ? 'bg-green-300' : color === 'blue' ? 'bg-blue-300' : 'bg-pink-300')} title={`Highlight ${color}`} />
+          {palette.map((color) => (
+            <button key={color.id} onClick={() => handleHighlight(color.id)} className="w-6 h-6 rounded-full border-2 border-white shadow-sm transition-transform hover:scale-110" style={{ backgroundColor: color.hex }} title={`Highlight as ${color.name}`} />
           ))}
           <Separator orientation="vertical" className="h-5 mx-1" />
           <button onClick={() => { if (selectionPopover) { navigator.clipboard.writeText(selectionPopover.text).catch(() => {}); setSelectionPopover(null); window.getSelection()?.removeAllRanges() } }} className="p-1.5 rounded hover:bg-secondary text-muted-foreground transition-colors" title="Copy">
@@ -1518,7 +5031,7 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
           </DialogHeader>
           {annotationDialog && (
             <div className="space-y-3">
-              <div className={cn("p-2 rounded text-sm italic", HIGHLIGHT_COLORS[annotationDialog.color] ?? 'bg-yellow-200/60')}>
+              <div className="p-2 rounded text-sm italic" style={{ backgroundColor: highlightFill(paletteColor(palette, annotationDialog.color).hex) }}>
                 {annotationDialog.text.length > 120 ? annotationDialog.text.substring(0, 120) + '...' : annotationDialog.text}
               </div>
               <Textarea value={annotationNote} onChange={(e) => setAnnotationNote(e.target.value)} placeholder="Add a note (optional)..." rows={3} className="text-sm" />
@@ -1531,6 +5044,26 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
         </DialogContent>
       </Dialog>
 
+      <BookmarkEditorDialog
+        key={editingBookmark?.id ?? 'none'}
+        bookmark={editingBookmark}
+        book={book}
+        onSave={saveBookmark}
+        onDelete={deleteBookmark}
+        onClose={() => setEditingBookmark(null)}
+      />
+
+      <HighlightEditorDialog
+        key={editingHighlight?.id ?? 'none'}
+        highlight={editingHighlight}
+        highlights={bookHighlights}
+        palette={palette}
+        sharedOffsets={usesLayout}
+        onSave={onEditHighlights}
+        onDelete={onDeleteHighlight}
+        onClose={() => setEditingHighlight(null)}
+      />
+
       {/* Settings sheet */}
       <Sheet open={showSettings} onOpenChange={setShowSettings}>
         <SheetContent side="right" className="w-[300px]">
@@ -1539,7 +5072,16 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
             <SheetDescription className="text-xs">Customize your reading experience</SheetDescription>
           </SheetHeader>
           <div className="mt-6 space-y-6">
-            {!isPdf && (
+            {isPdf && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="pdf-reflow" className="text-xs font-medium cursor-pointer">Reflow Text</Label>
+                  <p className="text-[10px] text-muted-foreground mt-0.5">Read the page as plain paragraphs</p>
+                </div>
+                <Switch id="pdf-reflow" checked={pdfReflow} onCheckedChange={setPdfReflow} />
+              </div>
+            )}
+            {(!isPdf || pdfReflow) && (
               <>
                 <div>
                   <Label className="text-xs font-medium mb-2 block">Font Family</Label>
@@ -1558,7 +5100,7 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
                 </div>
               </>
             )}
-            {isPdf && (
+            {isPdf && !pdfReflow && (
               <div>
                 <Label className="text-xs font-medium mb-2 block">PDF Zoom: {Math.round(pdfZoom * 100)}%</Label>
                 <Slider value={[pdfZoom * 100]} onValueChange={(v) => setPdfZoom(v[0] / 100)} min={50} max={300} step={5} />
@@ -1569,6 +5111,22 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
                 </div>
               </div>
             )}
+            {isPdf && !pdfReflow && (
+              <div>
+                <Label className="text-xs font-medium mb-2 block">Page Layout</Label>
+                <div className="flex gap-2">
+                  <Button variant={pdfLayout === 'single' ? 'default' : 'outline'} size="sm" onClick={() => setPdfLayout('single')} className="flex-1 text-xs">Single</Button>
+                  <Button variant={pdfLayout === 'continuous' ? 'default' : 'outline'} size="sm" onClick={() => setPdfLayout('continuous')} className="flex-1 text-xs">Scroll</Button>
+                  <Button variant={pdfLayout === 'spread' ? 'default' : 'outline'} size="sm" onClick={() => setPdfLayout('spread')} className="flex-1 text-xs">Spread</Button>
+                </div>
+                {pdfLayout === 'spread' && (
+                  <div className="flex items-center justify-between mt-3">
+                    <Label htmlFor="spread-cover" className="text-xs text-muted-foreground cursor-pointer">Show cover alone</Label>
+                    <Switch id="spread-cover" checked={spreadCoverAlone} onCheckedChange={setSpreadCoverAlone} />
+                  </div>
+                )}
+              </div>
+            )}
             <div>
               <Label className="text-xs font-medium mb-2 block">Reading Mode</Label>
               <div className="flex gap-2">
@@ -1585,7 +5143,7 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
                 <p>Type: {book.fileType.toUpperCase()}</p>
                 <p>Size: {formatFileSize(book.fileSize)}</p>
                 <p>{isPdf ? `Pages: ${book.totalPdfPages}` : `Sections: ${textPages.length}`}</p>
-                <p>Chapters: {Array.isArray(book.chapters) ? book.chapters.length : 0}</p>
+                <p>Chapters: {Array.isArray(book.chapters) ? flattenChapters(book.chapters).length : 0}</p>
               </div>
             </div>
           </div>
@@ -1595,53 +5153,1088 @@ function ReaderScreen({ book, books, onUpdateBook, highlights, onAddHighlight, c
   )
 }
 
+// ===== HIGHLIGHT EDITOR =====
+function normalizeTag(tag: string): string {
+  return tag.replace(/\s+/g, ' ').trim()
+}
+
+// Where a highlight sits for ordering against others in the same text or on the same page
+function highlightPosition(h: Highlight): number {
+  if (h.anchor) return h.anchor.start
+  const first = h.rects?.[0]
+  return first ? first.y * 10000 + first.x : 0
+}
+
+/**
+ * The nearest highlights before and after `h` it can merge with: text highlights whose
+ * passages overlap or nearly touch it, or other highlights on the same PDF page.
+ * `sharedOffsets` is set for books whose anchors all index the whole text (TXT/DOCX).
+ */
+function getAdjacentHighlights(h: Highlight, highlights: Highlight[], sharedOffsets: boolean): { previous: Highlight | null; next: Highlight | null } {
+  let previous: Highlight | null = null
+  let next: Highlight | null = null
+  const position = highlightPosition(h)
+  for (const other of highlights) {
+    if (other.id === h.id || other.bookId !== h.bookId) continue
+    const mergeable = h.rects && other.rects
+      ? other.pageIndex === h.pageIndex
+      : !!h.anchor && !!other.anchor && !h.rects && !other.rects && (sharedOffsets || other.pageIndex === h.pageIndex) && !!mergeTextAnchors(h.anchor, other.anchor)
+    if (!mergeable) continue
+    const otherPosition = highlightPosition(other)
+    if (otherPosition < position) {
+      if (!previous || otherPosition > highlightPosition(previous)) previous = other
+    } else if (!next || otherPosition < highlightPosition(next)) {
+      next = other
+    }
+  }
+  return { previous, next }
+}
+
+function mergeHighlights(h: Highlight, other: Highlight): Highlight | null {
+  const [first, second] = highlightPosition(h) <= highlightPosition(other) ? [h, other] : [other, h]
+  let passage: Pick<Highlight, 'text' | 'anchor' | 'rects' | 'quote'>
+  if (h.anchor && other.anchor) {
+    const anchor = mergeTextAnchors(h.anchor, other.anchor)
+    if (!anchor) return null
+    passage = { text: anchor.quote.exact.replace(/\s+/g, ' ').trim(), anchor }
+  } else if (h.rects && other.rects) {
+    // The quotes can't be joined without the text between them; the reflow view falls back to the text
+    passage = { text: `${first.text} ${second.text}`, rects: [...first.rects ?? [], ...second.rects ?? []], quote: undefined }
+  } else {
+    return null
+  }
+  return {
+    ...h,
+    ...passage,
+    note: [first.note, second.note].filter(Boolean).join('\n\n'),
+    tags: Array.from(new Set([...h.tags ?? [], ...other.tags ?? []])),
+    createdAt: first.createdAt < second.createdAt ? first.createdAt : second.createdAt,
+    updatedAt: new Date().toISOString(),
+  }
+}
+
+// Recolor, note, tags and the passage itself. Merges and splits are saved straight away
+function HighlightEditorDialog({ highlight, highlights, palette, sharedOffsets, onSave, onDelete, onClose }: {
+  highlight: Highlight | null
+  highlights: Highlight[]
+  palette: HighlightColor[]
+  sharedOffsets: boolean
+  onSave: (changed: Highlight[], removedIds: string[]) => void
+  onDelete: (id: string) => void
+  onClose: () => void
+}) {
+  const [color, setColor] = useState(highlight ? paletteColor(palette, highlight.color).id : '')
+  const [note, setNote] = useState(highlight?.note ?? '')
+  const [tags, setTags] = useState<string[]>(highlight?.tags ?? [])
+  const [tagInput, setTagInput] = useState('')
+  const [anchor, setAnchor] = useState<TextAnchor | undefined>(highlight?.anchor)
+  const [splitting, setSplitting] = useState(false)
+
+  const draft = useMemo<Highlight | null>(() => {
+    if (!highlight) return null
+    const edited = anchor && anchor !== highlight.anchor
+    return {
+      ...highlight,
+      color,
+      note,
+      tags,
+      anchor,
+      text: edited ? anchor.quote.exact.replace(/\s+/g, ' ').trim() : highlight.text,
+    }
+  }, [highlight, color, note, tags, anchor])
+
+  const { previous, next } = useMemo(
+    () => draft ? getAdjacentHighlights(draft, highlights, sharedOffsets) : { previous: null, next: null },
+    [draft, highlights, sharedOffsets]
+  )
+
+  const splitWords = useMemo(() => {
+    if (!anchor) return []
+    const points = [0, ...anchorSplitPoints(anchor), anchor.quote.exact.length]
+    return points.slice(0, -1).map((at, i) => ({ at, word: anchor.quote.exact.slice(at, points[i + 1]) }))
+  }, [anchor])
+
+  const addTag = useCallback((raw: string) => {
+    const tag = normalizeTag(raw)
+    if (tag && !tags.some(t => t.toLowerCase() === tag.toLowerCase())) setTags([...tags, tag])
+    setTagInput('')
+  }, [tags])
+
+  const adjust = useCallback((edge: 'start' | 'end', grow: boolean) => {
+    if (!anchor) return
+    const adjusted = adjustTextAnchor(anchor, edge, grow)
+    if (adjusted) setAnchor(adjusted)
+  }, [anchor])
+
+  const save = useCallback(() => {
+    if (!draft) return
+    const pending = normalizeTag(tagInput)
+    const finalTags = pending && !tags.some(t => t.toLowerCase() === pending.toLowerCase()) ? [...tags, pending] : tags
+    onSave([{ ...draft, tags: finalTags, updatedAt: new Date().toISOString() }], [])
+    onClose()
+  }, [draft, tagInput, tags, onSave, onClose])
+
+  const merge = useCallback((other: Highlight) => {
+    if (!draft) return
+    const merged = mergeHighlights(draft, other)
+    if (!merged) return
+    onSave([merged], [other.id])
+    onClose()
+  }, [draft, onSave, onClose])
+
+  const split = useCallback((at: number) => {
+    if (!draft?.anchor) return
+    const halves = splitTextAnchor(draft.anchor, at)
+    if (!halves) return
+    const now = new Date().toISOString()
+    const [head, tail] = halves
+    onSave([
+      { ...draft, anchor: head, text: head.quote.exact.replace(/\s+/g, ' ').trim(), updatedAt: now },
+      { ...draft, id: generateId(), anchor: tail, text: tail.quote.exact.replace(/\s+/g, ' ').trim(), note: '', updatedAt: now },
+    ], [])
+    onClose()
+  }, [draft, onSave, onClose])
+
+  return (
+    <Dialog open={!!highlight} onOpenChange={(o) => { if (!o) onClose() }}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-base">Edit Highlight</DialogTitle>
+          <DialogDescription className="text-xs">
+            {highlight && <>Created {new Date(highlight.createdAt).toLocaleDateString()}{highlight.updatedAt && <> · Edited {timeAgo(highlight.updatedAt)}</>}</>}
+          </DialogDescription>
+        </DialogHeader>
+        {draft && (
+          <div className="space-y-4">
+            <div className="p-2 rounded text-sm italic max-h-40 overflow-y-auto" style={{ backgroundColor: highlightFill(paletteColor(palette, color).hex) }}>
+              {splitting ? (
+                <span className="not-italic">
+                  {splitWords.map(({ at, word }) => (
+                    at === 0 ? <span key={at}>{word}</span> : (
+                      <button key={at} onClick={() => split(at)} className="rounded hover:bg-background/70 hover:ring-1 hover:ring-primary" title="Start the second highlight here">{word}</button>
+                    )
+                  ))}
+                </span>
+              ) : (
+                draft.text.length > 300 ? draft.text.substring(0, 300) + '...' : draft.text
+              )}
+            </div>
+
+            {draft.anchor && (
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <span className="mr-1">Start</span>
+                  <Button variant="outline" size="icon" className="h-6 w-6" onClick={() => adjust('start', true)} disabled={splitting || !adjustTextAnchor(draft.anchor, 'start', true)} title="Extend to the previous word"><FiChevronLeft className="w-3 h-3" /></Button>
+                  <Button variant="outline" size="icon" className="h-6 w-6" onClick={() => adjust('start', false)} disabled={splitting || !adjustTextAnchor(draft.anchor, 'start', false)} title="Shrink by a word"><FiChevronRight className="w-3 h-3" /></Button>
+                  <span className="ml-3 mr-1">End</span>
+                  <Button variant="outline" size="icon" className="h-6 w-6" onClick={() => adjust('end', false)} disabled={splitting || !adjustTextAnchor(draft.anchor, 'end', false)} title="Shrink by a word"><FiChevronLeft className="w-3 h-3" /></Button>
+                  <Button variant="outline" size="icon" className="h-6 w-6" onClick={() => adjust('end', true)} disabled={splitting || !adjustTextAnchor(draft.anchor, 'end', true)} title="Extend to the next word"><FiChevronRight className="w-3 h-3" /></Button>
+                </div>
+                <Button variant={splitting ? 'default' : 'outline'} size="sm" className="h-6 text-xs" onClick={() => setSplitting(!splitting)} disabled={splitWords.length < 2}>
+                  {splitting ? 'Cancel split' : 'Split'}
+                </Button>
+              </div>
+            )}
+            {splitting && <p className="text-[10px] text-muted-foreground -mt-2">Click the word the second highlight should start with</p>}
+
+            <div>
+              <Label className="text-xs font-medium mb-1.5 block">Color <span className="font-normal text-muted-foreground">· {paletteColor(palette, color).name}</span></Label>
+              <div className="flex gap-2 flex-wrap">
+                {palette.map((c) => (
+                  <button key={c.id} onClick={() => setColor(c.id)} className={cn("w-6 h-6 rounded-full border-2 border-white shadow-sm transition-transform hover:scale-110", color === c.id ? "ring-2 ring-primary ring-offset-1" : "")} style={{ backgroundColor: c.hex }} title={c.name} />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-xs font-medium mb-1.5 block">Note</Label>
+              <Tabs defaultValue="write">
+                <TabsList className="h-7">
+                  <TabsTrigger value="write" className="text-xs px-2 py-0.5">Write</TabsTrigger>
+                  <TabsTrigger value="preview" className="text-xs px-2 py-0.5">Preview</TabsTrigger>
+                </TabsList>
+                <TabsContent value="write">
+                  <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="Add a note (Markdown supported)..." rows={4} className="text-sm" />
+                </TabsContent>
+                <TabsContent value="preview">
+                  <div className="min-h-[88px] rounded-md border border-border p-2">
+                    {note.trim() ? renderMarkdown(note) : <p className="text-xs text-muted-foreground italic">Nothing to preview</p>}
+                  </div>
+                </TabsContent>
+              </Tabs>
+            </div>
+
+            <div>
+              <Label className="text-xs font-medium mb-1.5 block">Tags</Label>
+              <div className="flex flex-wrap items-center gap-1.5">
+                {tags.map(tag => (
+                  <Badge key={tag} variant="secondary" className="text-[10px] gap-1 pr-1">
+                    {tag}
+                    <button onClick={() => setTags(tags.filter(t => t !== tag))} className="rounded hover:bg-background/60" title={`Remove ${tag}`}><FiX className="w-2.5 h-2.5" /></button>
+                  </Badge>
+                ))}
+                <Input
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ',') {
+                      e.preventDefault()
+                      addTag(tagInput)
+                    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+                      setTags(tags.slice(0, -1))
+                    }
+                  }}
+                  onBlur={() => addTag(tagInput)}
+                  placeholder={tags.length === 0 ? 'Add tags...' : ''}
+                  className="h-7 text-xs flex-1 min-w-[80px]"
+                />
+              </div>
+            </div>
+
+            {(previous || next) && (
+              <div className="flex gap-2">
+                {previous && (
+                  <Button variant="outline" size="sm" className="flex-1 text-xs gap-1" onClick={() => merge(previous)} title={previous.text}>
+                    <FiChevronUp className="w-3 h-3" /> Merge with previous
+                  </Button>
+                )}
+                {next && (
+                  <Button variant="outline" size="sm" className="flex-1 text-xs gap-1" onClick={() => merge(next)} title={next.text}>
+                    <FiChevronDown className="w-3 h-3" /> Merge with next
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2 justify-between">
+              <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive gap-1" onClick={() => { onDelete(draft.id); onClose() }}>
+                <FiTrash2 className="w-3 h-3" /> Delete
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+                <Button size="sm" onClick={save}>Save</Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ===== BOOKMARK EDITOR =====
+function BookmarkEditorDialog({ bookmark, book, onSave, onDelete, onClose }: {
+  bookmark: Bookmark | null
+  book: Book | null
+  onSave: (bookmark: Bookmark) => void
+  onDelete: (id: string) => void
+  onClose: () => void
+}) {
+  const [label, setLabel] = useState(bookmark?.label ?? '')
+  const [note, setNote] = useState(bookmark?.note ?? '')
+
+  const save = useCallback(() => {
+    if (!bookmark) return
+    onSave({ ...bookmark, label: label.trim() || bookmark.label, note: note.trim() })
+    onClose()
+  }, [bookmark, label, note, onSave, onClose])
+
+  return (
+    <Dialog open={!!bookmark} onOpenChange={(o) => { if (!o) onClose() }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-base">Bookmark</DialogTitle>
+          <DialogDescription className="text-xs">
+            {bookmark && book && <>{book.title} · {getPositionLabel(book, bookmark.pageIndex)} · Added {new Date(bookmark.createdAt).toLocaleDateString()}</>}
+          </DialogDescription>
+        </DialogHeader>
+        {bookmark && (
+          <div className="space-y-4">
+            <div>
+              <Label className="text-xs font-medium mb-1.5 block">Name</Label>
+              <Input value={label} onChange={(e) => setLabel(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') save() }} className="text-sm" autoFocus />
+            </div>
+            <div>
+              <Label className="text-xs font-medium mb-1.5 block">Note</Label>
+              <Textarea value={note} onChange={(e) => setNote(e.target.value)} placeholder="Why this place matters (optional)..." rows={3} className="text-sm" />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Button variant="ghost" size="sm" onClick={() => { onDelete(bookmark.id); onClose() }} className="gap-1.5 text-xs text-destructive hover:text-destructive">
+                <FiTrash2 className="w-3 h-3" /> Delete
+              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+                <Button size="sm" onClick={save}>Save</Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ===== ANNOTATION EXPORT =====
+const ANNOTATION_EXPORT_FORMAT = 'bookshelf-annotations'
+const ANNOTATION_EXPORT_VERSION = 1
+
+type AnnotationExportFormat = 'markdown' | 'json' | 'csv' | 'obsidian'
+type AnnotationSortOrder = 'position' | 'newest' | 'oldest' | 'color'
+
+interface AnnotationExportOptions {
+  format: AnnotationExportFormat
+  sort: AnnotationSortOrder
+  includeNotes: boolean
+  includePages: boolean
+}
+
+// The JSON export: highlight records as stored, with enough of their books and colors to import them elsewhere
+// Exports without notes leave `note` out, so importing one never blanks a note
+type ExportedHighlight = Omit<Highlight, 'note'> & { note?: string }
+
+interface AnnotationExportFile {
+  format: string
+  formatVersion: number
+  exportedAt: string
+  books: { id: string; title: string; author: string; fileType: Book['fileType'] }[]
+  palette: HighlightColor[]
+  highlights: ExportedHighlight[]
+}
+
+const ANNOTATION_EXPORT_FORMATS: { value: AnnotationExportFormat; label: string; description: string }[] = [
+  { value: 'markdown', label: 'Markdown', description: 'One document, grouped by book and chapter' },
+  { value: 'obsidian', label: 'Obsidian', description: 'A zip with a note per book, with front matter and block references' },
+  { value: 'csv', label: 'CSV', description: 'A spreadsheet row per highlight' },
+  { value: 'json', label: 'JSON', description: 'Everything, for importing back into BookShelf' },
+]
+
+// Where a highlight is: a (printed) page of a PDF, otherwise the section it was made in
+function getHighlightLocation(book: Book | undefined, h: Highlight): string {
+  return book ? getPositionLabel(book, h.pageIndex) : `Section ${h.pageIndex + 1}`
+}
+
+function getHighlightChapter(book: Book | undefined, h: Highlight): Chapter | null {
+  if (!book) return null
+  return getChapterAt(book, h.pageIndex, h.anchor && usesTextOffsets(book) ? h.anchor.start : undefined)
+}
+
+function compareHighlights(a: Highlight, b: Highlight, sort: AnnotationSortOrder, palette: HighlightColor[]): number {
+  const byPosition = a.pageIndex - b.pageIndex || highlightPosition(a) - highlightPosition(b)
+  switch (sort) {
+    case 'newest': return b.createdAt.localeCompare(a.createdAt)
+    case 'oldest': return a.createdAt.localeCompare(b.createdAt)
+    case 'color': {
+      const colorIndex = (h: Highlight) => palette.indexOf(paletteColor(palette, h.color))
+      return colorIndex(a) - colorIndex(b) || byPosition
+    }
+    default: return byPosition
+  }
+}
+
+// Highlights by book (by title), each sorted as asked
+function groupHighlightsByBook(highlights: Highlight[], books: Book[], sort: AnnotationSortOrder, palette: HighlightColor[]): { book: Book | undefined; title: string; highlights: Highlight[] }[] {
+  const groups = new Map<string, Highlight[]>()
+  for (const h of highlights) groups.set(h.bookId, [...groups.get(h.bookId) ?? [], h])
+  return Array.from(groups.entries())
+    .map(([bookId, list]) => {
+      const book = books.find(b => b.id === bookId)
+      return { book, title: book?.title ?? 'Unknown Book', highlights: list.sort((a, b) => compareHighlights(a, b, sort, palette)) }
+    })
+    .sort((a, b) => a.title.localeCompare(b.title))
+}
+
+// A book's highlights by chapter, chapters in reading order; highlights before the first chapter come first
+function groupHighlightsByChapter(book: Book | undefined, highlights: Highlight[]): { chapter: Chapter | null; highlights: Highlight[] }[] {
+  const order = book ? flattenChapters(book.chapters) : []
+  const groups = new Map<Chapter | null, Highlight[]>()
+  for (const h of highlights) {
+    const chapter = getHighlightChapter(book, h)
+    groups.set(chapter, [...groups.get(chapter) ?? [], h])
+  }
+  return Array.from(groups.entries())
+    .map(([chapter, list]) => ({ chapter, highlights: list }))
+    .sort((a, b) => (a.chapter ? order.indexOf(a.chapter) : -1) - (b.chapter ? order.indexOf(b.chapter) : -1))
+}
+
+function markdownQuote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`).join('\n')
+}
+
+// Obsidian tags can't contain spaces
+function markdownTag(tag: string): string {
+  return '#' + tag.trim().replace(/\s+/g, '-')
+}
+
+function yamlString(value: string): string {
+  return JSON.stringify(value)
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// Sanitised for use as a file name on every platform
+function safeFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|#^[\]]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 100) || 'Untitled'
+}
+
+function highlightMeta(book: Book | undefined, h: Highlight, palette: HighlightColor[], options: AnnotationExportOptions): string {
+  return [
+    options.includePages ? getHighlightLocation(book, h) : '',
+    paletteColor(palette, h.color).name,
+    ...(h.tags ?? []).map(markdownTag),
+  ].filter(Boolean).join(' · ')
+}
+
+function buildMarkdownExport(highlights: Highlight[], books: Book[], palette: HighlightColor[], options: AnnotationExportOptions): string {
+  const lines = ['# Annotations', '', `Exported ${new Date().toLocaleDateString()} · ${highlights.length} highlight${highlights.length === 1 ? '' : 's'}`, '']
+  for (const group of groupHighlightsByBook(highlights, books, options.sort, palette)) {
+    lines.push(`## ${group.title}`, '')
+    if (group.book?.author) lines.push(`*${group.book.author}*`, '')
+    for (const { chapter, highlights: chapterHighlights } of groupHighlightsByChapter(group.book, group.highlights)) {
+      if (chapter) lines.push(`### ${chapter.title}`, '')
+      for (const h of chapterHighlights) {
+        lines.push(markdownQuote(h.text), '')
+        lines.push(`— ${highlightMeta(group.book, h, palette, options)}`, '')
+        if (options.includeNotes && h.note?.trim()) lines.push(h.note.trim(), '')
+      }
+    }
+  }
+  return lines.join('\n')
+}
+
+function buildCsvExport(highlights: Highlight[], books: Book[], palette: HighlightColor[], options: AnnotationExportOptions): string {
+  const header = ['Book', 'Author', 'Chapter', ...(options.includePages ? ['Location'] : []), 'Color', 'Tags', 'Highlight', ...(options.includeNotes ? ['Note'] : []), 'Created', 'Edited']
+  const rows = groupHighlightsByBook(highlights, books, options.sort, palette).flatMap(group => group.highlights.map(h => [
+    group.title,
+    group.book?.author ?? '',
+    getHighlightChapter(group.book, h)?.title ?? '',
+    ...(options.includePages ? [getHighlightLocation(group.book, h)] : []),
+    paletteColor(palette, h.color).name,
+    (h.tags ?? []).join('; '),
+    h.text,
+    ...(options.includeNotes ? [h.note ?? ''] : []),
+    h.createdAt,
+    h.updatedAt ?? '',
+  ]))
+  // Excel only reads the file as UTF-8 with a byte order mark
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n')
+}
+
+function buildJsonExport(highlights: Highlight[], books: Book[], palette: HighlightColor[], options: AnnotationExportOptions): string {
+  const sorted = groupHighlightsByBook(highlights, books, options.sort, palette).flatMap(group => group.highlights)
+  const bookIds = new Set(sorted.map(h => h.bookId))
+  const colorIds = new Set(sorted.map(h => h.color))
+  const file: AnnotationExportFile = {
+    format: ANNOTATION_EXPORT_FORMAT,
+    formatVersion: ANNOTATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    books: books.filter(b => bookIds.has(b.id)).map(b => ({ id: b.id, title: b.title, author: b.author, fileType: b.fileType })),
+    palette: palette.filter(c => colorIds.has(c.id)),
+    highlights: options.includeNotes ? sorted : sorted.map(({ note: _note, ...h }) => h),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+// One note per book in the shape Obsidian and Logseq expect: YAML front matter, then a
+// list item per highlight ending in a block id (^bs-<id>) that other notes can embed
+function buildObsidianNote(book: Book | undefined, title: string, highlights: Highlight[], palette: HighlightColor[], options: AnnotationExportOptions): string {
+  const lines = [
+    '---',
+    `title: ${yamlString(title)}`,
+    ...(book?.author ? [`author: ${yamlString(book.author)}`] : []),
+    ...(book ? [`format: ${book.fileType}`] : []),
+    `highlights: ${highlights.length}`,
+    `exported: ${new Date().toISOString().slice(0, 10)}`,
+    'source: BookShelf',
+    'tags: [book-notes]',
+    '---',
+    '',
+    `# ${title}`,
+    '',
+  ]
+  for (const { chapter, highlights: chapterHighlights } of groupHighlightsByChapter(book, highlights)) {
+    if (chapter) lines.push(`## ${chapter.title}`, '')
+    for (const h of chapterHighlights) {
+      lines.push(`- ${h.text.replace(/\s*\n\s*/g, ' ')} ^bs-${h.id}`)
+      lines.push(`  - ${highlightMeta(book, h, palette, options)}`)
+      if (options.includeNotes && h.note?.trim()) {
+        const [first, ...rest] = h.note.trim().split('\n')
+        lines.push(`  - ${first}`, ...rest.map(line => `    ${line}`))
+      }
+    }
+    lines.push('')
+  }
+  return lines.join('\n')
+}
+
+async function buildAnnotationExport(highlights: Highlight[], books: Book[], palette: HighlightColor[], options: AnnotationExportOptions): Promise<{ blob: Blob; fileName: string }> {
+  const baseName = `bookshelf-annotations-${new Date().toISOString().slice(0, 10)}`
+  switch (options.format) {
+    case 'json':
+      return { blob: new Blob([buildJsonExport(highlights, books, palette, options)], { type: 'application/json' }), fileName: `${baseName}.json` }
+    case 'csv':
+      return { blob: new Blob([buildCsvExport(highlights, books, palette, options)], { type: 'text/csv' }), fileName: `${baseName}.csv` }
+    case 'obsidian': {
+      const JSZip = await loadJSZip()
+      const zip = new JSZip()
+      const taken = new Set<string>()
+      for (const group of groupHighlightsByBook(highlights, books, options.sort, palette)) {
+        // Books can share a title; keep every note
+        let name = safeFileName(group.title)
+        for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${safeFileName(group.title)} (${n})`
+        taken.add(name.toLowerCase())
+        zip.file(`${name}.md`, buildObsidianNote(group.book, group.title, group.highlights, palette, options))
+      }
+      return { blob: await zip.generateAsync({ type: 'blob' }), fileName: `${baseName}.zip` }
+    }
+    default:
+      return { blob: new Blob([buildMarkdownExport(highlights, books, palette, options)], { type: 'text/markdown' }), fileName: `${baseName}.md` }
+  }
+}
+
+// Reads a JSON annotation export back, dropping records it can't use
+function parseAnnotationExport(text: string): AnnotationExportFile {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Not a JSON file')
+  }
+  if (data?.format !== ANNOTATION_EXPORT_FORMAT) throw new Error('Not a BookShelf annotation export')
+  if (typeof data.formatVersion !== 'number' || data.formatVersion > ANNOTATION_EXPORT_VERSION) {
+    throw new Error('This export was made by a newer version of BookShelf')
+  }
+  const isString = (v: unknown): v is string => typeof v === 'string'
+  return {
+    format: data.format,
+    formatVersion: data.formatVersion,
+    exportedAt: isString(data.exportedAt) ? data.exportedAt : '',
+    books: (Array.isArray(data.books) ? data.books : []).filter((b: any) => isString(b?.id) && isString(b?.title)),
+    palette: (Array.isArray(data.palette) ? data.palette : []).filter((c: any) => isString(c?.id) && isString(c?.name) && isString(c?.hex)),
+    highlights: (Array.isArray(data.highlights) ? data.highlights : [])
+      .filter((h: any) => isString(h?.id) && isString(h?.bookId) && isString(h?.text) && typeof h?.pageIndex === 'number')
+      .map((h: any) => ({ ...h, color: isString(h.color) ? h.color : '', note: isString(h.note) ? h.note : undefined, createdAt: isString(h.createdAt) ? h.createdAt : new Date().toISOString() })),
+  }
+}
+
+function AnnotationExportDialog({ open, highlights, books, palette, onClose }: {
+  open: boolean
+  // The highlights to export: those the annotations screen's filter lets through
+  highlights: Highlight[]
+  books: Book[]
+  palette: HighlightColor[]
+  onClose: () => void
+}) {
+  const [options, setOptions] = useState<AnnotationExportOptions>({ format: 'markdown', sort: 'position', includeNotes: true, includePages: true })
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState('')
+
+  const handleExport = useCallback(async () => {
+    setExporting(true)
+    setError('')
+    try {
+      const { blob, fileName } = await buildAnnotationExport(highlights, books, palette, options)
+      downloadBlob(blob, fileName)
+      onClose()
+    } catch (err: any) {
+      setError(err?.message || 'Export failed')
+    } finally {
+      setExporting(false)
+    }
+  }, [highlights, books, palette, options, onClose])
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose() }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-base">Export Annotations</DialogTitle>
+          <DialogDescription className="text-xs">{highlights.length} highlight{highlights.length === 1 ? '' : 's'} matching the current filters</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            {ANNOTATION_EXPORT_FORMATS.map(f => (
+              <button key={f.value} onClick={() => setOptions(prev => ({ ...prev, format: f.value }))} className={cn("w-full text-left rounded-md border px-3 py-2 transition-colors", options.format === f.value ? "border-primary bg-primary/5" : "border-border hover:bg-secondary")}>
+                <p className="text-xs font-medium text-foreground">{f.label}</p>
+                <p className="text-[10px] text-muted-foreground">{f.description}</p>
+              </button>
+            ))}
+          </div>
+          <div>
+            <Label className="text-xs font-medium mb-1.5 block">Sort</Label>
+            <select value={options.sort} onChange={(e) => setOptions(prev => ({ ...prev, sort: e.target.value as AnnotationSortOrder }))} className="w-full text-xs border border-border rounded-md px-2 py-1.5 bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring">
+              <option value="position">Reading order</option>
+              <option value="newest">Newest first</option>
+              <option value="oldest">Oldest first</option>
+              <option value="color">By color</option>
+            </select>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-notes" className="text-xs cursor-pointer">Include notes</Label>
+            <Switch id="export-notes" checked={options.includeNotes} onCheckedChange={(v) => setOptions(prev => ({ ...prev, includeNotes: v }))} />
+          </div>
+          {options.format !== 'json' && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="export-pages" className="text-xs cursor-pointer">Include page numbers</Label>
+              <Switch id="export-pages" checked={options.includePages} onCheckedChange={(v) => setOptions(prev => ({ ...prev, includePages: v }))} />
+            </div>
+          )}
+          {error && <p className="text-xs text-destructive">{error}</p>}
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+            <Button size="sm" onClick={handleExport} disabled={exporting || highlights.length === 0} className="gap-1.5">
+              {exporting ? <FiLoader className="w-3 h-3 animate-spin" /> : <FiDownload className="w-3 h-3" />} Export
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// ===== ANNOTATION IMPORT =====
+// A highlight read from another app's export, or a record from this app's JSON export
+interface ImportedAnnotation extends ClippingEntry {
+  record?: ExportedHighlight
+}
+
+// Imported highlights of one source book, and the library book they go to ('' to skip them)
+interface AnnotationImportGroup {
+  key: string
+  title: string
+  author: string
+  entries: ImportedAnnotation[]
+  bookId: string
+}
+
+interface PendingAnnotationImport {
+  fileName: string
+  format: string
+  groups: AnnotationImportGroup[]
+  // Colors used by a JSON export, added to the palette when missing
+  palette: HighlightColor[]
+  skipped: number
+}
+
+// The library book an imported title belongs to: the same id, the same title (and author,
+// when both have one), or a title that one of them extends with a subtitle
+function matchImportedBook(title: string, author: string, books: Book[], sourceBookId?: string): string {
+  if (sourceBookId && books.some(b => b.id === sourceBookId)) return sourceBookId
+  const wanted = normalizeForMatch(title)
+  const wantedAuthor = normalizeForMatch(author)
+  if (!wanted) return ''
+  const sameAuthor = (b: Book) => !wantedAuthor || !b.author || normalizeForMatch(b.author) === wantedAuthor
+  const exact = books.find(b => normalizeForMatch(b.title) === wanted && sameAuthor(b))
+  if (exact) return exact.id
+  const mainTitle = (t: string) => normalizeForMatch(t.split(/[:(\[]/)[0])
+  const partial = books.find(b => sameAuthor(b) && mainTitle(b.title) && mainTitle(b.title) === mainTitle(title))
+  return partial?.id ?? ''
+}
+
+async function readAnnotationImport(file: File, books: Book[]): Promise<PendingAnnotationImport> {
+  const text = await file.text()
+  const name = file.name.toLowerCase()
+  let entries: (ImportedAnnotation & { sourceBookId?: string })[]
+  let palette: HighlightColor[] = []
+  let skipped = 0
+  let format: string
+
+  if (name.endsWith('.json') || text.trimStart().startsWith('{')) {
+    const data = parseAnnotationExport(text)
+    palette = data.palette
+    format = 'BookShelf JSON'
+    entries = data.highlights.map((h) => {
+      const book = data.books.find(b => b.id === h.bookId)
+      return { title: book?.title ?? '', author: book?.author ?? '', text: h.text, note: h.note ?? '', tags: h.tags ?? [], record: h, sourceBookId: h.bookId }
+    })
+  } else if (name.endsWith('.csv')) {
+    format = 'CSV'
+    entries = parseClippingsCsv(text)
+  } else {
+    format = 'Kindle clippings'
+    const parsed = parseKindleClippings(text)
+    entries = parsed.entries
+    skipped = parsed.skipped
+  }
+
+  const groups = new Map<string, AnnotationImportGroup>()
+  for (const { sourceBookId, ...entry } of entries) {
+    const key = sourceBookId ?? `${normalizeForMatch(entry.title)}|${normalizeForMatch(entry.author)}`
+    const group = groups.get(key)
+    if (group) {
+      group.entries.push(entry)
+      continue
+    }
+    groups.set(key, { key, title: entry.title || 'Untitled', author: entry.author, entries: [entry], bookId: matchImportedBook(entry.title, entry.author, books, sourceBookId) })
+  }
+  return { fileName: file.name, format, groups: Array.from(groups.values()), palette, skipped }
+}
+
+// A highlight exported from this library coming back: the newer of the two versions wins,
+// and an export without notes keeps the local note
+function mergeImportedHighlight(local: Highlight, record: ExportedHighlight): Highlight | null {
+  const editedAt = (h: { createdAt: string; updatedAt?: string }) => h.updatedAt ?? h.createdAt
+  if (editedAt(local) >= editedAt(record)) return null
+  return { ...local, ...record, note: record.note ?? local.note }
+}
+
+/**
+ * The highlights a group adds to `book`. Clippings are placed on the page where their
+ * passage is found in the book text, and take the book's own wording of it; records of
+ * a JSON export keep their position. Passages the book already has are left out. A record
+ * replaces its earlier copy only when its edit time is newer, and one from an export
+ * without notes keeps the local note.
+ */
+function buildImportedHighlights(entries: ImportedAnnotation[], book: Book, pageTexts: string[], existing: Highlight[], palette: HighlightColor[]): { highlights: Highlight[]; duplicates: number; unlocated: number } {
+  const index = indexPassages(pageTexts)
+  const seen = new Set(existing.filter(h => h.bookId === book.id).map(h => normalizeForMatch(h.text)))
+  const existingById = new Map(existing.map(h => [h.id, h]))
+  const highlights: Highlight[] = []
+  let duplicates = 0
+  let unlocated = 0
+
+  for (const entry of entries) {
+    const key = normalizeForMatch(entry.text)
+    if (!key) continue
+    if (entry.record) {
+      const record = { ...entry.record, bookId: book.id, color: paletteColor(palette, entry.record.color).id }
+      const local = existingById.get(record.id)
+      if (local) {
+        const merged = mergeImportedHighlight(local, record)
+        if (merged) highlights.push(merged)
+        else duplicates++
+        continue
+      }
+      if (seen.has(key)) {
+        duplicates++
+        continue
+      }
+      seen.add(key)
+      highlights.push({ ...record, note: record.note ?? '' })
+      continue
+    }
+    if (seen.has(key)) {
+      duplicates++
+      continue
+    }
+    seen.add(key)
+
+    const hint = entry.page !== undefined ? entry.page - 1 : undefined
+    const found = findPassage(index, entry.text, hint)
+    if (!found) unlocated++
+    const lastPage = Math.max(0, (book.fileType === 'pdf' ? book.totalPdfPages : pageTexts.length) - 1)
+    const color = palette.find(c => c.id === entry.color || c.name.toLowerCase() === entry.color?.toLowerCase()) ?? palette[0]
+    highlights.push({
+      id: generateId(),
+      bookId: book.id,
+      text: found ? pageTexts[found.pageIndex].slice(found.start, found.end) : entry.text.replace(/\s+/g, ' ').trim(),
+      color: color?.id ?? DEFAULT_HIGHLIGHT_PALETTE[0].id,
+      note: entry.note,
+      tags: entry.tags,
+      pageIndex: found ? found.pageIndex : Math.min(Math.max(hint ?? 0, 0), lastPage),
+      createdAt: entry.addedAt ?? new Date().toISOString(),
+    })
+  }
+  return { highlights, duplicates, unlocated }
+}
+
+// Review step: which library book each imported title goes to
+function AnnotationImportDialog({ pending, books, onConfirm, onClose }: {
+  pending: PendingAnnotationImport | null
+  books: Book[]
+  onConfirm: (pending: PendingAnnotationImport) => void
+  onClose: () => void
+}) {
+  const [bookIds, setBookIds] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    setBookIds(pending ? Object.fromEntries(pending.groups.map(g => [g.key, g.bookId])) : {})
+  }, [pending])
+
+  const importCount = pending?.groups.reduce((n, g) => n + (bookIds[g.key] ? g.entries.length : 0), 0) ?? 0
+  const sortedBooks = useMemo(() => [...books].sort((a, b) => a.title.localeCompare(b.title)), [books])
+
+  return (
+    <Dialog open={!!pending} onOpenChange={(o) => { if (!o) onClose() }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-base">Import Highlights</DialogTitle>
+          <DialogDescription className="text-xs">
+            {pending && <>{pending.format} from {pending.fileName}{pending.skipped > 0 && <> · {pending.skipped} bookmark{pending.skipped === 1 ? '' : 's'} or loose note{pending.skipped === 1 ? '' : 's'} left out</>}</>}
+          </DialogDescription>
+        </DialogHeader>
+        {pending && (
+          <div className="space-y-3">
+            {pending.groups.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No highlights found in this file</p>
+            ) : (
+              <ScrollArea className="max-h-80">
+                <div className="space-y-2 pr-3">
+                  {pending.groups.map(g => (
+                    <div key={g.key} className="rounded-md border border-border p-2.5">
+                      <div className="flex items-start justify-between gap-2 mb-1.5">
+                        <div className="min-w-0">
+                          <p className="text-xs font-medium text-foreground truncate">{g.title}</p>
+                          <p className="text-[10px] text-muted-foreground truncate">{g.author || 'Unknown author'} · {g.entries.length} highlight{g.entries.length === 1 ? '' : 's'}</p>
+                        </div>
+                        {!g.bookId && <Badge variant="outline" className="text-[9px] flex-shrink-0">No match</Badge>}
+                      </div>
+                      <select value={bookIds[g.key] ?? ''} onChange={(e) => setBookIds(prev => ({ ...prev, [g.key]: e.target.value }))} className="w-full text-xs border border-border rounded-md px-2 py-1.5 bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring">
+                        <option value="">Don&apos;t import</option>
+                        {sortedBooks.map(b => <option key={b.id} value={b.id}>{b.title}{b.author ? ` — ${b.author}` : ''}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+              <Button size="sm" disabled={importCount === 0} onClick={() => onConfirm({ ...pending, groups: pending.groups.map(g => ({ ...g, bookId: bookIds[g.key] ?? '' })) })}>
+                Import {importCount} highlight{importCount === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
 // ===== ANNOTATIONS SCREEN =====
-function AnnotationsScreen({ highlights, books, onDeleteHighlight, onJumpToHighlight, onExport }: {
+const DEFAULT_ANNOTATION_FILTER: AnnotationFilter = { bookId: 'all', color: 'all', tag: 'all', from: '', to: '', hasNote: 'any', query: '' }
+
+// Calendar day of a timestamp in local time, comparable with date input values
+function localDay(iso: string): string {
+  const d = new Date(iso)
+  if (isNaN(d.getTime())) return ''
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+function filterHighlights(highlights: Highlight[], filter: AnnotationFilter, palette: HighlightColor[]): Highlight[] {
+  const tag = filter.tag.toLowerCase()
+  const q = filter.query.trim().toLowerCase()
+  return highlights.filter((h) => {
+    if (filter.bookId !== 'all' && h.bookId !== filter.bookId) return false
+    if (filter.color !== 'all' && paletteColor(palette, h.color).id !== filter.color) return false
+    if (filter.tag !== 'all' && !(h.tags ?? []).some(t => t.toLowerCase() === tag)) return false
+    if (filter.from || filter.to) {
+      const day = localDay(h.createdAt)
+      if (filter.from && day < filter.from) return false
+      if (filter.to && day > filter.to) return false
+    }
+    if (filter.hasNote !== 'any' && !!h.note?.trim() !== (filter.hasNote === 'yes')) return false
+    if (q && !h.text.toLowerCase().includes(q) && !(h.note ?? '').toLowerCase().includes(q) && !(h.tags ?? []).some(t => t.toLowerCase().includes(q))) return false
+    return true
+  })
+}
+
+function sameFilter(a: AnnotationFilter, b: AnnotationFilter): boolean {
+  return (Object.keys(DEFAULT_ANNOTATION_FILTER) as (keyof AnnotationFilter)[]).every(key => a[key] === b[key])
+}
+
+// Rename, recolor, add and remove palette colors. Highlights of a removed color move to the first one
+function HighlightPaletteDialog({ open, palette, highlights, onSave, onClose }: {
+  open: boolean
+  palette: HighlightColor[]
+  highlights: Highlight[]
+  onSave: (palette: HighlightColor[]) => void
+  onClose: () => void
+}) {
+  const [draft, setDraft] = useState<HighlightColor[]>(palette)
+
+  useEffect(() => {
+    if (open) setDraft(palette)
+  }, [open, palette])
+
+  const usage = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const h of highlights) counts.set(h.color, (counts.get(h.color) ?? 0) + 1)
+    return counts
+  }, [highlights])
+
+  const updateColor = (id: string, changes: Partial<HighlightColor>) => {
+    setDraft(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c))
+  }
+
+  const canSave = draft.length > 0 && draft.every(c => c.name.trim())
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => { if (!o) onClose() }}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-serif text-base">Highlight Colors</DialogTitle>
+          <DialogDescription className="text-xs">Name colors after what they mean to you, like &ldquo;definition&rdquo; or &ldquo;disagree&rdquo;</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {draft.map(c => (
+            <div key={c.id} className="flex items-center gap-2">
+              <input type="color" value={c.hex} onChange={(e) => updateColor(c.id, { hex: e.target.value })} className="w-7 h-7 rounded cursor-pointer border border-border bg-transparent p-0.5 flex-shrink-0" title="Pick a color" />
+              <Input value={c.name} onChange={(e) => updateColor(c.id, { name: e.target.value })} placeholder="Name" className="h-7 text-xs flex-1" />
+              <span className="text-[10px] text-muted-foreground w-8 text-right flex-shrink-0">{usage.get(c.id) ?? 0}</span>
+              <button onClick={() => setDraft(prev => prev.filter(x => x.id !== c.id))} disabled={draft.length <= 1} className="p-1 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors disabled:opacity-30 disabled:pointer-events-none flex-shrink-0" title={usage.get(c.id) ? `Remove (its highlights become ${draft.find(x => x.id !== c.id)?.name ?? 'the first color'})` : 'Remove'}>
+                <FiTrash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" className="w-full gap-1.5 text-xs" onClick={() => setDraft(prev => [...prev, { id: generateId(), name: 'New color', hex: '#c4b5fd' }])}>
+            <FiPlus className="w-3 h-3" /> Add Color
+          </Button>
+        </div>
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" size="sm" onClick={onClose}>Cancel</Button>
+          <Button size="sm" disabled={!canSave} onClick={() => { onSave(draft.map(c => ({ ...c, name: c.name.trim() }))); onClose() }}>Save</Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function AnnotationsScreen({ highlights, books, palette, views, onDeleteHighlight, onEditHighlights, onJumpToHighlight, onImport, onSavePalette, onSaveView, onDeleteView }: {
   highlights: Highlight[]
   books: Book[]
+  palette: HighlightColor[]
+  views: AnnotationView[]
   onDeleteHighlight: (id: string) => void
+  onEditHighlights: (changed: Highlight[], removedIds: string[]) => void
   onJumpToHighlight: (h: Highlight) => void
-  onExport: () => void
+  // Adds a reviewed import and describes the outcome
+  onImport: (pending: PendingAnnotationImport) => Promise<string>
+  onSavePalette: (palette: HighlightColor[]) => void
+  onSaveView: (view: AnnotationView) => void
+  onDeleteView: (id: string) => void
 }) {
-  const [filterBook, setFilterBook] = useState('all')
-  const [filterColor, setFilterColor] = useState('all')
-  const [searchQuery, setSearchQuery] = useState('')
+  const [editingHighlight, setEditingHighlight] = useState<Highlight | null>(null)
+  const [filter, setFilter] = useState<AnnotationFilter>(DEFAULT_ANNOTATION_FILTER)
+  const [showPalette, setShowPalette] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [importStatus, setImportStatus] = useState('')
+  const [pendingImport, setPendingImport] = useState<PendingAnnotationImport | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  // Name of the view being saved, while its input is open
+  const [viewName, setViewName] = useState<string | null>(null)
+
+  const updateFilter = useCallback((changes: Partial<AnnotationFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }))
+  }, [])
 
   const filteredHighlights = useMemo(() => {
-    let result = [...highlights]
-    if (filterBook !== 'all') result = result.filter(h => h.bookId === filterBook)
-    if (filterColor !== 'all') result = result.filter(h => h.color === filterColor)
-    if (searchQuery.trim()) {
-      const q = searchQuery.toLowerCase()
-      result = result.filter(h => h.text.toLowerCase().includes(q) || (h.note ?? '').toLowerCase().includes(q))
-    }
+    const result = filterHighlights(highlights, filter, palette)
     result.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
     return result
-  }, [highlights, filterBook, filterColor, searchQuery])
+  }, [highlights, filter, palette])
+
+  // Every tag in use, spelled as it was first written
+  const allTags = useMemo(() => {
+    const tags = new Map<string, string>()
+    for (const h of highlights) {
+      for (const tag of h.tags ?? []) if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag)
+    }
+    return Array.from(tags.values()).sort((a, b) => a.localeCompare(b))
+  }, [highlights])
+
+  const activeView = views.find(v => sameFilter(v.filter, filter)) ?? null
+  const isFiltered = !sameFilter(filter, DEFAULT_ANNOTATION_FILTER)
+
+  const saveView = useCallback(() => {
+    const name = viewName?.trim()
+    if (!name) return
+    onSaveView({ id: generateId(), name, filter, createdAt: new Date().toISOString() })
+    setViewName(null)
+  }, [viewName, filter, onSaveView])
 
   const getBookTitle = useCallback((bookId: string) => {
     return books.find(b => b.id === bookId)?.title ?? 'Unknown Book'
   }, [books])
 
+  const handleImportFile = useCallback(async (file: File) => {
+    setImportStatus('Reading file...')
+    try {
+      setPendingImport(await readAnnotationImport(file, books))
+      setImportStatus('')
+    } catch (err: any) {
+      setImportStatus(`Import failed: ${err?.message || 'Unknown error'}`)
+    }
+  }, [books])
+
+  const handleConfirmImport = useCallback(async (pending: PendingAnnotationImport) => {
+    setPendingImport(null)
+    setImportStatus('Importing...')
+    try {
+      setImportStatus(await onImport(pending))
+    } catch (err: any) {
+      setImportStatus(`Import failed: ${err?.message || 'Unknown error'}`)
+    }
+  }, [onImport])
+
   return (
     <div className="flex-1 flex overflow-hidden">
       {/* Filter sidebar */}
       <div className="w-56 border-r border-border bg-card p-4 flex-shrink-0 overflow-y-auto hidden md:block">
-        <h3 className="font-serif font-semibold text-sm mb-4 text-foreground">Filters</h3>
+        {views.length > 0 && (
+          <>
+            <h3 className="font-serif font-semibold text-sm mb-2 text-foreground">Saved Views</h3>
+            <div className="space-y-0.5 mb-4">
+              {views.map(v => (
+                <div key={v.id} className="group flex items-center gap-1">
+                  <button onClick={() => setFilter(v.filter)} className={cn("flex-1 min-w-0 text-left text-xs px-2 py-1.5 rounded truncate transition-colors", activeView?.id === v.id ? "bg-primary/10 text-primary font-medium" : "text-muted-foreground hover:bg-secondary hover:text-foreground")}>
+                    {v.name}
+                  </button>
+                  <button onClick={() => onDeleteView(v.id)} className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-all" title="Delete view">
+                    <FiX className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-serif font-semibold text-sm text-foreground">Filters</h3>
+          {isFiltered && (
+            <button onClick={() => setFilter(DEFAULT_ANNOTATION_FILTER)} className="text-[10px] text-muted-foreground hover:text-foreground transition-colors">Clear</button>
+          )}
+        </div>
         <div className="space-y-4">
           <div>
-            <Label className="text-xs font-medium mb-1.5 block">Book</Label>
-            <select value={filterBook} onChange={(e) => setFilterBook(e.target.value)} className="w-full text-xs border border-border rounded-md px-2 py-1.5 bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring">
-              <option value="all">All Books</option>
-              {books.map(b => <option key={b.id} value={b.id}>{b.title}</option>)}
+            <Label className="text-xs font-medium mb-1.5 block">Book</Label>
+            <select value={filter.bookId} onChange={(e) => updateFilter({ bookId: e.target.value })} className="w-full text-xs border border-border rounded-md px-2 py-1.5 bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring">
+              <option value="all">All Books</option>
+              {books.map(b => <option key={b.id} value={b.id}>{b.title}</option>)}
+            </select>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-1.5">
+              <Label className="text-xs font-medium">Color</Label>
+              <button onClick={() => setShowPalette(true)} className="text-[10px] text-muted-foreground hover:text-foreground transition-colors">Edit</button>
+            </div>
+            <div className="flex gap-2 flex-wrap">
+              <button onClick={() => updateFilter({ color: 'all' })} className={cn("w-6 h-6 rounded-full border-2 transition-transform hover:scale-110", filter.color === 'all' ? "ring-2 ring-primary ring-offset-1" : "")} style={{ background: `linear-gradient(135deg, ${palette.map(c => c.hex).join(', ')})` }} title="All" />
+              {palette.map((c) => (
+                <button key={c.id} onClick={() => updateFilter({ color: filter.color === c.id ? 'all' : c.id })} className={cn("w-6 h-6 rounded-full border-2 border-white shadow-sm transition-transform hover:scale-110", filter.color === c.id ? "ring-2 ring-primary ring-offset-1" : "")} style={{ backgroundColor: c.hex }} title={c.name} />
+              ))}
+            </div>
+            {filter.color !== 'all' && <p className="text-[10px] text-muted-foreground mt-1">{paletteColor(palette, filter.color).name}</p>}
+          </div>
+          <div>
+            <Label className="text-xs font-medium mb-1.5 block">Tag</Label>
+            <select value={filter.tag} onChange={(e) => updateFilter({ tag: e.target.value })} className="w-full text-xs border border-border rounded-md px-2 py-1.5 bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring" disabled={allTags.length === 0 && filter.tag === 'all'}>
+              <option value="all">{allTags.length === 0 ? 'No tags yet' : 'All Tags'}</option>
+              {filter.tag !== 'all' && !allTags.some(t => t.toLowerCase() === filter.tag.toLowerCase()) && <option value={filter.tag}>{filter.tag}</option>}
+              {allTags.map(t => <option key={t} value={t}>{t}</option>)}
             </select>
           </div>
           <div>
-            <Label className="text-xs font-medium mb-1.5 block">Color</Label>
-            <div className="flex gap-2 flex-wrap">
-              <button onClick={() => setFilterColor('all')} className={cn("w-6 h-6 rounded-full border-2 transition-transform hover:scale-110 bg-gradient-to-br from-yellow-300 via-green-300 to-blue-300", filterColor === 'all' ? "ring-2 ring-primary ring-offset-1" : "")} title="All" />
-              {(['yellow', 'green', 'blue', 'pink'] as const).map((c) => (
-                <button key={c} onClick={() => setFilterColor(filterColor === c ? 'all' : c)} className={cn("w-6 h-6 rounded-full border-2 border-white shadow-sm transition-transform hover:scale-110", c === 'yellow' ? 'bg-yellow-300' : c === 'green' ? 'bg-green-300' : c === 'blue' ? 'bg-blue-300' : 'bg-pink-300', filterColor === c ? "ring-2 ring-primary ring-offset-1" : "")} title={c} />
+            <Label className="text-xs font-medium mb-1.5 block">Created</Label>
+            <div className="space-y-1.5">
+              <Input type="date" value={filter.from} max={filter.to || undefined} onChange={(e) => updateFilter({ from: e.target.value })} className="h-7 text-xs bg-background" aria-label="From" />
+              <Input type="date" value={filter.to} min={filter.from || undefined} onChange={(e) => updateFilter({ to: e.target.value })} className="h-7 text-xs bg-background" aria-label="To" />
+            </div>
+          </div>
+          <div>
+            <Label className="text-xs font-medium mb-1.5 block">Note</Label>
+            <div className="flex gap-1">
+              {([['any', 'Any'], ['yes', 'With'], ['no', 'Without']] as const).map(([value, label]) => (
+                <Button key={value} variant={filter.hasNote === value ? 'default' : 'outline'} size="sm" onClick={() => updateFilter({ hasNote: value })} className="flex-1 h-7 text-xs px-1">{label}</Button>
               ))}
             </div>
           </div>
@@ -1649,14 +6242,51 @@ function AnnotationsScreen({ highlights, books, onDeleteHighlight, onJumpToHighl
             <Label className="text-xs font-medium mb-1.5 block">Search</Label>
             <div className="relative">
               <FiSearch className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-muted-foreground" />
-              <Input value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} placeholder="Search notes..." className="h-7 text-xs pl-7 bg-background" />
+              <Input value={filter.query} onChange={(e) => updateFilter({ query: e.target.value })} placeholder="Search notes..." className="h-7 text-xs pl-7 bg-background" />
             </div>
           </div>
+          {viewName === null ? (
+            <Button variant="ghost" size="sm" onClick={() => setViewName('')} className="w-full gap-1.5 text-xs" disabled={!isFiltered || !!activeView}>
+              <FiPlus className="w-3 h-3" /> Save as View
+            </Button>
+          ) : (
+            <div className="flex gap-1">
+              <Input
+                autoFocus
+                value={viewName}
+                onChange={(e) => setViewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') saveView()
+                  if (e.key === 'Escape') setViewName(null)
+                }}
+                placeholder="View name"
+                className="h-7 text-xs bg-background"
+              />
+              <Button size="sm" onClick={saveView} disabled={!viewName.trim()} className="h-7 px-2"><FiCheck className="w-3 h-3" /></Button>
+            </div>
+          )}
         </div>
         <Separator className="my-4" />
-        <Button variant="outline" size="sm" onClick={onExport} className="w-full gap-1.5 text-xs" disabled={highlights.length === 0}>
-          <FiDownload className="w-3 h-3" /> Export All
-        </Button>
+        <div className="space-y-2">
+          <Button variant="outline" size="sm" onClick={() => setShowExport(true)} className="w-full gap-1.5 text-xs" disabled={filteredHighlights.length === 0}>
+            <FiDownload className="w-3 h-3" /> {isFiltered ? 'Export Filtered' : 'Export All'}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => importInputRef.current?.click()} className="w-full gap-1.5 text-xs">
+            <FiUpload className="w-3 h-3" /> Import
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".txt,.csv,.json,text/plain,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleImportFile(file)
+              e.target.value = ''
+            }}
+          />
+          {importStatus && <p className="text-[10px] text-muted-foreground">{importStatus}</p>}
+        </div>
       </div>
 
       {/* Annotation cards */}
@@ -1664,10 +6294,10 @@ function AnnotationsScreen({ highlights, books, onDeleteHighlight, onJumpToHighl
         <div className="max-w-3xl mx-auto p-6">
           <div className="flex items-center justify-between mb-6">
             <div>
-              <h2 className="font-serif font-semibold text-lg text-foreground">Annotations & Notes</h2>
+              <h2 className="font-serif font-semibold text-lg text-foreground">{activeView ? activeView.name : 'Annotations & Notes'}</h2>
               <p className="text-xs text-muted-foreground mt-0.5">{filteredHighlights.length} highlight{filteredHighlights.length !== 1 ? 's' : ''}</p>
             </div>
-            <Button variant="outline" size="sm" onClick={onExport} className="gap-1.5 text-xs md:hidden" disabled={highlights.length === 0}>
+            <Button variant="outline" size="sm" onClick={() => setShowExport(true)} className="gap-1.5 text-xs md:hidden" disabled={filteredHighlights.length === 0}>
               <FiDownload className="w-3 h-3" /> Export
             </Button>
           </div>
@@ -1684,29 +6314,163 @@ function AnnotationsScreen({ highlights, books, onDeleteHighlight, onJumpToHighl
             </div>
           ) : (
             <div className="space-y-3">
-              {filteredHighlights.map((h) => (
-                <Card key={h.id} className={cn("bg-card border-l-4 cursor-pointer hover:shadow-md transition-all duration-200", HIGHLIGHT_BORDER_COLORS[h.color] ?? 'border-l-yellow-400')} onClick={() => onJumpToHighlight(h)}>
-                  <CardContent className="p-4">
-                    <div className="flex items-start justify-between gap-3">
-                      <div className="flex-1 min-w-0">
-                        <p className={cn("text-sm italic rounded px-1 py-0.5 inline", HIGHLIGHT_COLORS[h.color] ?? 'bg-yellow-200/60')}>
-                          &ldquo;{h.text}&rdquo;
-                        </p>
-                        {h.note && (
-                          <p className="text-sm text-foreground mt-2 flex items-start gap-1.5">
-                            <FiEdit3 className="w-3 h-3 text-muted-foreground mt-0.5 flex-shrink-0" />
-                            {h.note}
+              {filteredHighlights.map((h) => {
+                const color = paletteColor(palette, h.color)
+                return (
+                  <Card key={h.id} className="bg-card border-l-4 cursor-pointer hover:shadow-md transition-all duration-200" style={{ borderLeftColor: color.hex }} onClick={() => setEditingHighlight(h)}>
+                    <CardContent className="p-4">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm italic rounded px-1 py-0.5 inline" style={{ backgroundColor: highlightFill(color.hex) }}>
+                            &ldquo;{h.text}&rdquo;
                           </p>
-                        )}
-                        <div className="flex items-center gap-3 mt-2 text-xs text-muted-foreground flex-wrap">
-                          <span className="flex items-center gap-1"><FiBook className="w-3 h-3" />{getBookTitle(h.bookId)}</span>
-                          <span>Page {h.pageIndex + 1}</span>
-                          <span>{timeAgo(h.createdAt)}</span>
+                          {h.note && (
+                            <div className="text-foreground mt-2 flex items-start gap-1.5">
+                              <FiEdit3 className="w-3 h-3 text-muted-foreground mt-1 flex-shrink-0" />
+                              <div className="min-w-0">{renderMarkdown(h.note)}</div>
+                            </div>
+                          )}
+                          {h.tags && h.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-2">
+                              {h.tags.map(tag => (
+                                <Badge key={tag} variant="secondary" className="text-[10px] cursor-pointer" onClick={(e) => { e.stopPropagation(); updateFilter({ tag }) }}>{tag}</Badge>
+                              ))}
+                            </div>
+                          )}
+                          <div className="flex items-center gap-3 mt-2 text-xs text-muted-foreground flex-wrap">
+                            <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full" style={{ backgroundColor: color.hex }} />{color.name}</span>
+                            <span className="flex items-center gap-1"><FiBook className="w-3 h-3" />{getBookTitle(h.bookId)}</span>
+                            <span>Page {h.pageIndex + 1}</span>
+                            <span>{timeAgo(h.createdAt)}</span>
+                            {h.updatedAt && <span>Edited {timeAgo(h.updatedAt)}</span>}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-0.5 flex-shrink-0">
+                          <button onClick={(e) => { e.stopPropagation(); onJumpToHighlight(h) }} className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors" title="Open in reader">
+                            <FiBookOpen className="w-3.5 h-3.5" />
+                          </button>
+                          <button onClick={(e) => { e.stopPropagation(); onDeleteHighlight(h.id) }} className="p-1 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors">
+                            <FiTrash2 className="w-3.5 h-3.5" />
+                          </button>
                         </div>
                       </div>
-                      <button onClick={(e) => { e.stopPropagation(); onDeleteHighlight(h.id) }} className="p-1 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors flex-shrink-0">
-                        <FiTrash2 className="w-3.5 h-3.5" />
-                      </button>
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+
+      <HighlightEditorDialog
+        key={editingHighlight?.id ?? 'none'}
+        highlight={editingHighlight}
+        highlights={highlights}
+        palette={palette}
+        sharedOffsets={usesTextOffsets(books.find(b => b.id === editingHighlight?.bookId))}
+        onSave={onEditHighlights}
+        onDelete={onDeleteHighlight}
+        onClose={() => setEditingHighlight(null)}
+      />
+      <AnnotationImportDialog pending={pendingImport} books={books} onConfirm={handleConfirmImport} onClose={() => setPendingImport(null)} />
+      <AnnotationExportDialog open={showExport} highlights={filteredHighlights} books={books} palette={palette} onClose={() => setShowExport(false)} />
+      <HighlightPaletteDialog open={showPalette} palette={palette} highlights={highlights} onSave={onSavePalette} onClose={() => setShowPalette(false)} />
+    </div>
+  )
+}
+
+// ===== BOOKMARKS SCREEN =====
+function BookmarksScreen({ books, onOpenBookmark, onUpdateBook }: {
+  books: Book[]
+  onOpenBookmark: (bookId: string, bookmark: Bookmark) => void
+  onUpdateBook: (book: Book) => void
+}) {
+  const [query, setQuery] = useState('')
+  const [editing, setEditing] = useState<{ bookId: string; bookmark: Bookmark } | null>(null)
+
+  // Books with bookmarks, most recently read first, each with the bookmarks matching the search
+  const groups = useMemo(() => {
+    const q = query.trim().toLowerCase()
+    return books
+      .filter(b => b.bookmarks.length > 0)
+      .sort((a, b) => new Date(b.lastRead).getTime() - new Date(a.lastRead).getTime())
+      .map(book => ({
+        book,
+        bookmarks: q && !book.title.toLowerCase().includes(q)
+          ? book.bookmarks.filter(bm => bm.label.toLowerCase().includes(q) || bm.note.toLowerCase().includes(q))
+          : book.bookmarks,
+      }))
+      .filter(g => g.bookmarks.length > 0)
+  }, [books, query])
+
+  const total = groups.reduce((n, g) => n + g.bookmarks.length, 0)
+  const editingBook = editing ? books.find(b => b.id === editing.bookId) ?? null : null
+
+  const updateBookmarks = useCallback((book: Book, bookmarks: Bookmark[]) => {
+    onUpdateBook({ ...book, bookmarks })
+  }, [onUpdateBook])
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <ScrollArea className="flex-1">
+        <div className="max-w-3xl mx-auto p-6">
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <div>
+              <h2 className="font-serif font-semibold text-lg text-foreground">Bookmarks</h2>
+              <p className="text-xs text-muted-foreground mt-0.5">{total} bookmark{total !== 1 ? 's' : ''} in {groups.length} book{groups.length !== 1 ? 's' : ''}</p>
+            </div>
+            <div className="relative w-56">
+              <FiSearch className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-muted-foreground" />
+              <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search bookmarks..." className="h-8 text-xs pl-7 bg-background" />
+            </div>
+          </div>
+
+          {groups.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-20 text-center">
+              <FiBookmark className="w-12 h-12 text-muted-foreground/30 mb-3" />
+              <h3 className="font-serif font-semibold text-lg text-foreground mb-1">
+                {query.trim() ? 'No matching bookmarks' : 'No bookmarks yet'}
+              </h3>
+              <p className="text-sm text-muted-foreground max-w-xs">
+                {query.trim() ? 'Try a different search' : 'Use the bookmark button in the reader to mark places you want to come back to'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {groups.map(({ book, bookmarks }) => (
+                <Card key={book.id} className="bg-card">
+                  <CardContent className="p-4">
+                    <div className="flex items-center gap-2 mb-3">
+                      <FiBook className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
+                      <h3 className="font-serif font-semibold text-sm text-foreground truncate">{book.title}</h3>
+                      {book.author && <span className="text-xs text-muted-foreground truncate">{book.author}</span>}
+                    </div>
+                    <div className="space-y-1">
+                      {bookmarks.map((bm) => {
+                        const index = book.bookmarks.indexOf(bm)
+                        return (
+                          <div key={bm.id} className="group flex items-start gap-2 rounded-md px-2 py-1.5 hover:bg-secondary/60 transition-colors">
+                            <FiBookmark className="w-3.5 h-3.5 text-primary mt-0.5 flex-shrink-0" />
+                            <button onClick={() => onOpenBookmark(book.id, bm)} className="flex-1 min-w-0 text-left">
+                              <p className="text-sm text-foreground truncate">{bm.label}</p>
+                              {bm.note && <p className="text-xs text-muted-foreground whitespace-pre-wrap mt-0.5">{bm.note}</p>}
+                              <p className="text-[10px] text-muted-foreground mt-0.5">{getPositionLabel(book, bm.pageIndex)} · {timeAgo(bm.createdAt)}</p>
+                            </button>
+                            <div className="flex items-center gap-0.5 flex-shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
+                              {!query.trim() && (
+                                <>
+                                  <button onClick={() => updateBookmarks(book, moveItem(book.bookmarks, index, -1))} disabled={index === 0} className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground disabled:opacity-30" title="Move up"><FiChevronUp className="w-3.5 h-3.5" /></button>
+                                  <button onClick={() => updateBookmarks(book, moveItem(book.bookmarks, index, 1))} disabled={index === book.bookmarks.length - 1} className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground disabled:opacity-30" title="Move down"><FiChevronDown className="w-3.5 h-3.5" /></button>
+                                </>
+                              )}
+                              <button onClick={() => onOpenBookmark(book.id, bm)} className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors" title="Open in reader"><FiBookOpen className="w-3.5 h-3.5" /></button>
+                              <button onClick={() => setEditing({ bookId: book.id, bookmark: bm })} className="p-1 rounded hover:bg-secondary text-muted-foreground hover:text-foreground transition-colors" title="Edit bookmark"><FiEdit3 className="w-3.5 h-3.5" /></button>
+                              <button onClick={() => updateBookmarks(book, book.bookmarks.filter(b => b.id !== bm.id))} className="p-1 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors" title="Delete bookmark"><FiTrash2 className="w-3.5 h-3.5" /></button>
+                            </div>
+                          </div>
+                        )
+                      })}
                     </div>
                   </CardContent>
                 </Card>
@@ -1715,6 +6479,133 @@ function AnnotationsScreen({ highlights, books, onDeleteHighlight, onJumpToHighl
           )}
         </div>
       </ScrollArea>
+
+      <BookmarkEditorDialog
+        key={editing?.bookmark.id ?? 'none'}
+        bookmark={editing?.bookmark ?? null}
+        book={editingBook}
+        onSave={(bookmark) => { if (editingBook) updateBookmarks(editingBook, editingBook.bookmarks.map(bm => bm.id === bookmark.id ? bookmark : bm)) }}
+        onDelete={(id) => { if (editingBook) updateBookmarks(editingBook, editingBook.bookmarks.filter(bm => bm.id !== id)) }}
+        onClose={() => setEditing(null)}
+      />
+    </div>
+  )
+}
+
+// ===== TRASH SCREEN =====
+function TrashScreen({ trash, books, retentionDays, onRestore, onPurge, onEmptyTrash, onRetentionChange }: {
+  trash: TrashEntry[]
+  // The library, for the books of deleted highlights
+  books: Book[]
+  retentionDays: number
+  onRestore: (id: string) => void
+  onPurge: (ids: string[]) => void
+  onEmptyTrash: () => void
+  onRetentionChange: (days: number) => void
+}) {
+  const [confirmEmpty, setConfirmEmpty] = useState(false)
+
+  const entries = useMemo(() => [...trash].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)), [trash])
+
+  const bookTitle = useCallback((bookId: string) => {
+    return books.find(b => b.id === bookId)?.title ?? trash.find(e => e.book?.id === bookId)?.book?.title ?? 'Unknown Book'
+  }, [books, trash])
+
+  const expiryLabel = useCallback((entry: TrashEntry) => {
+    if (retentionDays === 0) return null
+    const days = Math.ceil((new Date(entry.deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000 - Date.now()) / (24 * 60 * 60 * 1000))
+    return days <= 1 ? 'Deleted for good within a day' : `Deleted for good in ${days} days`
+  }, [retentionDays])
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <ScrollArea className="flex-1">
+        <div className="max-w-3xl mx-auto p-6">
+          <div className="flex items-center justify-between gap-4 mb-6 flex-wrap">
+            <div>
+              <h2 className="font-serif font-semibold text-lg text-foreground">Trash</h2>
+              <p className="text-xs text-muted-foreground mt-0.5">{entries.length} item{entries.length !== 1 ? 's' : ''}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground">Keep deleted items</Label>
+              <select value={retentionDays} onChange={(e) => onRetentionChange(Number(e.target.value))} className="text-xs border border-border rounded-md px-2 py-1.5 bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring">
+                {TRASH_RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days === 0 ? 'Until emptied' : `${days} days`}</option>)}
+              </select>
+              <Button variant="outline" size="sm" onClick={() => setConfirmEmpty(true)} disabled={entries.length === 0} className="gap-1.5 text-xs text-destructive hover:text-destructive">
+                <FiTrash2 className="w-3 h-3" /> Empty Trash
+              </Button>
+            </div>
+          </div>
+
+          {entries.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-20 text-center">
+              <FiTrash2 className="w-12 h-12 text-muted-foreground/30 mb-3" />
+              <h3 className="font-serif font-semibold text-lg text-foreground mb-1">Trash is empty</h3>
+              <p className="text-sm text-muted-foreground max-w-xs">Deleted books and highlights stay here for a while, so they can be restored</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {entries.map((entry) => {
+                const book = entry.book
+                const highlight = book ? null : entry.highlights[0]
+                // A highlight can only go back once its book is in the library again
+                const canRestore = !!book || (!!highlight && books.some(b => b.id === highlight.bookId))
+                const expiry = expiryLabel(entry)
+                return (
+                  <Card key={entry.id} className="bg-card">
+                    <CardContent className="p-4">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="flex-1 min-w-0">
+                          {book ? (
+                            <div className="flex items-center gap-3">
+                              <div className="w-8 h-11 rounded-sm flex-shrink-0 flex items-center justify-center" style={{ backgroundColor: book.coverColor }}>
+                                <FiBook className="w-3.5 h-3.5 text-white/80" />
+                              </div>
+                              <div className="min-w-0">
+                                <p className="text-sm font-medium text-foreground truncate">{book.title}</p>
+                                <p className="text-xs text-muted-foreground truncate">{book.author || 'Unknown author'}{entry.highlights.length > 0 && <> · {entry.highlights.length} highlight{entry.highlights.length !== 1 ? 's' : ''}</>}</p>
+                              </div>
+                            </div>
+                          ) : highlight && (
+                            <>
+                              <p className="text-sm italic text-foreground line-clamp-3">&ldquo;{highlight.text}&rdquo;</p>
+                              <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1"><FiBook className="w-3 h-3" />{bookTitle(highlight.bookId)}</p>
+                            </>
+                          )}
+                          <p className="text-[10px] text-muted-foreground mt-2">Deleted {timeAgo(entry.deletedAt)}{expiry && <> · {expiry}</>}</p>
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <Button variant="outline" size="sm" onClick={() => onRestore(entry.id)} disabled={!canRestore} className="h-7 text-xs" title={canRestore ? undefined : 'Restore its book first'}>
+                            Restore
+                          </Button>
+                          <button onClick={() => onPurge([entry.id])} className="p-1.5 rounded hover:bg-destructive/10 text-muted-foreground hover:text-destructive transition-colors" title="Delete for good">
+                            <FiX className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+
+      <Dialog open={confirmEmpty} onOpenChange={setConfirmEmpty}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="font-serif text-base">Empty Trash?</DialogTitle>
+            <DialogDescription className="text-xs">
+              {entries.length} item{entries.length !== 1 ? 's' : ''} will be deleted for good, with the files and highlights of deleted books. This can&apos;t be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" size="sm" onClick={() => setConfirmEmpty(false)}>Cancel</Button>
+            <Button variant="destructive" size="sm" onClick={() => { onEmptyTrash(); setConfirmEmpty(false) }}>Empty Trash</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -1722,89 +6613,138 @@ function AnnotationsScreen({ highlights, books, onDeleteHighlight, onJumpToHighl
 // ===== MAIN PAGE =====
 export default function Page() {
   const [activeScreen, setActiveScreen] = useState('library')
+  const [pendingBookmark, setPendingBookmark] = useState<Bookmark | null>(null)
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false)
   const [books, setBooks] = useState<Book[]>([])
   const [highlights, setHighlights] = useState<Highlight[]>([])
+  const [palette, setPalette] = useState<HighlightColor[]>(DEFAULT_HIGHLIGHT_PALETTE)
+  const [annotationViews, setAnnotationViews] = useState<AnnotationView[]>([])
+  const [shelves, setShelves] = useState<Shelf[]>([])
+  // The shelf the library is filtered to; null shows every book
+  const [activeShelfId, setActiveShelfId] = useState<string | null>(null)
+  const [editingShelf, setEditingShelf] = useState<{ shelf: Shelf; isNew: boolean } | null>(null)
+  const [trash, setTrash] = useState<TrashEntry[]>([])
+  // Undo toasts outlive the render that made them, so restoring reads the trash from here
+  const trashRef = useRef<TrashEntry[]>([])
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS)
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([])
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null)
+  const [chatUserId, setChatUserId] = useState('')
   const [selectedBook, setSelectedBook] = useState<Book | null>(null)
   const [chatOpen, setChatOpen] = useState(false)
   const [chatLoading, setChatLoading] = useState(false)
-  const [uploading, setUploading] = useState(false)
-  const [uploadStatus, setUploadStatus] = useState('')
+  const [streamingReply, setStreamingReply] = useState<StreamingReply | null>(null)
+  const chatAbortRef = useRef<AbortController | null>(null)
+  const [uploadTasks, setUploadTasks] = useState<UploadTask[]>([])
+  const uploadControllersRef = useRef<Map<string, AbortController>>(new Map())
+  // Content hashes of files being uploaded or added, so the same file dropped twice is caught
+  const uploadHashesRef = useRef<Map<string, string>>(new Map())
+  // Hashes of books stored before uploads kept one, worked out when first needed
+  const uploadLegacyHashesRef = useRef<Map<string, string>>(new Map())
+  const booksRef = useRef<Book[]>([])
   const [sampleMode, setSampleMode] = useState(false)
   const [activeAgentId, setActiveAgentId] = useState<string | null>(null)
   const [mounted, setMounted] = useState(false)
+  const [libraryLoaded, setLibraryLoaded] = useState(false)
+  const [libraryTransferStatus, setLibraryTransferStatus] = useState('')
+  const [importReview, setImportReview] = useState<{ archive: LibraryArchive; duplicates: { archived: Book; existing: Book }[]; decisions: Record<string, ImportDecision> } | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
-  // Helper to safely save to localStorage with quota handling
-  const safeSetLocalStorage = useCallback((key: string, value: any) => {
-    try {
-      const serialized = JSON.stringify(value)
-      localStorage.setItem(key, serialized)
-    } catch (e: any) {
-      // Quota exceeded -- try to save a truncated version for books
-      if (key === 'bookshelf_books' && Array.isArray(value)) {
-        try {
-          const truncated = value.map((b: Book) => ({
-            ...b,
-            content: (b.content || '').substring(0, 100000),
-            htmlContent: (b.htmlContent || '').substring(0, 100000),
-            pdfDataBase64: '', // Never store this in localStorage
-          }))
-          localStorage.setItem(key, JSON.stringify(truncated))
-        } catch {
-          // Still too large -- give up silently
-        }
-      }
-    }
-  }, [])
+  // What the IndexedDB stores last held, so persisting only writes records that changed
+  const persistedRef = useRef<{ books: Map<string, Book>; highlights: Map<string, Highlight>; chat: Map<string, StoredChatThread>; palette: Map<string, StoredHighlightColor>; views: Map<string, AnnotationView>; trash: Map<string, TrashEntry>; shelves: Map<string, Shelf> }>({ books: new Map(), highlights: new Map(), chat: new Map(), palette: new Map(), views: new Map(), trash: new Map(), shelves: new Map() })
 
-  // Load from localStorage on mount
   useEffect(() => {
     setMounted(true)
     try {
-      const savedBooks = localStorage.getItem('bookshelf_books')
-      const savedHighlights = localStorage.getItem('bookshelf_highlights')
-      const savedChat = localStorage.getItem('bookshelf_chat')
-      if (savedBooks) {
-        const parsed = JSON.parse(savedBooks) as Book[]
-        // Ensure backward compatibility: add new fields if missing
-        const migrated = parsed.map((b: any) => ({
-          ...b,
-          fileType: b.fileType ?? 'txt',
-          htmlContent: b.htmlContent ?? '',
-          pdfDataBase64: '', // Always load from IndexedDB
-          totalPdfPages: b.totalPdfPages ?? 0,
-          pages: Array.isArray(b.pages) ? b.pages : [],
-          fileSize: b.fileSize ?? 0,
-        }))
-        setBooks(migrated)
+      // A stable user id keeps agent sessions tied to this browser across reloads
+      let userId = localStorage.getItem('bookshelf_user_id')
+      if (!userId) {
+        userId = `user-${generateId()}`
+        localStorage.setItem('bookshelf_user_id', userId)
       }
-      if (savedHighlights) setHighlights(JSON.parse(savedHighlights))
-      if (savedChat) setChatMessages(JSON.parse(savedChat))
+      setChatUserId(userId)
+      const retention = localStorage.getItem(TRASH_RETENTION_KEY)
+      if (retention !== null && TRASH_RETENTION_OPTIONS.includes(Number(retention))) setTrashRetentionDays(Number(retention))
     } catch {
       // silently ignore
     }
   }, [])
 
-  // Persist to localStorage
+  // Persist to IndexedDB
+  useEffect(() => {
+    booksRef.current = books
+    if (!libraryLoaded || sampleMode) return
+    const { next, changed, removed } = diffRecords(books, b => b.id, persistedRef.current.books)
+    persistedRef.current.books = next
+    writeRecords(BOOKS_STORE, changed.map(toStoredBook), removed).catch(err => console.error('Failed to save books:', err))
+  }, [books, libraryLoaded, sampleMode])
+
+  useEffect(() => {
+    if (!libraryLoaded || sampleMode) return
+    const { next, changed, removed } = diffRecords(highlights, h => h.id, persistedRef.current.highlights)
+    persistedRef.current.highlights = next
+    writeRecords(HIGHLIGHTS_STORE, changed, removed).catch(err => console.error('Failed to save highlights:', err))
+  }, [highlights, libraryLoaded, sampleMode])
+
+  useEffect(() => {
+    if (!libraryLoaded || sampleMode) return
+    const { next, changed, removed } = diffRecords(toStoredPalette(palette), c => c.id, persistedRef.current.palette, (a, b) => JSON.stringify(a) === JSON.stringify(b))
+    persistedRef.current.palette = next
+    writeRecords(PALETTE_STORE, changed, removed).catch(err => console.error('Failed to save highlight colors:', err))
+  }, [palette, libraryLoaded, sampleMode])
+
+  useEffect(() => {
+    if (!libraryLoaded || sampleMode) return
+    const { next, changed, removed } = diffRecords(annotationViews, v => v.id, persistedRef.current.views)
+    persistedRef.current.views = next
+    writeRecords(ANNOTATION_VIEWS_STORE, changed, removed).catch(err => console.error('Failed to save annotation views:', err))
+  }, [annotationViews, libraryLoaded, sampleMode])
+
   useEffect(() => {
-    if (!mounted || sampleMode) return
-    safeSetLocalStorage('bookshelf_books', books)
-  }, [books, mounted, sampleMode, safeSetLocalStorage])
+    if (!libraryLoaded || sampleMode) return
+    const { next, changed, removed } = diffRecords(shelves, sh => sh.id, persistedRef.current.shelves)
+    persistedRef.current.shelves = next
+    writeRecords(SHELVES_STORE, changed, removed).catch(err => console.error('Failed to save shelves:', err))
+  }, [shelves, libraryLoaded, sampleMode])
 
   useEffect(() => {
-    if (!mounted || sampleMode) return
-    try { localStorage.setItem('bookshelf_highlights', JSON.stringify(highlights)) } catch { /* */ }
-  }, [highlights, mounted, sampleMode])
+    trashRef.current = trash
+    if (!libraryLoaded || sampleMode) return
+    const { next, changed, removed } = diffRecords(trash, e => e.id, persistedRef.current.trash)
+    persistedRef.current.trash = next
+    writeRecords(TRASH_STORE, changed.map(toStoredTrashEntry), removed).catch(err => console.error('Failed to save trash:', err))
+  }, [trash, libraryLoaded, sampleMode])
 
   useEffect(() => {
-    if (!mounted || sampleMode) return
-    try { localStorage.setItem('bookshelf_chat', JSON.stringify(chatMessages)) } catch { /* */ }
-  }, [chatMessages, mounted, sampleMode])
+    setHighlightPaintColors(palette.map(c => ({ id: c.id, fill: highlightFill(c.hex, 0.5) })))
+  }, [palette])
 
-  // Sample mode
+  useEffect(() => {
+    if (!libraryLoaded || sampleMode) return
+    const stored = toStoredChatThreads(chatThreads, chatMessages)
+    const { next, changed, removed } = diffRecords(stored, t => t.id, persistedRef.current.chat, (a, b) => JSON.stringify(a) === JSON.stringify(b))
+    persistedRef.current.chat = next
+    writeRecords(CHAT_THREADS_STORE, changed, removed).catch(err => console.error('Failed to save chat:', err))
+  }, [chatMessages, chatThreads, libraryLoaded, sampleMode])
+
+  // Follow the open book: resume its most recent conversation. Threads changing while the
+  // same book stays open don't re-pick; null means no book has been followed yet
+  const threadBookIdRef = useRef<string | undefined | null>(null)
+  const selectedBookId = selectedBook?.id
+  useEffect(() => {
+    if (threadBookIdRef.current === selectedBookId) return
+    threadBookIdRef.current = selectedBookId
+    const latest = chatThreads
+      .filter(t => t.bookId === selectedBookId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]
+    setActiveThreadId(latest?.id ?? null)
+  }, [selectedBookId, chatThreads])
+
+  // Sample mode swaps in the sample library; otherwise the library is loaded from IndexedDB
   useEffect(() => {
     if (!mounted) return
+    setLibraryLoaded(false)
     if (sampleMode) {
       // Generate pages for sample books that need them
       const sampleWithPages = SAMPLE_BOOKS.map(b => ({
@@ -1815,145 +6755,426 @@ export default function Page() {
       }))
       setBooks(sampleWithPages)
       setHighlights(SAMPLE_HIGHLIGHTS)
+      setPalette(DEFAULT_HIGHLIGHT_PALETTE)
+      setAnnotationViews([])
+      setTrash([])
+      setShelves([])
+      setActiveShelfId(null)
       setChatMessages(SAMPLE_CHAT)
+      setChatThreads(SAMPLE_THREADS)
       setSelectedBook(sampleWithPages[0])
-    } else {
-      try {
-        const savedBooks = localStorage.getItem('bookshelf_books')
-        const savedHighlights = localStorage.getItem('bookshelf_highlights')
-        const savedChat = localStorage.getItem('bookshelf_chat')
-        if (savedBooks) {
-          const parsed = JSON.parse(savedBooks) as Book[]
-          const migrated = parsed.map((b: any) => ({
-            ...b,
-            fileType: b.fileType ?? 'txt',
-            htmlContent: b.htmlContent ?? '',
-            pdfDataBase64: '',
-            totalPdfPages: b.totalPdfPages ?? 0,
-            pages: Array.isArray(b.pages) ? b.pages : [],
-            fileSize: b.fileSize ?? 0,
-          }))
-          setBooks(migrated)
-        } else {
-          setBooks([])
-        }
-        setHighlights(savedHighlights ? JSON.parse(savedHighlights) : [])
-        setChatMessages(savedChat ? JSON.parse(savedChat) : [])
-        setSelectedBook(null)
-      } catch {
-        setBooks([])
-        setHighlights([])
-        setChatMessages([])
-        setSelectedBook(null)
-      }
+      return
     }
+
+    let cancelled = false
+    loadLibrary().then((library) => {
+      if (cancelled) return
+      persistedRef.current = {
+        books: new Map(library.books.map(b => [b.id, b])),
+        highlights: new Map(library.highlights.map(h => [h.id, h])),
+        chat: new Map(toStoredChatThreads(library.threads, library.messages).map(t => [t.id, t])),
+        palette: new Map(toStoredPalette(library.palette).map(c => [c.id, c])),
+        views: new Map(library.views.map(v => [v.id, v])),
+        trash: new Map(library.trash.map(e => [e.id, e])),
+        shelves: new Map(library.shelves.map(sh => [sh.id, sh])),
+      }
+      setBooks(library.books)
+      setHighlights(library.highlights)
+      setPalette(library.palette)
+      setAnnotationViews(library.views)
+      setTrash(library.trash)
+      setShelves(library.shelves)
+      setActiveShelfId(null)
+      setChatThreads(library.threads)
+      setChatMessages(library.messages)
+      setSelectedBook(null)
+      setLibraryLoaded(true)
+    }).catch((err) => {
+      // Leave libraryLoaded false so an empty state is never written over the stored library
+      console.error('Failed to load library:', err)
+      if (cancelled) return
+      setBooks([])
+      setHighlights([])
+      setPalette(DEFAULT_HIGHLIGHT_PALETTE)
+      setAnnotationViews([])
+      setTrash([])
+      setChatMessages([])
+      setChatThreads([])
+      setSelectedBook(null)
+    })
+    return () => { cancelled = true }
   }, [sampleMode, mounted])
 
-  // Upload handler
-  const handleUpload = useCallback(async (file: File) => {
-    const ext = file.name.split('.').pop()?.toLowerCase()
-    if (!['pdf', 'docx', 'txt'].includes(ext || '')) {
-      setUploadStatus('Unsupported file type. Please upload PDF, DOCX, or TXT files.')
-      return
-    }
+  // Index books that predate the library search index in the background. Runs when books
+  // come or go, not on every progress save; sample books are searched in memory instead
+  const bookIdsKey = useMemo(() => books.map(b => b.id).join('\n'), [books])
+  useEffect(() => {
+    if (!mounted || sampleMode || !bookIdsKey) return
+    let cancelled = false
+    ;(async () => {
+      const indexed = new Set(await getIndexedBookIds().catch(() => [] as string[]))
+      for (const book of booksRef.current) {
+        if (cancelled) return
+        if (indexed.has(book.id)) continue
+        const pageTexts = await loadBookPageTexts(book)
+        if (!cancelled) await indexBookPages(book.id, pageTexts).catch(() => {})
+      }
+    })()
+    return () => { cancelled = true }
+  }, [bookIdsKey, mounted, sampleMode])
 
-    setUploading(true)
-    setUploadStatus('Validating file...')
+  // Upload handler
+  const startUpload = useCallback(async (task: UploadTask) => {
+    const controller = new AbortController()
+    uploadControllersRef.current.set(task.id, controller)
+    const update = (patch: Partial<UploadTask>) => setUploadTasks(prev => prev.map(t => t.id === task.id ? { ...t, ...patch } : t))
 
     try {
-      // Upload to RAG knowledge base for AI chat (fire and forget)
-      setUploadStatus('Uploading to AI knowledge base...')
-      uploadAndTrainDocument(RAG_ID, file).catch(() => {})
+      if (!isBookFile(task.file.name)) throw new Error('Unsupported file type -- upload PDF, DOCX, TXT or EPUB files')
+      update({ status: 'checking', message: 'Checking for duplicates...', progress: 0 })
+      const fileHash = await sha256Hex(await task.file.arrayBuffer())
+      controller.signal.throwIfAborted()
+
+      const queued = uploadHashesRef.current.get(fileHash)
+      if (!task.allowDuplicate && queued && queued !== task.id) {
+        update({ status: 'duplicate', message: 'The same file is already in this upload queue' })
+        return
+      }
+      // Claimed before any further await, so a copy later in the queue sees it
+      uploadHashesRef.current.set(fileHash, task.id)
+      try {
+        if (!task.allowDuplicate) {
+          const inLibrary = await findUploadDuplicate(task.file, fileHash, booksRef.current, uploadLegacyHashesRef.current)
+          const inTrash = inLibrary ? null : await findUploadDuplicate(task.file, fileHash, trashRef.current.flatMap(e => e.book ? [e.book] : []), uploadLegacyHashesRef.current)
+          if (inLibrary || inTrash) {
+            update({ status: 'duplicate', message: inLibrary ? `Already in your library as "${inLibrary.title}"` : `"${inTrash?.title}" is in the Trash -- restore it instead`, bookId: inLibrary?.id })
+            return
+          }
+        }
+
+        update({ status: 'processing', message: 'Processing file...' })
+        const { book, pageCount } = await importBookFile(task.file, fileHash, (message, progress) => update(progress === undefined ? { message } : { message, progress }), controller.signal)
+        setBooks(prev => [book, ...prev])
+        update({ status: 'done', message: `${book.fileType.toUpperCase()}, ${pageCount} ${book.fileType === 'pdf' ? 'pages' : 'sections'} extracted`, progress: 100, bookId: book.id })
+      } finally {
+        // Once the book is in the library, the library check catches the same file
+        if (uploadHashesRef.current.get(fileHash) === task.id) uploadHashesRef.current.delete(fileHash)
+      }
+    } catch (err: any) {
+      // Only the abort itself means cancelled; once saving has started, a cancel comes too late
+      // and a later failure is a failure
+      if (err?.name === 'AbortError') {
+        update({ status: 'cancelled', message: 'Cancelled', progress: 0 })
+      } else {
+        update({ status: 'failed', message: err?.message || 'Unknown error' })
+        console.error('File processing error:', err)
+      }
+    } finally {
+      uploadControllersRef.current.delete(task.id)
+    }
+  }, [])
 
-      setUploadStatus('Processing file...')
-      const processed = await processFile(file, setUploadStatus)
+  // Queued files start as running ones finish, UPLOAD_CONCURRENCY at a time
+  useEffect(() => {
+    const running = uploadTasks.filter(t => t.status === 'checking' || t.status === 'processing').length
+    const next = uploadTasks.filter(t => t.status === 'queued' && !uploadControllersRef.current.has(t.id))
+    next.slice(0, Math.max(0, UPLOAD_CONCURRENCY - running)).forEach((task) => {
+      startUpload(task)
+    })
+  }, [uploadTasks, startUpload])
 
-      const bookId = generateId()
+  const handleUploadFiles = useCallback((files: File[]) => {
+    setUploadTasks(prev => [...prev, ...files.map(file => ({ id: generateId(), file, status: 'queued' as const, message: 'Waiting...', progress: 0 }))])
+  }, [])
 
-      // Store large PDF data in IndexedDB
-      if (processed.pdfDataBase64) {
-        setUploadStatus('Saving PDF to storage...')
-        await saveFileData(bookId, processed.pdfDataBase64)
-      }
+  const handleCancelUpload = useCallback((id: string) => {
+    const controller = uploadControllersRef.current.get(id)
+    if (controller) controller.abort()
+    else setUploadTasks(prev => prev.map(t => t.id === id && t.status === 'queued' ? { ...t, status: 'cancelled', message: 'Cancelled' } : t))
+  }, [])
 
-      // Store large DOCX/HTML data in IndexedDB if big
-      if (processed.htmlContent && processed.htmlContent.length > 200000) {
-        await saveFileData(bookId + '_html', processed.htmlContent)
-      }
+  // Retrying, or adding a file that was held back as a duplicate, puts it back in the queue
+  const handleRetryUpload = useCallback((id: string, allowDuplicate = false) => {
+    setUploadTasks(prev => prev.map(t => t.id === id ? { ...t, status: 'queued', message: 'Waiting...', progress: 0, bookId: undefined, allowDuplicate: allowDuplicate || t.allowDuplicate } : t))
+  }, [])
 
-      const titleFromName = file.name.replace(/\.(pdf|docx|txt)$/i, '').replace(/[_-]/g, ' ').replace(/\b\w/g, c => c.toUpperCase())
-
-      const pageCount = processed.fileType === 'pdf' ? processed.totalPdfPages : processed.pages.length
-
-      const newBook: Book = {
-        id: bookId,
-        title: titleFromName,
-        author: 'Unknown Author',
-        fileName: file.name,
-        fileType: processed.fileType,
-        content: processed.content.substring(0, 500000),
-        htmlContent: processed.htmlContent.substring(0, 500000),
-        pdfDataBase64: '', // stored in IndexedDB
-        totalPdfPages: processed.totalPdfPages,
-        pages: processed.pages.length > 200 ? processed.pages.slice(0, 200) : processed.pages,
-        chapters: processed.chapters,
-        progress: 0,
-        lastRead: new Date().toISOString(),
-        uploadDate: new Date().toISOString(),
-        coverColor: COVER_COLORS[Math.floor(Math.random() * COVER_COLORS.length)],
-        bookmarks: [],
-        currentPage: 0,
-        fileSize: file.size,
-      }
+  const handleDismissUploads = useCallback((ids: string[]) => {
+    setUploadTasks(prev => prev.filter(t => !ids.includes(t.id)))
+  }, [])
 
-      setBooks(prev => [newBook, ...prev])
-      setUploadStatus(`"${titleFromName}" uploaded -- ${processed.fileType.toUpperCase()}, ${pageCount} ${processed.fileType === 'pdf' ? 'pages' : 'sections'} extracted`)
-    } catch (err: any) {
-      setUploadStatus(`Error processing file: ${err?.message || 'Unknown error'}. Please try again.`)
-      console.error('File processing error:', err)
-    } finally {
-      setUploading(false)
+  const handleRestoreFromTrash = useCallback((id: string) => {
+    const entry = trashRef.current.find(e => e.id === id)
+    if (!entry) return
+    const restoredIds = new Set(entry.highlights.map(h => h.id))
+    if (entry.book) {
+      const book = entry.book
+      setBooks(prev => [book, ...prev.filter(b => b.id !== book.id)])
     }
+    setHighlights(prev => [...entry.highlights, ...prev.filter(h => !restoredIds.has(h.id))])
+    setTrash(prev => prev.filter(e => e.id !== id))
   }, [])
 
+  // Deleting moves a book and its highlights to the trash; files stay until the trash is emptied
   const handleDeleteBook = useCallback((id: string) => {
+    const book = books.find(b => b.id === id)
+    if (!book) return
+    setTrash(prev => [{ id, deletedAt: new Date().toISOString(), book, highlights: highlights.filter(h => h.bookId === id) }, ...prev])
     setBooks(prev => prev.filter(b => b.id !== id))
     setHighlights(prev => prev.filter(h => h.bookId !== id))
     if (selectedBook?.id === id) setSelectedBook(null)
-    // Clean up IndexedDB
-    deleteFileData(id).catch(() => {})
-    deleteFileData(id + '_html').catch(() => {})
-  }, [selectedBook])
+    // Restoring puts the book back in the library search index
+    removeBookFromIndex(id)
+    toast(`"${book.title}" moved to Trash`, { action: { label: 'Undo', onClick: () => handleRestoreFromTrash(id) } })
+  }, [books, highlights, selectedBook, handleRestoreFromTrash])
+
+  // Deletes trash entries for good, with the files, page text and knowledge base document of books
+  const handlePurgeTrash = useCallback((ids: string[]) => {
+    const purged = trashRef.current.filter(e => ids.includes(e.id))
+    const purgedBookIds = new Set(purged.flatMap(e => e.book ? [e.book.id] : []))
+    for (const entry of purged) {
+      const book = entry.book
+      // A library import may have brought the same book back in the meantime
+      if (!book || books.some(b => b.id === book.id)) continue
+      if (book.ragDocumentName && !sampleMode) deleteDocuments(RAG_ID, [book.ragDocumentName]).catch(() => {})
+      deleteBookData(book.id)
+    }
+    // Highlights deleted on their own from a purged book have nowhere to go back to
+    setTrash(prev => prev.filter(e => !ids.includes(e.id) && !(!e.book && e.highlights.every(h => purgedBookIds.has(h.bookId)))))
+    setShelves(prev => prev.map(sh => sh.bookIds.some(id => purgedBookIds.has(id)) ? { ...sh, bookIds: sh.bookIds.filter(id => !purgedBookIds.has(id)) } : sh))
+  }, [books, sampleMode])
+
+  const handleEmptyTrash = useCallback(() => {
+    handlePurgeTrash(trashRef.current.map(e => e.id))
+  }, [handlePurgeTrash])
+
+  const handleTrashRetentionChange = useCallback((days: number) => {
+    setTrashRetentionDays(days)
+    try { localStorage.setItem(TRASH_RETENTION_KEY, String(days)) } catch { /* */ }
+  }, [])
+
+  // Entries past the retention period are purged once the library has loaded, and as they expire
+  useEffect(() => {
+    if (!libraryLoaded || sampleMode || trashRetentionDays === 0) return
+    const purgeExpired = () => {
+      const expired = trashRef.current.filter(e => isTrashExpired(e, trashRetentionDays))
+      if (expired.length > 0) handlePurgeTrash(expired.map(e => e.id))
+    }
+    purgeExpired()
+    const timer = setInterval(purgeExpired, 60 * 60 * 1000)
+    return () => clearInterval(timer)
+  }, [libraryLoaded, sampleMode, trashRetentionDays, handlePurgeTrash])
 
   const handleUpdateBook = useCallback((updated: Book) => {
     setBooks(prev => prev.map(b => b.id === updated.id ? updated : b))
     setSelectedBook(prev => prev?.id === updated.id ? updated : prev)
   }, [])
 
+  // The cover image is stored before the book changes, so the shelf loads the new one
+  const handleSaveBookDetails = useCallback(async (updated: Book, cover?: string | null) => {
+    if (cover === undefined) {
+      handleUpdateBook(updated)
+      return
+    }
+    try {
+      if (cover) await saveFileData(updated.id + '_cover_custom', cover)
+      else await deleteFileData(updated.id + '_cover_custom')
+      handleUpdateBook({ ...updated, customCover: cover ? new Date().toISOString() : undefined })
+    } catch (err) {
+      console.error('Failed to save cover:', err)
+      handleUpdateBook(updated)
+      toast('The cover image could not be saved')
+    }
+  }, [handleUpdateBook])
+
+  // Books added before covers were generated get one from their stored file, one at a time
+  const coverBackfillRef = useRef<Set<string>>(new Set())
+  useEffect(() => {
+    if (!libraryLoaded || sampleMode) return
+    const pending = books.filter(b =>
+      !b.hasCover && !coverBackfillRef.current.has(b.id) &&
+      (b.fileType === 'pdf' || (b.fileType === 'docx' && b.htmlContent.includes('<img')))
+    )
+    if (pending.length === 0) return
+    pending.forEach(b => coverBackfillRef.current.add(b.id))
+    const backfill = async () => {
+      for (const book of pending) {
+        const cover = await generateCoverFromFile(book).catch(() => null)
+        if (!cover) continue
+        await saveFileData(book.id + '_cover', cover)
+        setBooks(prev => prev.map(b => b.id === book.id ? { ...b, hasCover: true } : b))
+        setSelectedBook(prev => prev?.id === book.id ? { ...prev, hasCover: true } : prev)
+      }
+    }
+    backfill().catch(err => console.error('Failed to generate covers:', err))
+  }, [books, libraryLoaded, sampleMode])
+
+  const handlePendingBookmarkShown = useCallback(() => setPendingBookmark(null), [])
+
+  const allShelves = useMemo(() => [...BUILT_IN_SHELVES, ...shelves], [shelves])
+  const activeShelf = allShelves.find(sh => sh.id === activeShelfId) ?? null
+  const shelfCounts = useMemo(() => {
+    const now = Date.now()
+    return Object.fromEntries(allShelves.map(sh => [sh.id, booksOnShelf(sh, books, now).length]))
+  }, [allShelves, books])
+
+  const handleSelectShelf = useCallback((id: string | null) => {
+    setActiveShelfId(id)
+    setActiveScreen('library')
+  }, [])
+
+  const handleNewShelf = useCallback(() => {
+    setEditingShelf({ shelf: { id: generateId(), name: '', kind: 'collection', bookIds: [], rules: [], match: 'all', createdAt: new Date().toISOString() }, isNew: true })
+  }, [])
+
+  const handleEditShelf = useCallback((shelf: Shelf) => setEditingShelf({ shelf, isNew: false }), [])
+
+  const handleSaveShelf = useCallback((shelf: Shelf) => {
+    const isNew = !shelves.some(sh => sh.id === shelf.id)
+    setShelves(prev => isNew ? [...prev, shelf] : prev.map(sh => sh.id === shelf.id ? shelf : sh))
+    if (isNew) handleSelectShelf(shelf.id)
+  }, [shelves, handleSelectShelf])
+
+  const handleDeleteShelf = useCallback((id: string) => {
+    const shelf = shelves.find(sh => sh.id === id)
+    if (!shelf) return
+    setShelves(prev => prev.filter(sh => sh.id !== id))
+    if (activeShelfId === id) setActiveShelfId(null)
+    toast(`Shelf "${shelf.name}" deleted`, { action: { label: 'Undo', onClick: () => setShelves(prev => [...prev, shelf]) } })
+  }, [shelves, activeShelfId])
+
+  const handleAddToShelf = useCallback((shelfId: string, bookId: string) => {
+    const shelf = shelves.find(sh => sh.id === shelfId)
+    const book = books.find(b => b.id === bookId)
+    if (!shelf || shelf.kind !== 'collection' || !book) return
+    if (shelf.bookIds.includes(bookId)) {
+      toast(`"${book.title}" is already on "${shelf.name}"`)
+      return
+    }
+    setShelves(prev => prev.map(sh => sh.id === shelfId ? { ...sh, bookIds: [...sh.bookIds, bookId] } : sh))
+    toast(`Added "${book.title}" to "${shelf.name}"`)
+  }, [shelves, books])
+
+  const handleRemoveFromShelf = useCallback((shelfId: string, bookId: string) => {
+    setShelves(prev => prev.map(sh => sh.id === shelfId ? { ...sh, bookIds: sh.bookIds.filter(id => id !== bookId) } : sh))
+  }, [])
+
   const handleAddHighlight = useCallback((h: Highlight) => {
     setHighlights(prev => [h, ...prev])
   }, [])
 
   const handleDeleteHighlight = useCallback((id: string) => {
+    const highlight = highlights.find(h => h.id === id)
+    if (!highlight) return
+    setTrash(prev => [{ id, deletedAt: new Date().toISOString(), highlights: [highlight] }, ...prev])
     setHighlights(prev => prev.filter(h => h.id !== id))
+    toast('Highlight moved to Trash', { action: { label: 'Undo', onClick: () => handleRestoreFromTrash(id) } })
+  }, [highlights, handleRestoreFromTrash])
+
+  // Highlights of colors taken out of the palette move to its first color
+  const handleSavePalette = useCallback((next: HighlightColor[]) => {
+    if (next.length === 0) return
+    const kept = new Set(next.map(c => c.id))
+    setPalette(next)
+    setHighlights(prev => prev.some(h => !kept.has(h.color)) ? prev.map(h => kept.has(h.color) ? h : { ...h, color: next[0].id }) : prev)
+  }, [])
+
+  const handleSaveView = useCallback((view: AnnotationView) => {
+    setAnnotationViews(prev => [...prev, view])
+  }, [])
+
+  const handleDeleteView = useCallback((id: string) => {
+    setAnnotationViews(prev => prev.filter(v => v.id !== id))
+  }, [])
+
+  // Edited highlights replace their stored versions; new ones (from a split) are added
+  const handleEditHighlights = useCallback((changed: Highlight[], removedIds: string[]) => {
+    setHighlights((prev) => {
+      const byId = new Map(changed.map(h => [h.id, h]))
+      const kept = prev.filter(h => !removedIds.includes(h.id)).map(h => byId.get(h.id) ?? h)
+      const added = changed.filter(h => !prev.some(p => p.id === h.id))
+      return [...added, ...kept]
+    })
   }, [])
 
   // Chat send
+  const handleNewThread = useCallback(() => {
+    const thread = createChatThread(selectedBook?.id, NEW_THREAD_TITLE)
+    setChatThreads(prev => [thread, ...prev])
+    setActiveThreadId(thread.id)
+  }, [selectedBook])
+
+  const handleRenameThread = useCallback((id: string, title: string) => {
+    setChatThreads(prev => prev.map(t => t.id === id ? { ...t, title: title.substring(0, 60) } : t))
+  }, [])
+
   const handleChatSend = useCallback(async (message: string) => {
+    // Continue the active thread (reusing its session_id) or start one on the first question
+    let thread = chatThreads.find(t => t.id === activeThreadId)
+    if (!thread) {
+      const created = createChatThread(selectedBook?.id, message)
+      setChatThreads(prev => [created, ...prev])
+      setActiveThreadId(created.id)
+      thread = created
+    } else if (thread.title === NEW_THREAD_TITLE) {
+      handleRenameThread(thread.id, message)
+    }
+    const threadId = thread.id
+    const bookId = thread.bookId
+    const threadBook = bookId ? (books.find(b => b.id === bookId) ?? null) : null
+    const touchThread = () => {
+      const now = new Date().toISOString()
+      setChatThreads(prev => prev.map(t => t.id === threadId ? { ...t, updatedAt: now } : t))
+    }
+
     const userMsg: ChatMessage = {
       id: generateId(),
       role: 'user',
       content: message,
+      bookId,
+      threadId,
       timestamp: new Date().toISOString(),
     }
     setChatMessages(prev => [...prev, userMsg])
+    touchThread()
     setChatLoading(true)
     setActiveAgentId(AGENT_ID)
 
+    const controller = new AbortController()
+    chatAbortRef.current = controller
+    let partial: StreamingReply = { threadId, content: '', sources: [], followUpQuestions: [] }
+
     try {
-      const result = await callAIAgent(message, AGENT_ID)
+      const result = await callAIAgent(threadBook ? buildBookContextMessage(threadBook, message) : message, AGENT_ID, {
+        user_id: chatUserId || undefined,
+        session_id: thread.sessionId,
+        // Chunks are trained with the book's id in their extra_info (see importBookFile)
+        filter_variables: threadBook ? { book_id: threadBook.id } : undefined,
+        signal: controller.signal,
+        onStream: ({ text, fields }) => {
+          partial = {
+            threadId,
+            content: text,
+            sources: Array.isArray(fields.sources) ? fields.sources : [],
+            followUpQuestions: Array.isArray(fields.follow_up_questions) ? fields.follow_up_questions : [],
+          }
+          setStreamingReply(partial)
+        },
+      })
 
-      if (result.success) {
+      if (result.cancelled) {
+        // Keep whatever had streamed in, marked as stopped
+        const cancelledMsg: ChatMessage = {
+          id: generateId(),
+          role: 'assistant',
+          content: partial.content,
+          sources: partial.sources,
+          bookId,
+          threadId,
+          cancelled: true,
+          timestamp: new Date().toISOString(),
+        }
+        setChatMessages(prev => [...prev, cancelledMsg])
+      } else if (result.success) {
         const answer = result?.response?.result?.answer ?? result?.response?.message ?? 'I could not generate an answer.'
         const sources = Array.isArray(result?.response?.result?.sources) ? result.response.result.sources : []
         const followUps = Array.isArray(result?.response?.result?.follow_up_questions) ? result.response.result.follow_up_questions : []
@@ -1964,6 +7185,8 @@ export default function Page() {
           content: answer,
           sources,
           followUpQuestions: followUps,
+          bookId,
+          threadId,
           timestamp: new Date().toISOString(),
         }
         setChatMessages(prev => [...prev, assistantMsg])
@@ -1972,6 +7195,8 @@ export default function Page() {
           id: generateId(),
           role: 'assistant',
           content: `Sorry, I encountered an error: ${result?.error ?? 'Unknown error'}. Please try again.`,
+          bookId,
+          threadId,
           timestamp: new Date().toISOString(),
         }
         setChatMessages(prev => [...prev, errorMsg])
@@ -1981,13 +7206,22 @@ export default function Page() {
         id: generateId(),
         role: 'assistant',
         content: 'A network error occurred. Please check your connection and try again.',
+        bookId,
+        threadId,
         timestamp: new Date().toISOString(),
       }
       setChatMessages(prev => [...prev, errorMsg])
     } finally {
+      touchThread()
+      if (chatAbortRef.current === controller) chatAbortRef.current = null
+      setStreamingReply(null)
       setChatLoading(false)
       setActiveAgentId(null)
     }
+  }, [chatThreads, activeThreadId, selectedBook, books, chatUserId, handleRenameThread])
+
+  const handleChatStop = useCallback(() => {
+    chatAbortRef.current?.abort()
   }, [])
 
   const handleSelectBook = useCallback((book: Book) => {
@@ -1997,38 +7231,198 @@ export default function Page() {
     setActiveScreen('reader')
   }, [])
 
-  const handleJumpToHighlight = useCallback((h: Highlight) => {
-    const book = books.find(b => b.id === h.bookId)
+  const handleOpenBookAt = useCallback((bookId: string, pageIndex: number, readingOffset?: number) => {
+    const book = books.find(b => b.id === bookId)
     if (book) {
-      const updated = { ...book, currentPage: h.pageIndex, lastRead: new Date().toISOString() }
+      // `pageIndex` is a stored section; a laid-out book finds its page from the section's
+      // offset unless an exact `readingOffset` is given
+      const { readingOffset: _offset, ...rest } = book
+      const updated = { ...rest, currentPage: pageIndex, ...(readingOffset !== undefined && { readingOffset }), lastRead: new Date().toISOString() }
       setBooks(prev => prev.map(b => b.id === updated.id ? updated : b))
       setSelectedBook(updated)
       setActiveScreen('reader')
     }
   }, [books])
 
-  const handleExportAnnotations = useCallback(() => {
-    if (highlights.length === 0) return
-    let text = 'BookShelf - Annotations Export\n'
-    text += '================================\n\n'
-    highlights.forEach((h) => {
-      const bookTitle = books.find(b => b.id === h.bookId)?.title ?? 'Unknown Book'
-      text += `Book: ${bookTitle}\n`
-      text += `Color: ${h.color}\n`
-      text += `Page: ${h.pageIndex + 1}\n`
-      text += `Highlight: "${h.text}"\n`
-      if (h.note) text += `Note: ${h.note}\n`
-      text += `Date: ${new Date(h.createdAt).toLocaleString()}\n`
-      text += '---\n\n'
-    })
-    const blob = new Blob([text], { type: 'text/plain' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = 'bookshelf-annotations.txt'
-    a.click()
-    URL.revokeObjectURL(url)
-  }, [highlights, books])
+  // The reader scrolls to the bookmark's spot on its page once it shows
+  const handleOpenBookmark = useCallback((bookId: string, bookmark: Bookmark) => {
+    handleOpenBookAt(bookId, bookmark.pageIndex, bookmark.offset)
+    setPendingBookmark(bookmark)
+  }, [handleOpenBookAt])
+
+  const handleJumpToHighlight = useCallback((h: Highlight) => {
+    // TXT/DOCX anchors are offsets into the whole text, so open right at the passage
+    const offset = h.anchor && usesTextOffsets(books.find(b => b.id === h.bookId)) ? h.anchor.start : undefined
+    handleOpenBookAt(h.bookId, h.pageIndex, offset)
+  }, [books, handleOpenBookAt])
+
+  // Adds the highlights of a reviewed import to the books they were mapped to
+  const handleImportAnnotations = useCallback(async (pending: PendingAnnotationImport): Promise<string> => {
+    const newColors = pending.palette.filter(c => !palette.some(p => p.id === c.id))
+    const nextPalette = [...palette, ...newColors]
+    const imported: Highlight[] = []
+    let duplicates = 0
+    let unlocated = 0
+    for (const group of pending.groups) {
+      const book = books.find(b => b.id === group.bookId)
+      if (!book) continue
+      const pageTexts = await loadBookPageTexts(book)
+      const result = buildImportedHighlights(group.entries, book, pageTexts, [...highlights, ...imported], nextPalette)
+      imported.push(...result.highlights)
+      duplicates += result.duplicates
+      unlocated += result.unlocated
+    }
+
+    const importedIds = new Set(imported.map(h => h.id))
+    if (newColors.length > 0) setPalette(nextPalette)
+    setHighlights(prev => [...imported, ...prev.filter(h => !importedIds.has(h.id))])
+
+    const parts = [`Imported ${imported.length} highlight${imported.length === 1 ? '' : 's'}`]
+    if (duplicates > 0) parts.push(`${duplicates} already here`)
+    if (unlocated > 0) parts.push(`${unlocated} not found in the book text`)
+    return parts.join(', ')
+  }, [books, highlights, palette])
+
+  const handleExportLibrary = useCallback(async () => {
+    setLibraryTransferStatus('Exporting library...')
+    try {
+      const blob = await exportLibraryArchive(books, highlights, chatThreads, chatMessages, palette, annotationViews, shelves)
+      downloadBlob(blob, `bookshelf-library-${new Date().toISOString().slice(0, 10)}.zip`)
+      setLibraryTransferStatus(`Exported ${books.length} book${books.length === 1 ? '' : 's'}`)
+    } catch (err: any) {
+      setLibraryTransferStatus(`Export failed: ${err?.message || 'Unknown error'}`)
+      console.error('Library export error:', err)
+    }
+  }, [books, highlights, chatThreads, chatMessages, palette, annotationViews, shelves])
+
+  const applyLibraryImport = useCallback(async (archive: LibraryArchive, duplicates: { archived: Book; existing: Book }[], decisions: Record<string, ImportDecision>) => {
+    setLibraryTransferStatus('Importing library...')
+    try {
+      const existingIds = new Set(books.map(b => b.id))
+      const replacedIds = new Set<string>()
+      const idMap = new Map<string, string>()
+      const importedBooks: Book[] = []
+
+      for (const archived of archive.books) {
+        const duplicate = duplicates.find(d => d.archived.id === archived.id)
+        const decision: ImportDecision = duplicate ? (decisions[archived.id] ?? 'skip') : 'keep'
+        if (decision === 'skip') continue
+
+        let bookId = archived.id
+        if (decision === 'replace' && duplicate) {
+          // The replacement takes over the existing id, files and all
+          bookId = duplicate.existing.id
+          replacedIds.add(bookId)
+          await Promise.all(BOOK_FILE_ENTRIES.map(entry => deleteFileData(bookId + entry.suffix)))
+        } else if (existingIds.has(bookId)) {
+          bookId = generateId()
+        }
+        idMap.set(archived.id, bookId)
+
+        for (const [suffix, data] of Object.entries(archive.files[archived.id] ?? {})) {
+          await saveFileData(bookId + suffix, data)
+        }
+        const pageTexts = archive.pageTexts[archived.id] ?? []
+        await savePageTexts(bookId, pageTexts)
+        await indexBookPages(bookId, pageTexts).catch(() => {})
+
+        // The archived chat document belongs to the other library's knowledge base. A
+        // replacement keeps the existing book's; anything else is trained again from the
+        // stored PDF, or from the text when the original file isn't kept
+        let ragDocumentName = duplicate && decision === 'replace' ? duplicate.existing.ragDocumentName : ''
+        if (!ragDocumentName) {
+          const pdfData = archive.files[archived.id]?.['']
+          const documentFile = pdfData instanceof ArrayBuffer
+            ? new File([pdfData], archived.fileName, { type: 'application/pdf' })
+            : new File([archived.content], archived.fileName.replace(/\.\w+$/, '') + '.txt', { type: 'text/plain' })
+          ragDocumentName = trainBookDocument(bookId, archived.title, documentFile)
+        }
+        importedBooks.push({ ...archived, id: bookId, ragDocumentName })
+      }
+
+      const keptHighlights = highlights.filter(h => !replacedIds.has(h.bookId))
+      const takenHighlightIds = new Set(keptHighlights.map(h => h.id))
+      const importedHighlights = archive.highlights
+        .filter(h => idMap.has(h.bookId))
+        .map(h => ({ ...h, id: takenHighlightIds.has(h.id) ? generateId() : h.id, bookId: idMap.get(h.bookId) as string }))
+
+      // Threads follow their book; library-wide threads come along unless already here
+      const keptThreads = chatThreads.filter(t => !(t.bookId && replacedIds.has(t.bookId)))
+      const takenThreadIds = new Set(keptThreads.map(t => t.id))
+      const threadIdMap = new Map<string, string>()
+      const importedThreads: ChatThread[] = []
+      for (const thread of archive.threads) {
+        if (thread.bookId ? !idMap.has(thread.bookId) : takenThreadIds.has(thread.id)) continue
+        const id = takenThreadIds.has(thread.id) ? generateId() : thread.id
+        threadIdMap.set(thread.id, id)
+        importedThreads.push({ ...thread, id, bookId: thread.bookId ? idMap.get(thread.bookId) : undefined })
+      }
+      const droppedThreadIds = new Set(chatThreads.filter(t => t.bookId && replacedIds.has(t.bookId)).map(t => t.id))
+      const importedMessages = archive.messages
+        .filter(m => m.threadId && threadIdMap.has(m.threadId))
+        .map(m => ({
+          ...m,
+          id: threadIdMap.get(m.threadId as string) === m.threadId ? m.id : generateId(),
+          threadId: threadIdMap.get(m.threadId as string),
+          bookId: m.bookId ? (idMap.get(m.bookId) ?? m.bookId) : undefined,
+        }))
+
+      // Highlights and chats added while the import ran are kept
+      setBooks(prev => [...importedBooks, ...prev.filter(b => !replacedIds.has(b.id))])
+      setHighlights(prev => [...prev.filter(h => !replacedIds.has(h.bookId)), ...importedHighlights])
+      setChatThreads(prev => [...prev.filter(t => !(t.bookId && replacedIds.has(t.bookId))), ...importedThreads])
+      setChatMessages(prev => [...prev.filter(m => !m.threadId || !droppedThreadIds.has(m.threadId)), ...importedMessages])
+      setSelectedBook(prev => prev && replacedIds.has(prev.id) ? null : prev)
+
+      // Highlight colors keep their ids, so new ones join the palette and shared ones stay as
+      // they are here. Views come along unless they filter on a book that didn't
+      const localBookId = (archivedId: string) => idMap.get(archivedId) ?? duplicates.find(d => d.archived.id === archivedId)?.existing.id
+      setPalette(prev => [...prev, ...archive.palette.filter(c => !prev.some(p => p.id === c.id))])
+      setAnnotationViews(prev => [
+        ...prev,
+        ...archive.views
+          .filter(v => !prev.some(p => p.id === v.id) && (v.filter.bookId === 'all' || localBookId(v.filter.bookId)))
+          .map(v => v.filter.bookId === 'all' ? v : { ...v, filter: { ...v.filter, bookId: localBookId(v.filter.bookId) as string } }),
+      ])
+      // Collections hold the imported (or matching) books; one already here gains the new ones
+      const shelfBookIds = (sh: Shelf) => sh.bookIds.map(localBookId).filter((id): id is string => !!id)
+      setShelves(prev => {
+        const merged = prev.map((local) => {
+          const archived = archive.shelves.find(sh => sh.id === local.id)
+          if (!archived || local.kind !== 'collection') return local
+          const added = shelfBookIds(archived).filter(id => !local.bookIds.includes(id))
+          return added.length > 0 ? { ...local, bookIds: [...local.bookIds, ...added] } : local
+        })
+        const fresh = archive.shelves
+          .filter(sh => !prev.some(p => p.id === sh.id))
+          .map(sh => ({ ...sh, bookIds: shelfBookIds(sh) }))
+        return [...merged, ...fresh]
+      })
+
+      const skipped = archive.books.length - importedBooks.length
+      setLibraryTransferStatus(`Imported ${importedBooks.length} book${importedBooks.length === 1 ? '' : 's'}${skipped > 0 ? `, skipped ${skipped}` : ''}`)
+    } catch (err: any) {
+      setLibraryTransferStatus(`Import failed: ${err?.message || 'Unknown error'}`)
+      console.error('Library import error:', err)
+    }
+  }, [books, highlights, chatThreads])
+
+  const handleImportLibrary = useCallback(async (file: File) => {
+    setLibraryTransferStatus('Reading archive...')
+    try {
+      const archive = await readLibraryArchive(file)
+      const duplicates = await findDuplicateBooks(archive, books)
+      if (duplicates.length > 0) {
+        setLibraryTransferStatus('')
+        setImportReview({ archive, duplicates, decisions: Object.fromEntries(duplicates.map(d => [d.archived.id, 'skip' as ImportDecision])) })
+        return
+      }
+      await applyLibraryImport(archive, [], {})
+    } catch (err: any) {
+      setLibraryTransferStatus(`Import failed: ${err?.message || 'Unknown error'}`)
+      console.error('Library import error:', err)
+    }
+  }, [books, applyLibraryImport])
 
   if (!mounted) {
     return (
@@ -2049,7 +7443,7 @@ export default function Page() {
           <div className="flex items-center gap-2">
             <FiBook className="w-5 h-5 text-primary" />
             <span className="font-serif font-semibold text-foreground tracking-tight">BookShelf</span>
-            <Badge variant="outline" className="text-[9px] ml-1">PDF / DOCX / TXT</Badge>
+            <Badge variant="outline" className="text-[9px] ml-1">PDF / DOCX / TXT / EPUB</Badge>
           </div>
           <div className="flex items-center gap-3">
             <div className="flex items-center gap-2">
@@ -2057,6 +7451,13 @@ export default function Page() {
               <Switch id="sample-toggle" checked={sampleMode} onCheckedChange={setSampleMode} />
             </div>
             <Separator orientation="vertical" className="h-5" />
+            {libraryTransferStatus && <span className="text-[11px] text-muted-foreground hidden md:inline max-w-[220px] truncate">{libraryTransferStatus}</span>}
+            <input ref={importInputRef} type="file" accept=".zip,application/zip" className="hidden" onChange={(e) => { const f = e.target.files?.[0]; if (f) handleImportLibrary(f); e.target.value = '' }} />
+            <TooltipProvider>
+              <Tooltip><TooltipTrigger asChild><button onClick={() => importInputRef.current?.click()} disabled={sampleMode} className="p-1.5 rounded-md hover:bg-secondary transition-colors text-muted-foreground hover:text-foreground disabled:opacity-40"><FiUpload className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">Import Library</p></TooltipContent></Tooltip>
+              <Tooltip><TooltipTrigger asChild><button onClick={handleExportLibrary} disabled={sampleMode || books.length === 0} className="p-1.5 rounded-md hover:bg-secondary transition-colors text-muted-foreground hover:text-foreground disabled:opacity-40"><FiDownload className="w-4 h-4" /></button></TooltipTrigger><TooltipContent><p className="text-xs">Export Library</p></TooltipContent></Tooltip>
+            </TooltipProvider>
+            <Separator orientation="vertical" className="h-5" />
             <button onClick={() => setChatOpen(true)} className="p-1.5 rounded-md hover:bg-secondary transition-colors text-muted-foreground hover:text-foreground relative" title="Open AI Chat">
               <FiMessageSquare className="w-4 h-4" />
               {activeAgentId && <span className="absolute -top-0.5 -right-0.5 w-2 h-2 bg-primary rounded-full animate-pulse" />}
@@ -2066,23 +7467,99 @@ export default function Page() {
 
         {/* Main layout */}
         <div className="flex-1 flex overflow-hidden">
-          <SidebarNav activeScreen={activeScreen} onNavigate={setActiveScreen} collapsed={sidebarCollapsed} onToggle={() => setSidebarCollapsed(!sidebarCollapsed)} />
+          <SidebarNav
+            activeScreen={activeScreen}
+            onNavigate={setActiveScreen}
+            collapsed={sidebarCollapsed}
+            onToggle={() => setSidebarCollapsed(!sidebarCollapsed)}
+            shelves={allShelves}
+            shelfCounts={shelfCounts}
+            totalBooks={books.length}
+            activeShelfId={activeShelfId}
+            onSelectShelf={handleSelectShelf}
+            onNewShelf={handleNewShelf}
+            onEditShelf={handleEditShelf}
+            onDropBook={handleAddToShelf}
+          />
 
           {activeScreen === 'library' && (
-            <LibraryScreen books={books} onSelectBook={handleSelectBook} onUpload={handleUpload} uploading={uploading} uploadStatus={uploadStatus} onDeleteBook={handleDeleteBook} sampleMode={sampleMode} />
+            <LibraryScreen books={books} shelf={activeShelf} onSelectShelf={handleSelectShelf} onEditShelf={handleEditShelf} onRemoveFromShelf={handleRemoveFromShelf} onSelectBook={handleSelectBook} onOpenBookAt={handleOpenBookAt} onUpload={handleUploadFiles} uploadTasks={uploadTasks} onCancelUpload={handleCancelUpload} onRetryUpload={handleRetryUpload} onDismissUploads={handleDismissUploads} onSaveBookDetails={handleSaveBookDetails} onDeleteBook={handleDeleteBook} sampleMode={sampleMode} />
           )}
 
           {activeScreen === 'reader' && (
-            <ReaderScreen book={selectedBook} books={books} onUpdateBook={handleUpdateBook} highlights={highlights} onAddHighlight={handleAddHighlight} chatOpen={chatOpen} onToggleChat={() => setChatOpen(!chatOpen)} onBack={() => setActiveScreen('library')} />
+            <ReaderScreen book={selectedBook} books={books} onUpdateBook={handleUpdateBook} pendingBookmark={pendingBookmark} onPendingBookmarkShown={handlePendingBookmarkShown} highlights={highlights} palette={palette} onAddHighlight={handleAddHighlight} onEditHighlights={handleEditHighlights} onDeleteHighlight={handleDeleteHighlight} chatOpen={chatOpen} onToggleChat={() => setChatOpen(!chatOpen)} onBack={() => setActiveScreen('library')} />
+          )}
+
+          {activeScreen === 'bookmarks' && (
+            <BookmarksScreen books={books} onOpenBookmark={handleOpenBookmark} onUpdateBook={handleUpdateBook} />
+          )}
+
+          {activeScreen === 'trash' && (
+            <TrashScreen trash={trash} books={books} retentionDays={trashRetentionDays} onRestore={handleRestoreFromTrash} onPurge={handlePurgeTrash} onEmptyTrash={handleEmptyTrash} onRetentionChange={handleTrashRetentionChange} />
           )}
 
           {activeScreen === 'annotations' && (
-            <AnnotationsScreen highlights={highlights} books={books} onDeleteHighlight={handleDeleteHighlight} onJumpToHighlight={handleJumpToHighlight} onExport={handleExportAnnotations} />
+            <AnnotationsScreen highlights={highlights} books={books} palette={palette} views={annotationViews} onDeleteHighlight={handleDeleteHighlight} onEditHighlights={handleEditHighlights} onJumpToHighlight={handleJumpToHighlight} onImport={handleImportAnnotations} onSavePalette={handleSavePalette} onSaveView={handleSaveView} onDeleteView={handleDeleteView} />
           )}
         </div>
 
+        <ShelfEditorDialog
+          key={editingShelf?.shelf.id ?? 'none'}
+          shelf={editingShelf?.shelf ?? null}
+          isNew={editingShelf?.isNew ?? false}
+          books={books}
+          onSave={handleSaveShelf}
+          onDelete={handleDeleteShelf}
+          onClose={() => setEditingShelf(null)}
+        />
+
+        {/* Duplicate books found while importing a library archive */}
+        <Dialog open={!!importReview} onOpenChange={(open) => { if (!open) setImportReview(null) }}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle className="font-serif">Books already in your library</DialogTitle>
+              <DialogDescription className="text-xs">
+                {importReview ? `${importReview.duplicates.length} of ${importReview.archive.books.length} books in this archive have the same content as books you already have.` : ''}
+              </DialogDescription>
+            </DialogHeader>
+            {importReview && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-1.5 text-xs">
+                  <span className="text-muted-foreground mr-1">Apply to all:</span>
+                  {(['skip', 'replace', 'keep'] as const).map((d) => (
+                    <Button key={d} variant="outline" size="sm" className="h-6 text-[11px] px-2" onClick={() => setImportReview(r => r && ({ ...r, decisions: Object.fromEntries(r.duplicates.map(dup => [dup.archived.id, d])) }))}>
+                      {d === 'skip' ? 'Skip' : d === 'replace' ? 'Replace' : 'Keep both'}
+                    </Button>
+                  ))}
+                </div>
+                <div className="max-h-64 overflow-y-auto space-y-2">
+                  {importReview.duplicates.map(({ archived, existing }) => (
+                    <div key={archived.id} className="flex items-center gap-3 p-2 rounded border border-border">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground truncate">{archived.title}</p>
+                        <p className="text-[11px] text-muted-foreground truncate">Matches &ldquo;{existing.title}&rdquo;</p>
+                      </div>
+                      <select value={importReview.decisions[archived.id] ?? 'skip'} onChange={(e) => { const d = e.target.value as ImportDecision; setImportReview(r => r && ({ ...r, decisions: { ...r.decisions, [archived.id]: d } })) }} className="text-xs border border-border rounded-md px-2 py-1 bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-ring">
+                        <option value="skip">Skip</option>
+                        <option value="replace">Replace</option>
+                        <option value="keep">Keep both</option>
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button variant="outline" size="sm" onClick={() => setImportReview(null)}>Cancel</Button>
+              <Button size="sm" onClick={() => { if (importReview) applyLibraryImport(importReview.archive, importReview.duplicates, importReview.decisions); setImportReview(null) }}>Import</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Chat panel */}
-        <ChatPanel open={chatOpen} onClose={() => setChatOpen(false)} chatMessages={chatMessages} onSend={handleChatSend} loading={chatLoading} />
+        <Toaster position="bottom-center" />
+
+        <ChatPanel open={chatOpen} onClose={() => setChatOpen(false)} chatMessages={chatMessages} onSend={handleChatSend} onStop={handleChatStop} loading={chatLoading} streamingReply={streamingReply} book={selectedBook} books={books} threads={chatThreads} activeThreadId={activeThreadId} onSelectThread={setActiveThreadId} onNewThread={handleNewThread} onRenameThread={handleRenameThread} />
       </div>
     </ErrorBoundary>
   )
@@ -67,7 +67,7 @@ export function KnowledgeBaseUpload({
 
   const handleFileUpload = async (file: File) => {
     if (!SUPPORTED_FILE_TYPES.includes(file.type as typeof SUPPORTED_FILE_TYPES[number])) {
-      alert('Unsupported file type. Please upload PDF, DOCX, or TXT files.')
+      alert('Unsupported file type. Please upload PDF, DOCX, TXT, or EPUB files.')
       return
     }
 
@@ -138,7 +138,7 @@ export function KnowledgeBaseUpload({
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,.docx,.txt"
+            accept=".pdf,.docx,.txt,.epub"
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -159,7 +159,7 @@ export function KnowledgeBaseUpload({
             {uploadProgress || 'Drag & drop or click to upload'}
           </p>
           <p className="mt-1 text-xs text-muted-foreground">
-            PDF, DOCX, TXT supported
+            PDF, DOCX, TXT, EPUB supported
           </p>
         </div>
 
@@ -44,6 +44,7 @@ interface AgentCallOptions {
   agentId?: string
   userId?: string
   sessionId?: string
+  signal?: AbortSignal
 }
 
 interface UseAgentResult {
@@ -51,6 +52,7 @@ interface UseAgentResult {
   response: NormalizedAgentResponse
   raw_response?: string
   error?: ErrorDetails
+  cancelled?: boolean
 }
 
 // =============================================================================
@@ -124,7 +126,7 @@ export const useAgent = (options: UseAgentOptions = {}) => {
   const [lastResult, setLastResult] = useState<AIAgentResponse | null>(null)
 
   const callAgent = useCallback(async (callOptions: AgentCallOptions): Promise<UseAgentResult> => {
-    const { message, agentId, userId, sessionId } = callOptions
+    const { message, agentId, userId, sessionId, signal } = callOptions
     const finalAgentId = agentId || options.agentId || process.env.NEXT_PUBLIC_AGENT_ID
 
     if (!finalAgentId) {
@@ -145,11 +147,21 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       const result = await callAIAgent(message, finalAgentId, {
         user_id: userId,
         session_id: sessionId,
+        signal,
       })
 
       setLastResult(result)
       setResponse(result.response)
 
+      // Stopped by the caller — not an error worth reporting
+      if (result.cancelled) {
+        return {
+          success: false,
+          response: result.response,
+          cancelled: true,
+        }
+      }
+
       if (!result.success) {
         const errorDetails = createErrorDetails(
           'api_error',
@@ -266,14 +278,23 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 export const callAgentAPI = async (
   message: string,
   agentId: string,
-  options?: { userId?: string; sessionId?: string }
+  options?: { userId?: string; sessionId?: string; signal?: AbortSignal }
 ): Promise<UseAgentResult> => {
   try {
     const result = await callAIAgent(message, agentId, {
       user_id: options?.userId,
       session_id: options?.sessionId,
+      signal: options?.signal,
     })
 
+    if (result.cancelled) {
+      return {
+        success: false,
+        response: result.response,
+        cancelled: true,
+      }
+    }
+
     if (!result.success || result.response.status === 'error') {
       const errorDetails = createErrorDetails(
         'api_error',
@@ -54,6 +54,8 @@ export interface AIAgentResponse {
   raw_response?: string
   error?: string
   details?: string
+  /** Set when the call was stopped through its AbortSignal */
+  cancelled?: boolean
 }
 
 export interface UploadedFile {
@@ -75,20 +77,206 @@ export interface UploadResponse {
   error?: string
 }
 
+export interface AgentStreamUpdate {
+  /** Answer text received so far */
+  text: string
+  /** Array fields of the response that have fully arrived (e.g. sources) */
+  fields: Record<string, any[]>
+}
+
+export interface CallAIAgentOptions {
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+  /** Metadata filter for knowledge base retrieval, matched against the `extra_info` of trained chunks */
+  filter_variables?: Record<string, any>
+  /** When set, the answer is streamed and this is called as it grows */
+  onStream?: (update: AgentStreamUpdate) => void
+  /** Aborting stops streaming/polling and asks the server to drop the task */
+  signal?: AbortSignal
+}
+
 const POLL_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes
 
+function errorResult(message: string): AIAgentResponse {
+  return {
+    success: false,
+    response: { status: 'error', result: {}, message },
+    error: message,
+  }
+}
+
+function cancelledResult(): AIAgentResponse {
+  return { ...errorResult('Request cancelled'), cancelled: true }
+}
+
+/** Wait for `ms`, resolving early if the signal aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/** Tell the server route to drop a task nobody is waiting for */
+function cancelTask(task_id: string) {
+  fetchWrapper('/api/agent', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ task_id }),
+  }).catch(() => {})
+}
+
+/** Resolve with `promise`, or with null as soon as the signal aborts */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T | null> {
+  if (!signal) return promise
+  if (signal.aborted) return Promise.resolve(null)
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(null)
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort)
+        resolve(value)
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort)
+        reject(error)
+      }
+    )
+  })
+}
+
+/**
+ * Stream a chat turn over server-sent events.
+ * Resolves to null only when the route reports the stream unavailable -- the message never
+ * reached the agent, so the caller can submit it as a task instead. Once the stream is open
+ * the turn exists upstream, and a failure is returned as an error rather than re-sent.
+ */
+async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options: CallAIAgentOptions
+): Promise<AIAgentResponse | null> {
+  const res = await fetchWrapper('/api/agent', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      message,
+      agent_id,
+      user_id: options.user_id,
+      session_id: options.session_id,
+      assets: options.assets,
+      filter_variables: options.filter_variables,
+      stream: true,
+    }),
+    signal: options.signal,
+  })
+
+  if (!res) return null
+  const contentType = res.headers.get('content-type') || ''
+  if (!res.body || !contentType.includes('text/event-stream')) {
+    const data = await res.json().catch(() => null)
+    if (!data || data.stream === 'unavailable') return null
+    return data.success === false ? data : errorResult('Unexpected response from stream')
+  }
+
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let text = ''
+  let received = false
+  const fields: Record<string, any[]> = {}
+  let session: { user_id?: string; session_id?: string } = {}
+
+  while (true) {
+    let chunk: ReadableStreamReadResult<Uint8Array>
+    try {
+      chunk = await reader.read()
+    } catch (error) {
+      if (options.signal?.aborted) return cancelledResult()
+      return errorResult(error instanceof Error ? error.message : 'Stream interrupted')
+    }
+    if (chunk.done) break
+    buffer += decoder.decode(chunk.value, { stream: true })
+
+    const frames = buffer.split('\n\n')
+    buffer = frames.pop() ?? ''
+    for (const frame of frames) {
+      const event = frame.match(/^event: (.*)$/m)?.[1] ?? 'message'
+      const dataLine = frame.match(/^data: (.*)$/m)?.[1]
+      if (!dataLine) continue
+      let data: any
+      try {
+        data = JSON.parse(dataLine)
+      } catch {
+        // A malformed frame loses only its own piece of the answer
+        continue
+      }
+
+      switch (event) {
+        case 'session':
+          session = data
+          break
+        case 'delta':
+          received = true
+          text += data.text ?? ''
+          options.onStream?.({ text, fields: { ...fields } })
+          break
+        case 'field':
+          received = true
+          fields[data.name] = data.value
+          options.onStream?.({ text, fields: { ...fields } })
+          break
+        case 'done':
+          return {
+            ...data,
+            agent_id,
+            user_id: data.user_id ?? session.user_id,
+            session_id: data.session_id ?? session.session_id,
+          }
+        case 'error':
+          return errorResult(data.error || 'Stream failed')
+      }
+    }
+  }
+
+  return errorResult(received ? 'Stream ended before the answer completed' : 'Stream ended without an answer')
+}
+
 /**
  * Call the AI Agent via server-side API route.
- * Submits an async task then polls from the client until completion.
+ * Streams the answer when `options.onStream` is given; otherwise (or when the stream
+ * cannot be opened) submits an async task then polls from the client until completion.
  */
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[] }
+  options?: CallAIAgentOptions
 ): Promise<AIAgentResponse> {
+  const signal = options?.signal
+  let pendingTaskId: string | null = null
+
   try {
+    if (signal?.aborted) return cancelledResult()
+
+    if (options?.onStream) {
+      const streamed = await streamAIAgent(message, agent_id, options)
+      if (streamed) return streamed
+      // Stream unavailable and nothing was sent — fall back to task polling
+    }
+
     // 1. Submit task — returns { task_id, agent_id, user_id, session_id }
-    const submitRes = await fetchWrapper('/api/agent', {
+    // The submit is not aborted with the signal: once it answers, a task it created
+    // for a cancelled call can still be dropped on the server.
+    const submitting = fetchWrapper('/api/agent', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -97,8 +285,20 @@ export async function callAIAgent(
         user_id: options?.user_id,
         session_id: options?.session_id,
         assets: options?.assets,
+        filter_variables: options?.filter_variables,
       }),
     })
+    const submitRes = await untilAborted(submitting, signal)
+
+    if (signal?.aborted) {
+      submitting
+        .then(res => res?.json())
+        .then(data => {
+          if (data?.task_id) cancelTask(data.task_id)
+        })
+        .catch(() => {})
+      return cancelledResult()
+    }
 
     if (!submitRes) {
       return {
@@ -122,6 +322,7 @@ export async function callAIAgent(
     }
 
     const { task_id, user_id, session_id } = submitData
+    pendingTaskId = task_id
 
     // 2. Poll POST /api/agent with { task_id } — adaptive backoff from CSR
     const startTime = Date.now()
@@ -129,13 +330,19 @@ export async function callAIAgent(
 
     while (Date.now() - startTime < POLL_TIMEOUT_MS) {
       const delay = Math.min(300 * Math.pow(1.5, attempt), 3000)
-      await new Promise(r => setTimeout(r, delay))
+      await sleep(delay, signal)
       attempt++
 
+      if (signal?.aborted) {
+        cancelTask(task_id)
+        return cancelledResult()
+      }
+
       const pollRes = await fetchWrapper('/api/agent', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ task_id }),
+        signal,
       })
       if (!pollRes) {
         continue // fetchWrapper returned undefined (redirect/error) — retry next poll
@@ -146,6 +353,10 @@ export async function callAIAgent(
         continue
       }
 
+      if (pollData.status === 'cancelled') {
+        return { ...cancelledResult(), agent_id, user_id, session_id }
+      }
+
       // Completed or failed — attach agent_id/user_id/session_id and return
       return {
         ...pollData,
@@ -166,6 +377,10 @@ export async function callAIAgent(
       error: 'Agent task timed out after 5 minutes',
     }
   } catch (error) {
+    if (signal?.aborted) {
+      if (pendingTaskId) cancelTask(pendingTaskId)
+      return cancelledResult()
+    }
     return {
       success: false,
       response: {
@@ -237,7 +452,7 @@ export function useAIAgent() {
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[] }
+    options?: CallAIAgentOptions
   ) => {
     setLoading(true)
     setError(null)
@@ -247,7 +462,7 @@ export function useAIAgent() {
 
     if (result.success) {
       setResponse(result.response)
-    } else {
+    } else if (!result.cancelled) {
       setError(result.error || 'Unknown error')
       setResponse(result.response)
     }
@@ -0,0 +1,344 @@
+'use client'
+
+/**
+ * Book Metadata
+ *
+ * Reads publication details from the places books keep them: a PDF's info dictionary
+ * and XMP packet, the core properties of a DOCX, the package document of an EPUB, and
+ * the opening lines of a plain text file. Every field is optional; sources are combined
+ * with `mergeMetadata`, the first one that has a field winning.
+ */
+
+export interface BookMetadata {
+  title?: string
+  authors?: string[]
+  publisher?: string
+  language?: string
+  /** As precise as the source: yyyy, yyyy-mm or yyyy-mm-dd */
+  publishedDate?: string
+  /** ISBN-10 or ISBN-13, digits only (and a final X) */
+  isbn?: string
+  description?: string
+  series?: string
+  seriesIndex?: number
+  subjects?: string[]
+}
+
+const DC_NS = 'http://purl.org/dc/elements/1.1/'
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#'
+const OPF_NS = 'http://www.idpf.org/2007/opf'
+
+// ISBN-10/13 as usually printed after an "ISBN" label, digits in groups, final X allowed for
+// ISBN-10. Without the label only 978/979 numbers are taken for ISBNs
+const ISBN_CANDIDATE = /\b(97[89][-\s]?(?:\d[-\s]?){9}\d)\b/g
+const ISBN_LABELLED = /ISBN(?:-1[03])?:?\s*((?:97[89][-\s]?)?\d[\d\s-]{7,14}[\dXx])\b/gi
+// Titles producers leave in PDFs that say nothing about the book
+const PLACEHOLDER_TITLE = /^(untitled|document\d*|microsoft (word|powerpoint) - .*|.*\.(docx?|pdf|indd|tex|rtf|odt))$/i
+const YEAR = /\b(1[5-9]\d\d|20\d\d)\b/
+
+function clean(value: string | null | undefined): string | undefined {
+  const text = value?.replace(/\s+/g, ' ').trim()
+  return text ? text : undefined
+}
+
+function usableTitle(value: string | null | undefined): string | undefined {
+  const title = clean(value)
+  return title && title.length > 1 && !PLACEHOLDER_TITLE.test(title) ? title : undefined
+}
+
+// HTML descriptions (common in EPUBs) reduced to their text
+function stripMarkup(value: string | null | undefined): string | undefined {
+  if (!value || !/<[a-z][^>]*>/i.test(value)) return clean(value)
+  return clean(new DOMParser().parseFromString(value, 'text/html').body.textContent)
+}
+
+/** A date as precise as it is given: yyyy, yyyy-mm or yyyy-mm-dd */
+export function normalizeDate(value: string | null | undefined): string | undefined {
+  const m = value?.trim().match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/)
+  if (!m) return undefined
+  return [m[1], m[2], m[3]].filter(Boolean).join('-')
+}
+
+/**
+ * Split an author field into names. Names are separated by ";", "&", "and" or line
+ * breaks, and by commas only when every part is a full name ("Jane Doe, John Smith")
+ * rather than a "Surname, Given" pair.
+ */
+export function splitAuthors(value: string | null | undefined): string[] {
+  const names: string[] = []
+  for (const part of (value ?? '').split(/\s*(?:;|&|\n|\band\b)\s*/i)) {
+    const pieces = part.split(/\s*,\s*/)
+    const fullNames = pieces.length > 1 && pieces.every(p => /\S\s+\S/.test(p))
+    for (const name of fullNames ? pieces : [part]) {
+      const cleaned = clean(name)
+      if (cleaned && !names.includes(cleaned)) names.push(cleaned)
+    }
+  }
+  return names
+}
+
+/** How several authors are written in `Book.author` */
+export function joinAuthors(authors: string[]): string {
+  return authors.join(' & ')
+}
+
+function isbnChecksumValid(digits: string): boolean {
+  if (digits.length === 10) {
+    let sum = 0
+    for (let i = 0; i < 10; i++) {
+      const d = digits[i] === 'X' ? 10 : Number(digits[i])
+      if (isNaN(d) || (digits[i] === 'X' && i < 9)) return false
+      sum += d * (10 - i)
+    }
+    return sum % 11 === 0
+  }
+  if (digits.length === 13 && /^\d+$/.test(digits)) {
+    let sum = 0
+    for (let i = 0; i < 13; i++) sum += Number(digits[i]) * (i % 2 === 0 ? 1 : 3)
+    return sum % 10 === 0
+  }
+  return false
+}
+
+/** An ISBN written in `value`, digits only, when one with a valid check digit is there */
+export function normalizeIsbn(value: string | null | undefined): string | undefined {
+  const digits = (value ?? '').toUpperCase().replace(/[^\dX]/g, '')
+  return isbnChecksumValid(digits) ? digits : undefined
+}
+
+/**
+ * The first valid ISBN in a stretch of text. Numbers labelled "ISBN" are preferred;
+ * unlabelled ones must be ISBN-13s. Either way the check digit has to work out.
+ */
+export function findIsbn(text: string): string | undefined {
+  for (const pattern of [ISBN_LABELLED, ISBN_CANDIDATE]) {
+    pattern.lastIndex = 0
+    for (let m = pattern.exec(text); m; m = pattern.exec(text)) {
+      const isbn = normalizeIsbn(m[1])
+      if (isbn) return isbn
+    }
+  }
+  return undefined
+}
+
+/** Combine metadata from several sources; for each field the first source that has it wins */
+export function mergeMetadata(...sources: BookMetadata[]): BookMetadata {
+  const merged: BookMetadata = {}
+  const take = <K extends keyof BookMetadata>(key: K, value: BookMetadata[K]) => {
+    const empty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+    if (!empty && merged[key] === undefined) merged[key] = value
+  }
+  for (const source of sources) {
+    for (const key of Object.keys(source) as (keyof BookMetadata)[]) take(key, source[key])
+  }
+  return merged
+}
+
+// Values of an XMP property: the items of an rdf:Alt/Seq/Bag, or the element's own text
+function xmpValues(doc: Document, namespace: string, name: string): string[] {
+  const values: string[] = []
+  for (const el of Array.from(doc.getElementsByTagNameNS(namespace, name))) {
+    const items = el.getElementsByTagNameNS(RDF_NS, 'li')
+    const texts = items.length > 0 ? Array.from(items).map(li => li.textContent) : [el.textContent]
+    for (const text of texts) {
+      const value = clean(text)
+      if (value) values.push(value)
+    }
+  }
+  // The compact form writes simple properties as attributes of rdf:Description
+  for (const el of Array.from(doc.getElementsByTagNameNS(RDF_NS, 'Description'))) {
+    const value = clean(el.getAttributeNS(namespace, name))
+    if (value) values.push(value)
+  }
+  return values
+}
+
+// ISBNs are kept under different schemas (prism:isbn, pdfx:ISBN...), matched by local name
+function xmpIsbn(doc: Document): string | undefined {
+  for (const el of Array.from(doc.getElementsByTagName('*'))) {
+    if (el.localName.toLowerCase() === 'isbn') {
+      const isbn = normalizeIsbn(el.textContent)
+      if (isbn) return isbn
+    }
+    for (const attr of Array.from(el.attributes)) {
+      if (attr.localName.toLowerCase() !== 'isbn') continue
+      const isbn = normalizeIsbn(attr.value)
+      if (isbn) return isbn
+    }
+  }
+  return undefined
+}
+
+/** Dublin Core and ISBN fields of an XMP packet, as embedded in PDFs */
+export function parseXmpMetadata(xml: string): BookMetadata {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) return {}
+  const authors = xmpValues(doc, DC_NS, 'creator').flatMap(splitAuthors)
+  return {
+    title: usableTitle(xmpValues(doc, DC_NS, 'title')[0]),
+    authors: Array.from(new Set(authors)),
+    publisher: xmpValues(doc, DC_NS, 'publisher')[0],
+    language: xmpValues(doc, DC_NS, 'language')[0],
+    publishedDate: normalizeDate(xmpValues(doc, DC_NS, 'date')[0]),
+    isbn: xmpIsbn(doc) ?? xmpValues(doc, DC_NS, 'identifier').map(normalizeIsbn).find(Boolean),
+    description: xmpValues(doc, DC_NS, 'description')[0],
+    subjects: xmpValues(doc, DC_NS, 'subject').flatMap(s => s.split(/\s*[;,]\s*/)).filter(Boolean),
+  }
+}
+
+/** The document information dictionary PDF.js returns from `getMetadata()` */
+export function parsePdfInfo(info: Record<string, unknown> | null | undefined): BookMetadata {
+  const text = (key: string) => typeof info?.[key] === 'string' ? clean(info[key] as string) : undefined
+  return {
+    title: usableTitle(text('Title')),
+    authors: splitAuthors(text('Author')),
+    description: text('Subject'),
+    subjects: (text('Keywords') ?? '').split(/\s*[;,]\s*/).filter(Boolean),
+    isbn: normalizeIsbn(text('ISBN')),
+  }
+}
+
+/** `docProps/core.xml` of a DOCX (Open Packaging Conventions core properties) */
+export function parseDocxCoreProperties(xml: string): BookMetadata {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) return {}
+  const field = (name: string) => clean(Array.from(doc.getElementsByTagName('*')).find(el => el.localName === name)?.textContent)
+  return {
+    title: usableTitle(field('title')),
+    authors: splitAuthors(field('creator')),
+    language: field('language'),
+    isbn: normalizeIsbn(field('identifier')),
+    description: field('description') ?? field('subject'),
+    subjects: (field('keywords') ?? '').split(/\s*[;,]\s*/).filter(Boolean),
+  }
+}
+
+/** The `<metadata>` of an EPUB package document, with Calibre and EPUB 3 series information */
+export function parseOpfMetadata(opf: Document): BookMetadata {
+  const dc = (name: string) => Array.from(opf.getElementsByTagNameNS(DC_NS, name))
+  const metas = Array.from(opf.getElementsByTagName('meta'))
+  const metaContent = (name: string) => clean(metas.find(m => m.getAttribute('name') === name)?.getAttribute('content'))
+
+  // EPUB 2 marks roles with opf:role; EPUB 3 refines creators elsewhere, so unmarked ones count
+  const authors = dc('creator')
+    .filter((el) => {
+      const role = el.getAttributeNS(OPF_NS, 'role') || el.getAttribute('opf:role')
+      return !role || role === 'aut'
+    })
+    .flatMap(el => splitAuthors(el.textContent))
+
+  const collection = metas.find(m => m.getAttribute('property') === 'belongs-to-collection')
+  const collectionId = collection?.getAttribute('id')
+  const position = collectionId ? metas.find(m => m.getAttribute('refines') === `#${collectionId}` && m.getAttribute('property') === 'group-position')?.textContent : undefined
+  const seriesIndex = Number(metaContent('calibre:series_index') ?? position)
+
+  return {
+    title: usableTitle(dc('title')[0]?.textContent),
+    authors: Array.from(new Set(authors)),
+    publisher: clean(dc('publisher')[0]?.textContent),
+    language: clean(dc('language')[0]?.textContent),
+    publishedDate: normalizeDate(dc('date')[0]?.textContent),
+    isbn: dc('identifier').map(el => normalizeIsbn(el.textContent?.replace(/^urn:isbn:/i, ''))).find(Boolean),
+    description: stripMarkup(dc('description')[0]?.textContent),
+    series: metaContent('calibre:series') ?? clean(collection?.textContent),
+    seriesIndex: isNaN(seriesIndex) || seriesIndex <= 0 ? undefined : seriesIndex,
+    subjects: dc('subject').map(el => clean(el.textContent)).filter((s): s is string => !!s),
+  }
+}
+
+// "key: value" lines of a YAML-style front matter block
+function readFrontMatter(text: string): Map<string, string> {
+  const fields = new Map<string, string>()
+  const block = text.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)\s*(?:\r?\n|$)/)
+  if (!block) return fields
+  for (const line of block[1].split(/\r?\n/)) {
+    const m = line.match(/^([A-Za-z][\w -]*):\s*(.*)$/)
+    if (m) fields.set(m[1].trim().toLowerCase(), m[2].trim().replace(/^["']|["']$/g, ''))
+  }
+  return fields
+}
+
+// "Title: ..." style header lines (Project Gutenberg and similar), with indented continuations
+function readHeaderFields(lines: string[]): Map<string, string> {
+  const fields = new Map<string, string>()
+  let last = ''
+  for (const line of lines) {
+    const m = line.match(/^(Title|Author|Authors|Language|Publisher|Series|ISBN|Original publication date|Published|Date of publication):\s*(.+)$/i)
+    if (m) {
+      last = m[1].toLowerCase()
+      if (!fields.has(last)) fields.set(last, m[2].trim())
+    } else if (last && /^\s{2,}\S/.test(line) && fields.has(last)) {
+      fields.set(last, `${fields.get(last)} ${line.trim()}`)
+    } else {
+      last = ''
+    }
+  }
+  return fields
+}
+
+/**
+ * Guess the metadata of a plain text book from its opening: a YAML front matter block,
+ * "Title:"/"Author:" header lines, or a title followed by a "by ..." line, plus the
+ * ISBN, publisher and first publication year of a copyright page.
+ */
+export function detectTextMetadata(text: string): BookMetadata {
+  const head = text.slice(0, 20000)
+  const lines = head.split(/\r?\n/).slice(0, 200)
+  const front = readFrontMatter(head)
+  const header = readHeaderFields(lines)
+  const field = (...names: string[]) => {
+    for (const name of names) {
+      const value = front.get(name) ?? header.get(name)
+      if (value) return clean(value)
+    }
+    return undefined
+  }
+
+  // A short line followed by "by Someone" among the first non-empty lines
+  let bylineTitle: string | undefined
+  let bylineAuthor: string | undefined
+  const opening = lines.map(l => l.trim()).filter(Boolean).slice(0, 12)
+  for (let i = 1; i < opening.length; i++) {
+    const by = opening[i].match(/^by\s+(.{3,80})$/i)
+    if (by && opening[i - 1].length <= 120) {
+      bylineTitle = opening[i - 1]
+      bylineAuthor = by[1]
+      break
+    }
+  }
+
+  const publisher = field('publisher') ?? clean(head.match(/^\s*Published by\s+([^\n.]{3,80})/im)?.[1])
+  const firstPublished = head.match(/first published(?: in)?[^\n]{0,40}?\b(1[5-9]\d\d|20\d\d)\b/i)?.[1]
+    ?? head.match(/(?:copyright|\u00A9|\(c\))\s*(?:\u00A9\s*)?(1[5-9]\d\d|20\d\d)\b/i)?.[1]
+  const date = field('date', 'published', 'original publication date', 'date of publication')
+  const seriesIndex = Number(field('series_index', 'series-index', 'series index'))
+
+  return {
+    title: usableTitle(field('title') ?? bylineTitle),
+    authors: splitAuthors(field('author', 'authors') ?? bylineAuthor),
+    publisher,
+    language: field('language', 'lang'),
+    publishedDate: normalizeDate(date) ?? date?.match(YEAR)?.[1] ?? firstPublished,
+    isbn: normalizeIsbn(field('isbn')) ?? findIsbn(head),
+    description: field('description', 'summary'),
+    series: field('series'),
+    seriesIndex: isNaN(seriesIndex) || seriesIndex <= 0 ? undefined : seriesIndex,
+    subjects: (field('tags', 'keywords', 'subjects') ?? '').replace(/^\[|\]$/g, '').split(/\s*,\s*/).map(s => s.replace(/^["']|["']$/g, '')).filter(Boolean),
+  }
+}
+
+// Leading articles ignored when sorting titles
+const TITLE_ARTICLE = /^(the|a|an)\s+/i
+
+/** Sort key for a title: lower case, without a leading "The", "A" or "An" */
+export function titleSortKey(title: string): string {
+  return title.trim().replace(TITLE_ARTICLE, '').toLowerCase()
+}
+
+/** Sort key for an author field: the first author's surname, then the given names */
+export function authorSortKey(author: string): string {
+  const first = splitAuthors(author)[0] ?? ''
+  if (first.includes(',')) return first.toLowerCase()
+  const parts = first.split(/\s+/)
+  return parts.length > 1 ? `${parts[parts.length - 1]}, ${parts.slice(0, -1).join(' ')}`.toLowerCase() : first.toLowerCase()
+}
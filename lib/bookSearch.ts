@@ -0,0 +1,215 @@
+'use client'
+
+/**
+ * Book Full-Text Search
+ *
+ * Searches a book's per-page text (PDF pages, DOCX/TXT/EPUB sections) and
+ * paints the matches on the rendered page with the CSS Custom Highlight API.
+ */
+
+export interface BookSearchOptions {
+  caseSensitive: boolean
+  wholeWord: boolean
+  regex: boolean
+}
+
+export interface BookSearchHit {
+  id: string
+  pageIndex: number
+  /** Position of the match among all matches on its page, in reading order */
+  occurrence: number
+  start: number
+  end: number
+  match: string
+  before: string
+  after: string
+  score: number
+}
+
+export interface BookSearchResult {
+  /** Hits in reading order -- used for next/previous navigation */
+  hits: BookSearchHit[]
+  /** The same hits, best first */
+  ranked: BookSearchHit[]
+  truncated: boolean
+}
+
+export const MAX_SEARCH_HITS = 1000
+const SNIPPET_CONTEXT = 50
+
+export const SEARCH_HIT_HIGHLIGHT = 'book-search-hit'
+export const SEARCH_ACTIVE_HIGHLIGHT = 'book-search-active'
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Build the global RegExp for a query. Returns an error message instead when the
+ * query is a regular expression that does not compile.
+ */
+export function buildSearchPattern(
+  query: string,
+  options: BookSearchOptions
+): { pattern: RegExp | null; error: string | null } {
+  if (!query.trim()) return { pattern: null, error: null }
+
+  let source = options.regex ? query : escapeRegExp(query)
+  if (options.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`
+
+  try {
+    return { pattern: new RegExp(source, options.caseSensitive ? 'gu' : 'giu'), error: null }
+  } catch (err: any) {
+    return { pattern: null, error: err?.message || 'Invalid regular expression' }
+  }
+}
+
+const WORD_CHAR = new RegExp('[\\p{L}\\p{N}_]', 'u')
+
+function isWordChar(ch: string | undefined): boolean {
+  return !!ch && WORD_CHAR.test(ch)
+}
+
+/**
+ * Search every page. Each hit is scored so the ranked list favours exact-case,
+ * whole-word matches on pages where the query occurs most.
+ */
+export function searchBookPages(
+  pages: string[],
+  pattern: RegExp,
+  query: string
+): BookSearchResult {
+  const hits: BookSearchHit[] = []
+  const pageHitCounts: number[] = []
+  let truncated = false
+
+  for (let pageIndex = 0; pageIndex < pages.length && !truncated; pageIndex++) {
+    const text = pages[pageIndex] ?? ''
+    const re = new RegExp(pattern.source, pattern.flags)
+    let occurrence = 0
+    let m: RegExpExecArray | null
+
+    while ((m = re.exec(text)) !== null) {
+      if (m[0].length === 0) {
+        re.lastIndex++
+        continue
+      }
+      const start = m.index
+      const end = start + m[0].length
+      const wholeWord = !isWordChar(text[start - 1]) && !isWordChar(text[end])
+      const exactCase = m[0] === query
+      hits.push({
+        id: `${pageIndex}:${occurrence}`,
+        pageIndex,
+        occurrence,
+        start,
+        end,
+        match: m[0],
+        before: (start > SNIPPET_CONTEXT ? '…' : '') + text.substring(Math.max(0, start - SNIPPET_CONTEXT), start).replace(/\s+/g, ' '),
+        after: text.substring(end, end + SNIPPET_CONTEXT).replace(/\s+/g, ' ') + (end + SNIPPET_CONTEXT < text.length ? '…' : ''),
+        score: (wholeWord ? 2 : 0) + (exactCase ? 1 : 0),
+      })
+      occurrence++
+      if (hits.length >= MAX_SEARCH_HITS) {
+        truncated = true
+        break
+      }
+    }
+    pageHitCounts[pageIndex] = occurrence
+  }
+
+  for (const hit of hits) {
+    hit.score += Math.min(pageHitCounts[hit.pageIndex] ?? 0, 10) / 10
+  }
+
+  const ranked = [...hits].sort((a, b) => b.score - a.score || a.pageIndex - b.pageIndex || a.start - b.start)
+  return { hits, ranked, truncated }
+}
+
+const BLOCK_TAGS = new Set(['P', 'DIV', 'LI', 'BLOCKQUOTE', 'PRE', 'SECTION', 'ARTICLE', 'TD', 'TH', 'TR', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6'])
+
+function nearestBlock(node: Node, root: Node): Node {
+  let el = node.parentNode
+  while (el && el !== root && !BLOCK_TAGS.has((el as Element).tagName)) el = el.parentNode
+  return el ?? root
+}
+
+/**
+ * Find the DOM ranges under `root` that match `pattern`. Text nodes are joined the
+ * way the page text was extracted: `separator` between every node when given (the
+ * PDF text layer), otherwise a newline between block elements.
+ */
+export function findTextRanges(root: HTMLElement, pattern: RegExp, separator?: string): Range[] {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  const nodes: { node: Text; start: number }[] = []
+  let text = ''
+  let prevBlock: Node | null = null
+
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+    const node = n as Text
+    if (!node.nodeValue) continue
+    const parentTag = node.parentElement?.tagName
+    if (parentTag === 'STYLE' || parentTag === 'SCRIPT') continue
+    const block = nearestBlock(node, root)
+    if (nodes.length > 0) {
+      if (separator !== undefined) text += separator
+      else if (block !== prevBlock) text += '\n'
+    }
+    prevBlock = block
+    nodes.push({ node, start: text.length })
+    text += node.nodeValue
+  }
+
+  // Maps an offset in the joined text to a position inside a text node
+  const locate = (offset: number, isEnd: boolean): { node: Text; offset: number } | null => {
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      const { node, start } = nodes[i]
+      if (offset > start || (!isEnd && offset === start)) {
+        return { node, offset: Math.min(offset - start, node.length) }
+      }
+    }
+    return nodes[0] ? { node: nodes[0].node, offset: 0 } : null
+  }
+
+  const ranges: Range[] = []
+  const re = new RegExp(pattern.source, pattern.flags)
+  let m: RegExpExecArray | null
+  while ((m = re.exec(text)) !== null) {
+    if (m[0].length === 0) {
+      re.lastIndex++
+      continue
+    }
+    const from = locate(m.index, false)
+    const to = locate(m.index + m[0].length, true)
+    if (!from || !to) continue
+    const range = document.createRange()
+    range.setStart(from.node, from.offset)
+    range.setEnd(to.node, to.offset)
+    ranges.push(range)
+    if (ranges.length >= MAX_SEARCH_HITS) break
+  }
+  return ranges
+}
+
+export function supportsSearchHighlights(): boolean {
+  return typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined'
+}
+
+/**
+ * Paint `ranges` as search hits, with the one at `activeIndex` emphasised.
+ * Returns the active range so the caller can scroll it into view.
+ */
+export function paintSearchHighlights(ranges: Range[], activeIndex: number): Range | null {
+  if (!supportsSearchHighlights()) return ranges[activeIndex] ?? null
+  const active = ranges[activeIndex] ?? null
+  CSS.highlights.set(SEARCH_HIT_HIGHLIGHT, new Highlight(...ranges.filter(r => r !== active)))
+  if (active) CSS.highlights.set(SEARCH_ACTIVE_HIGHLIGHT, new Highlight(active))
+  else CSS.highlights.delete(SEARCH_ACTIVE_HIGHLIGHT)
+  return active
+}
+
+export function clearSearchHighlights(): void {
+  if (!supportsSearchHighlights()) return
+  CSS.highlights.delete(SEARCH_HIT_HIGHLIGHT)
+  CSS.highlights.delete(SEARCH_ACTIVE_HIGHLIGHT)
+}
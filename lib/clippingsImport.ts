@@ -0,0 +1,278 @@
+'use client'
+
+/**
+ * Clippings Import
+ *
+ * Reads highlights exported by other reading apps -- Kindle's "My Clippings.txt" and
+ * CSV files with a header row -- into plain entries, and finds a passage in a book's
+ * page text so an entry can be placed on the right page.
+ */
+
+export interface ClippingEntry {
+  title: string
+  author: string
+  text: string
+  note: string
+  /** Page number printed in the source, 1-based */
+  page?: number
+  /** The source's own position, e.g. a Kindle location range */
+  location?: string
+  /** ISO timestamp, when the source has a readable date */
+  addedAt?: string
+  color?: string
+  tags: string[]
+}
+
+const KINDLE_SEPARATOR = /^=+\s*$/m
+const KINDLE_META = /^-\s*(.*)$/
+const KINDLE_PAGE = /\bpage\s+(\d+)/i
+const KINDLE_LOCATION = /\b(?:location|loc\.?)\s+([\d-]+)/i
+const KINDLE_ADDED = /\badded on\s+(.+)$/i
+
+// Where a passage search gives up on the full text and tries its opening words instead
+const PASSAGE_PROBE = 80
+
+// "Title (Author)" -- the author is the last parenthesised part, titles can have their own
+function splitKindleTitle(line: string): { title: string; author: string } {
+  const m = line.match(/^(.*)\(([^()]*)\)\s*$/)
+  if (!m || !m[1].trim()) return { title: line.trim(), author: '' }
+  return { title: m[1].trim(), author: m[2].trim() }
+}
+
+function kindleDate(meta: string): string | undefined {
+  const added = meta.match(KINDLE_ADDED)?.[1]
+  if (!added) return undefined
+  // "Monday, March 4, 2019 1:02:03 PM" -- the weekday trips up Date parsing
+  const time = Date.parse(added.replace(/^[^,\d]+,\s*/, ''))
+  return isNaN(time) ? undefined : new Date(time).toISOString()
+}
+
+function locationStart(location: string | undefined): number {
+  return location ? parseInt(location, 10) : NaN
+}
+
+function locationEnd(location: string | undefined): number {
+  if (!location) return NaN
+  const parts = location.split('-')
+  return parseInt(parts[parts.length - 1], 10)
+}
+
+/**
+ * Parse a Kindle "My Clippings.txt". Notes are attached to the highlight they were made
+ * on (the one ending at the note's location); bookmarks and notes without a highlight
+ * are skipped. Kindle appends a new clipping every time a highlight is changed, so an
+ * earlier clipping is dropped when a later one starts at the same place.
+ */
+export function parseKindleClippings(text: string): { entries: ClippingEntry[]; skipped: number } {
+  const entries: (ClippingEntry & { kind: 'highlight' })[] = []
+  const notes: { title: string; note: string; location?: string; page?: number }[] = []
+  let skipped = 0
+
+  for (const block of text.replace(/^\uFEFF/, '').split(KINDLE_SEPARATOR)) {
+    const lines = block.split(/\r?\n/).map(line => line.replace(/^\uFEFF/, ''))
+    while (lines.length > 0 && !lines[0].trim()) lines.shift()
+    if (lines.length < 2) continue
+    const { title, author } = splitKindleTitle(lines[0])
+    const meta = lines[1].match(KINDLE_META)?.[1] ?? ''
+    const body = lines.slice(2).join('\n').trim()
+    const page = meta.match(KINDLE_PAGE)?.[1]
+    const location = meta.match(KINDLE_LOCATION)?.[1]
+
+    if (/\bnote\b/i.test(meta)) {
+      if (body) notes.push({ title, note: body, location, page: page ? Number(page) : undefined })
+      continue
+    }
+    if (/\bbookmark\b/i.test(meta) || !body) {
+      skipped++
+      continue
+    }
+
+    const entry = { kind: 'highlight' as const, title, author, text: body, note: '', page: page ? Number(page) : undefined, location, addedAt: kindleDate(meta), tags: [] }
+    const replaced = entries.findIndex(e =>
+      e.title === title &&
+      (e.text === body || (!!location && locationStart(e.location) === locationStart(location)))
+    )
+    if (replaced >= 0) entries[replaced] = entry
+    else entries.push(entry)
+  }
+
+  for (const n of notes) {
+    const at = locationStart(n.location)
+    const target = entries.find(e => e.title === n.title && !isNaN(at) && locationStart(e.location) <= at && at <= locationEnd(e.location)) ??
+      entries.find(e => e.title === n.title && n.page !== undefined && e.page === n.page && !e.note)
+    if (target) target.note = target.note ? `${target.note}\n\n${n.note}` : n.note
+    else skipped++
+  }
+
+  return { entries: entries.map(({ kind: _kind, ...entry }) => entry), skipped }
+}
+
+/** Split CSV text into rows of fields (RFC 4180: quoted fields, doubled quotes, CRLF or LF) */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const source = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i]
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"' && !field) {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(r => r.some(f => f.trim()))
+}
+
+// Header names other apps use for each column, matched case-insensitively
+const CSV_COLUMNS: Record<keyof ClippingEntry, string[]> = {
+  title: ['title', 'book', 'book title'],
+  author: ['author', 'authors', 'book author'],
+  text: ['highlight', 'text', 'quote', 'passage', 'content'],
+  note: ['note', 'notes', 'annotation', 'comment'],
+  page: ['page', 'page number', 'location'],
+  location: ['location', 'position'],
+  addedAt: ['created', 'date', 'date added', 'added', 'highlighted at', 'created at'],
+  color: ['color', 'colour'],
+  tags: ['tags', 'tag', 'labels'],
+}
+
+/**
+ * Parse a CSV of highlights with a header row -- this app's own CSV export, or the
+ * exports of other readers -- by recognising the usual column names. Throws when
+ * there is no column holding the highlighted text.
+ */
+export function parseClippingsCsv(text: string): ClippingEntry[] {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) return []
+  const names = header.map(h => h.trim().toLowerCase())
+  const column = (key: keyof typeof CSV_COLUMNS) => {
+    for (const name of CSV_COLUMNS[key]) {
+      const index = names.indexOf(name)
+      if (index >= 0) return index
+    }
+    return -1
+  }
+  const columns = {
+    title: column('title'),
+    author: column('author'),
+    text: column('text'),
+    note: column('note'),
+    page: column('page'),
+    location: column('location'),
+    addedAt: column('addedAt'),
+    color: column('color'),
+    tags: column('tags'),
+  }
+  if (columns.text < 0) throw new Error('No highlight column found in the CSV header')
+
+  const value = (row: string[], index: number) => index >= 0 ? (row[index] ?? '').trim() : ''
+  return rows.map((row) => {
+    const page = value(row, columns.page).match(/\d+/)?.[0]
+    const added = Date.parse(value(row, columns.addedAt))
+    return {
+      title: value(row, columns.title),
+      author: value(row, columns.author),
+      text: value(row, columns.text),
+      note: value(row, columns.note),
+      page: page ? Number(page) : undefined,
+      location: value(row, columns.location) || undefined,
+      addedAt: isNaN(added) ? undefined : new Date(added).toISOString(),
+      color: value(row, columns.color) || undefined,
+      tags: value(row, columns.tags).split(/[;,]/).map(t => t.trim()).filter(Boolean),
+    }
+  }).filter(entry => entry.text)
+}
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g
+const NOT_WORD = new RegExp('[^\\p{L}\\p{N}]+', 'gu')
+const WORD_CHAR = new RegExp('[\\p{L}\\p{N}]', 'u')
+
+/** Compare titles and passages without regard to case, accents, punctuation or spacing */
+export function normalizeForMatch(text: string): string {
+  return text.toLowerCase().normalize('NFKD').replace(COMBINING_MARKS, '').replace(NOT_WORD, ' ').trim()
+}
+
+/** A book's page texts normalised for passage search, each kept character mapped to its offset */
+export interface PassageIndex {
+  pages: { text: string; offsets: number[] }[]
+}
+
+export function indexPassages(pages: string[]): PassageIndex {
+  return {
+    pages: pages.map((page) => {
+      let text = ''
+      const offsets: number[] = []
+      let pendingSpace = false
+      for (let i = 0; i < page.length; i++) {
+        const folded = page[i].toLowerCase().normalize('NFKD').replace(COMBINING_MARKS, '')
+        if (!folded || !WORD_CHAR.test(folded)) {
+          pendingSpace = text.length > 0
+          continue
+        }
+        if (pendingSpace) {
+          text += ' '
+          offsets.push(i)
+          pendingSpace = false
+        }
+        for (const c of folded) {
+          if (!WORD_CHAR.test(c)) continue
+          text += c
+          offsets.push(i)
+        }
+      }
+      return { text, offsets }
+    }),
+  }
+}
+
+/**
+ * Find `passage` in an indexed book, ignoring case, punctuation and spacing. Pages near
+ * `pageHint` are searched first; a passage that isn't found whole is looked for by its
+ * opening words, since exports often shorten long highlights.
+ */
+export function findPassage(index: PassageIndex, passage: string, pageHint?: number): { pageIndex: number; start: number; end: number } | null {
+  const needle = normalizeForMatch(passage)
+  if (!needle) return null
+  const probe = needle.length > PASSAGE_PROBE ? needle.slice(0, PASSAGE_PROBE).replace(/\s\S*$/, '') : null
+
+  const order = index.pages.map((_, i) => i)
+  if (pageHint !== undefined) order.sort((a, b) => Math.abs(a - pageHint) - Math.abs(b - pageHint))
+
+  const search = (target: string) => {
+    for (const pageIndex of order) {
+      const page = index.pages[pageIndex]
+      const at = page.text.indexOf(target)
+      if (at < 0) continue
+      // A shortened passage is taken to run as long as the whole one would
+      const last = Math.min(at + needle.length, page.text.length) - 1
+      return { pageIndex, start: page.offsets[at], end: page.offsets[last] + 1 }
+    }
+    return null
+  }
+  return search(needle) ?? (probe ? search(probe) : null)
+}
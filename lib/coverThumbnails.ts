@@ -0,0 +1,80 @@
+'use client'
+
+/**
+ * Cover Thumbnails
+ *
+ * Makes the small cover images shown on the shelf: a render of a PDF's first page, or a
+ * scaled-down copy of an image taken from the book or picked by the reader. Thumbnails
+ * are JPEG data URLs of at most `THUMBNAIL_WIDTH` x `THUMBNAIL_HEIGHT`, small enough to
+ * keep in IndexedDB next to the book.
+ */
+
+// Twice the size covers are shown at, for high-density screens
+export const THUMBNAIL_WIDTH = 320
+export const THUMBNAIL_HEIGHT = 480
+const THUMBNAIL_QUALITY = 0.82
+
+// Images smaller than this on either side are icons or rules rather than covers
+const MIN_COVER_SIDE = 120
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error('The image could not be read'))
+    img.src = src
+  })
+}
+
+function toJpeg(canvas: HTMLCanvasElement): string {
+  return canvas.toDataURL('image/jpeg', THUMBNAIL_QUALITY)
+}
+
+// A canvas of the given size with a white background, since JPEG has no transparency
+function whiteCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width))
+  canvas.height = Math.max(1, Math.round(height))
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas rendering is not available')
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  return { canvas, ctx }
+}
+
+/**
+ * Scale an image (a data or object URL) down to fit a thumbnail, keeping its proportions.
+ * Resolves to null for an image smaller than `minSide` on either side.
+ */
+export async function imageToThumbnail(src: string, minSide = 0): Promise<string | null> {
+  const img = await loadImage(src)
+  const width = img.naturalWidth
+  const height = img.naturalHeight
+  if (!width || !height || width < minSide || height < minSide) return null
+  const scale = Math.min(1, THUMBNAIL_WIDTH / width, THUMBNAIL_HEIGHT / height)
+  const { canvas, ctx } = whiteCanvas(width * scale, height * scale)
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+  return toJpeg(canvas)
+}
+
+/**
+ * Thumbnail of the first image in `sources` big enough to be a cover, in document
+ * order -- the first picture of a DOCX is usually its cover or title art.
+ */
+export async function firstImageThumbnail(sources: string[]): Promise<string | null> {
+  for (const src of sources) {
+    const thumbnail = await imageToThumbnail(src, MIN_COVER_SIDE).catch(() => null)
+    if (thumbnail) return thumbnail
+  }
+  return null
+}
+
+/** Render a PDF.js page (from `pdf.getPage`) as a thumbnail */
+export async function renderPdfPageThumbnail(page: any): Promise<string> {
+  const base = page.getViewport({ scale: 1 })
+  const scale = Math.min(THUMBNAIL_WIDTH / base.width, THUMBNAIL_HEIGHT / base.height)
+  const viewport = page.getViewport({ scale })
+  const { canvas, ctx } = whiteCanvas(viewport.width, viewport.height)
+  await page.render({ canvasContext: ctx, viewport }).promise
+  return toJpeg(canvas)
+}
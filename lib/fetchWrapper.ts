@@ -111,6 +111,11 @@ const fetchWrapper = async (...args) => {
 
     return response;
   } catch (error) {
+    // caller aborted the request — not a backend failure
+    if (error?.name === "AbortError") {
+      throw error;
+    }
+
     // network failures
     const requestUrl = typeof args[0] === "string" ? args[0] : args[0]?.url || "";
     sendErrorToParent(
@@ -0,0 +1,349 @@
+'use client'
+
+/**
+ * Highlight Anchoring
+ *
+ * Text highlights are anchored to a character range of the text they were made in,
+ * together with a quote of the passage and a little context on each side, so they can
+ * be found again when the text shifts. PDF highlights are anchored to rectangles in
+ * page space. Text highlights are painted with the CSS Custom Highlight API, one
+ * registry per palette color.
+ */
+
+export interface TextQuote {
+  exact: string
+  prefix: string
+  suffix: string
+}
+
+export interface TextAnchor {
+  start: number
+  end: number
+  quote: TextQuote
+}
+
+/** A rectangle in PDF page space: unscaled page units from the top-left corner */
+export interface PageRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface TextNodeOffset {
+  node: Text
+  start: number
+}
+
+const QUOTE_CONTEXT = 32
+// Edited passages are found again by their first and last few characters
+const QUOTE_EDGE = 24
+const MAX_CANDIDATES = 1000
+
+export function createTextAnchor(text: string, start: number, end: number): TextAnchor {
+  return {
+    start,
+    end,
+    quote: {
+      exact: text.slice(start, end),
+      prefix: text.slice(Math.max(0, start - QUOTE_CONTEXT), start),
+      suffix: text.slice(end, end + QUOTE_CONTEXT),
+    },
+  }
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let n = 0
+  while (n < a.length && n < b.length && a[n] === b[n]) n++
+  return n
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let n = 0
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++
+  return n
+}
+
+function nearestIndexOf(text: string, needle: string, position: number, from = 0, to = text.length): number {
+  let best = -1
+  let seen = 0
+  for (let i = text.indexOf(needle, from); i >= 0 && i <= to && seen < MAX_CANDIDATES; i = text.indexOf(needle, i + 1), seen++) {
+    if (best < 0 || Math.abs(i - position) < Math.abs(best - position)) best = i
+  }
+  return best
+}
+
+// Quote context trimmed to the usual length after an edit moved characters into it
+function withContext(start: number, exact: string, prefix: string, suffix: string): TextAnchor {
+  return {
+    start,
+    end: start + exact.length,
+    quote: { exact, prefix: prefix.slice(-QUOTE_CONTEXT), suffix: suffix.slice(0, QUOTE_CONTEXT) },
+  }
+}
+
+/**
+ * Move one edge of `anchor` by a word: `grow` takes the next word of the context into
+ * the passage, otherwise the word at that edge is given back. Works from the quote
+ * alone, so it only reaches as far as the stored context. Returns null when the edge
+ * can't move.
+ */
+export function adjustTextAnchor(anchor: TextAnchor, edge: 'start' | 'end', grow: boolean): TextAnchor | null {
+  const { exact, prefix, suffix } = anchor.quote
+  if (edge === 'start' && grow) {
+    const word = prefix.match(/\S+\s*$/)?.[0]
+    return word ? withContext(anchor.start - word.length, word + exact, prefix.slice(0, -word.length), suffix) : null
+  }
+  if (edge === 'start') {
+    const word = exact.match(/^\S+\s*/)?.[0]
+    return word && word.length < exact.length ? withContext(anchor.start + word.length, exact.slice(word.length), prefix + word, suffix) : null
+  }
+  if (grow) {
+    const word = suffix.match(/^\s*\S+/)?.[0]
+    return word ? withContext(anchor.start, exact + word, prefix, suffix.slice(word.length)) : null
+  }
+  const word = exact.match(/\s*\S+$/)?.[0]
+  return word && word.length < exact.length ? withContext(anchor.start, exact.slice(0, -word.length), prefix, word + suffix) : null
+}
+
+/** Split `anchor` at `at` characters into its passage; whitespace at the cut goes to neither half */
+export function splitTextAnchor(anchor: TextAnchor, at: number): [TextAnchor, TextAnchor] | null {
+  const { exact, prefix, suffix } = anchor.quote
+  const head = exact.slice(0, at).trimEnd()
+  const tail = exact.slice(at).trimStart()
+  if (!head || !tail) return null
+  const tailStart = anchor.start + exact.length - tail.length
+  return [
+    withContext(anchor.start, head, prefix, exact.slice(head.length) + suffix),
+    withContext(tailStart, tail, prefix + exact.slice(0, exact.length - tail.length), suffix),
+  ]
+}
+
+/**
+ * One anchor covering `a`, `b` and the text between them. The gap has to be known from
+ * the context of the first one, so only overlapping or nearby passages can merge.
+ */
+export function mergeTextAnchors(a: TextAnchor, b: TextAnchor): TextAnchor | null {
+  const [first, second] = a.start <= b.start ? [a, b] : [b, a]
+  if (second.end <= first.end) return first
+  const gap = second.start - first.end
+  if (gap > first.quote.suffix.length) return null
+  const exact = gap >= 0
+    ? first.quote.exact + first.quote.suffix.slice(0, gap) + second.quote.exact
+    : first.quote.exact + second.quote.exact.slice(-gap)
+  return withContext(first.start, exact, first.quote.prefix, second.quote.suffix)
+}
+
+/** Offsets inside `anchor`'s passage where it can be split, one per gap between words */
+export function anchorSplitPoints(anchor: TextAnchor): number[] {
+  const points: number[] = []
+  for (const m of Array.from(anchor.quote.exact.matchAll(/\s+/g))) {
+    const at = (m.index ?? 0) + m[0].length
+    if ((m.index ?? 0) > 0 && at < anchor.quote.exact.length) points.push(at)
+  }
+  return points
+}
+
+/**
+ * Where `anchor` sits in `text` now. It stays at its offsets while the text there is
+ * unchanged; otherwise the occurrence of the quote with the best matching context wins
+ * (ties go to the one nearest the old position). A passage that was itself edited is
+ * found by its first and last characters, or between its prefix and suffix. Returns
+ * null when it can't be found.
+ */
+export function resolveTextAnchor(text: string, anchor: TextAnchor): { start: number; end: number } | null {
+  const { start, end, quote } = anchor
+  if (!quote.exact) return null
+  if (text.slice(start, end) === quote.exact) return { start, end }
+
+  let best: { start: number; context: number; distance: number } | null = null
+  let seen = 0
+  for (let i = text.indexOf(quote.exact); i >= 0 && seen < MAX_CANDIDATES; i = text.indexOf(quote.exact, i + 1), seen++) {
+    const after = i + quote.exact.length
+    const context =
+      commonSuffixLength(text.slice(Math.max(0, i - quote.prefix.length), i), quote.prefix) +
+      commonPrefixLength(text.slice(after, after + quote.suffix.length), quote.suffix)
+    const distance = Math.abs(i - start)
+    if (!best || context > best.context || (context === best.context && distance < best.distance)) {
+      best = { start: i, context, distance }
+    }
+  }
+  if (best) return { start: best.start, end: best.start + quote.exact.length }
+
+  // Allow the passage to grow or shrink by half while being found again
+  const window = Math.ceil(quote.exact.length * 1.5)
+  if (quote.exact.length >= QUOTE_EDGE * 2) {
+    const head = quote.exact.slice(0, QUOTE_EDGE)
+    const tail = quote.exact.slice(-QUOTE_EDGE)
+    const from = nearestIndexOf(text, head, start)
+    if (from >= 0) {
+      const to = text.indexOf(tail, from + head.length)
+      if (to >= 0 && to + tail.length - from <= window) return { start: from, end: to + tail.length }
+    }
+  }
+  if (quote.prefix && quote.suffix) {
+    const before = nearestIndexOf(text, quote.prefix, start - quote.prefix.length)
+    if (before >= 0) {
+      const from = before + quote.prefix.length
+      const to = text.indexOf(quote.suffix, from)
+      if (to > from && to - from <= window) return { start: from, end: to }
+    }
+  }
+  return null
+}
+
+/**
+ * The text nodes under `root` with their offsets in the anchoring text. An element's
+ * `data-text-offset` is the offset of its first character; a text node counts from its
+ * nearest such ancestor, or from the root's own offset (0 by default).
+ */
+export function indexTextNodes(root: HTMLElement): TextNodeOffset[] {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  const counted = new Map<Element, number>()
+  const nodes: TextNodeOffset[] = []
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+    const node = n as Text
+    const parentTag = node.parentElement?.tagName
+    if (parentTag === 'STYLE' || parentTag === 'SCRIPT') continue
+    const marked = node.parentElement?.closest<HTMLElement>('[data-text-offset]')
+    const base = marked && root.contains(marked) ? marked : root
+    const before = counted.get(base) ?? 0
+    nodes.push({ node, start: Number(base.dataset.textOffset ?? 0) + before })
+    counted.set(base, before + node.length)
+  }
+  return nodes
+}
+
+/** Offset of a DOM boundary point among the indexed nodes, or null when there are none */
+export function offsetOfPoint(nodes: TextNodeOffset[], container: Node, offset: number): number | null {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const entry = nodes.find(n => n.node === container)
+    if (entry) return entry.start + Math.min(offset, entry.node.length)
+  }
+  const point = document.createRange()
+  point.setStart(container, offset)
+  // An element boundary sits at the start of the first text node after it
+  for (const n of nodes) {
+    if (point.comparePoint(n.node, 0) >= 0) return n.start
+  }
+  const last = nodes[nodes.length - 1]
+  return last ? last.start + last.node.length : null
+}
+
+/** A DOM range over [start, end) clipped to the indexed nodes, or null when they don't overlap it */
+export function rangeForOffsets(nodes: TextNodeOffset[], start: number, end: number): Range | null {
+  let from: { node: Text; offset: number } | null = null
+  let to: { node: Text; offset: number } | null = null
+  for (const n of nodes) {
+    const nodeEnd = n.start + n.node.length
+    if (nodeEnd <= start || n.start >= end) continue
+    if (!from) from = { node: n.node, offset: Math.max(0, start - n.start) }
+    to = { node: n.node, offset: Math.min(n.node.length, end - n.start) }
+  }
+  if (!from || !to) return null
+  const range = document.createRange()
+  range.setStart(from.node, from.offset)
+  range.setEnd(to.node, to.offset)
+  return range
+}
+
+/** The text position under a point in the viewport, where the browser can tell */
+export function caretPointAt(x: number, y: number): { node: Node; offset: number } | null {
+  if ('caretPositionFromPoint' in document) {
+    const position = document.caretPositionFromPoint(x, y)
+    return position ? { node: position.offsetNode, offset: position.offset } : null
+  }
+  if ('caretRangeFromPoint' in document) {
+    const range = (document as Document).caretRangeFromPoint(x, y)
+    return range ? { node: range.startContainer, offset: range.startOffset } : null
+  }
+  return null
+}
+
+/**
+ * The selection's rectangles on a PDF text layer, in page space and merged into one
+ * rectangle per line. `pageWidth` is the page's unscaled width.
+ */
+export function selectionPageRects(range: Range, layer: HTMLElement, pageWidth: number): PageRect[] {
+  const box = layer.getBoundingClientRect()
+  const factor = box.width / pageWidth
+  if (!(factor > 0)) return []
+
+  const rects = Array.from(range.getClientRects())
+    .filter(r => r.width > 0.5 && r.height > 0.5)
+    .map(r => ({ x: (r.left - box.left) / factor, y: (r.top - box.top) / factor, width: r.width / factor, height: r.height / factor }))
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+
+  const merged: PageRect[] = []
+  for (const r of rects) {
+    const line = merged.find(m =>
+      Math.abs(m.y - r.y) < Math.min(m.height, r.height) * 0.5 &&
+      r.x <= m.x + m.width + r.height &&
+      r.x + r.width >= m.x - r.height
+    )
+    if (!line) {
+      merged.push({ ...r })
+      continue
+    }
+    const right = Math.max(line.x + line.width, r.x + r.width)
+    const bottom = Math.max(line.y + line.height, r.y + r.height)
+    line.x = Math.min(line.x, r.x)
+    line.y = Math.min(line.y, r.y)
+    line.width = right - line.x
+    line.height = bottom - line.y
+  }
+  return merged
+}
+
+function supportsHighlightPainting(): boolean {
+  return typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined'
+}
+
+const PAINT_STYLE_ID = 'book-highlight-colors'
+// Registries painted last time, so colors that are gone can be cleared
+const paintedRegistries = new Set<string>()
+
+function registryName(colorId: string): string {
+  return `book-highlight-${colorId.replace(/[^\w-]/g, '')}`
+}
+
+/**
+ * Define how each palette color paints. The palette is user-defined, so its rules live
+ * in a style element of their own rather than in the global stylesheet.
+ */
+export function setHighlightPaintColors(colors: { id: string; fill: string }[]): void {
+  if (typeof document === 'undefined') return
+  let style = document.getElementById(PAINT_STYLE_ID)
+  if (!style) {
+    style = document.createElement('style')
+    style.id = PAINT_STYLE_ID
+    document.head.appendChild(style)
+  }
+  style.textContent = colors.map(c => `::highlight(${registryName(c.id)}) { background-color: ${c.fill}; }`).join('\n')
+}
+
+/** Paint saved highlights, one registry per color so overlapping highlights both show */
+export function paintTextHighlights(rangesByColor: Map<string, Range[]>): void {
+  if (!supportsHighlightPainting()) return
+  const names = new Set<string>()
+  rangesByColor.forEach((ranges, color) => {
+    if (ranges.length === 0) return
+    const name = registryName(color)
+    const highlight = new Highlight(...ranges)
+    // Search matches paint over saved highlights
+    highlight.priority = -1
+    CSS.highlights.set(name, highlight)
+    names.add(name)
+  })
+  paintedRegistries.forEach((name) => {
+    if (!names.has(name)) CSS.highlights.delete(name)
+  })
+  paintedRegistries.clear()
+  names.forEach(name => paintedRegistries.add(name))
+}
+
+export function clearTextHighlights(): void {
+  if (!supportsHighlightPainting()) return
+  paintedRegistries.forEach(name => CSS.highlights.delete(name))
+  paintedRegistries.clear()
+}
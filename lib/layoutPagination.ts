@@ -0,0 +1,130 @@
+'use client'
+
+/**
+ * Layout Pagination
+ *
+ * Cuts reflowable content into pages that fit the reader's viewport at the current
+ * typography. The caller lays the whole text out once in a hidden element styled like
+ * the page, one child element per block; pages end where the next block would
+ * overflow. Pages are character ranges into the book text, so a reading position
+ * kept as a character offset survives repagination.
+ */
+
+export interface LayoutPage {
+  /** Offset of the page's first character in the book text */
+  start: number
+  /** Offset just past the page's last character */
+  end: number
+  /** Top-level blocks shown on the page, `lastBlock` exclusive */
+  firstBlock: number
+  lastBlock: number
+}
+
+// Text of `block` as positioned text nodes, for mapping offsets to DOM positions
+function textNodesOf(block: HTMLElement): { node: Text; start: number }[] {
+  const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT)
+  const nodes: { node: Text; start: number }[] = []
+  let length = 0
+  for (let n = walker.nextNode(); n; n = walker.nextNode()) {
+    nodes.push({ node: n as Text, start: length })
+    length += (n as Text).length
+  }
+  return nodes
+}
+
+function rangeAt(nodes: { node: Text; start: number }[], from: number, to: number): Range {
+  const locate = (offset: number) => {
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      if (offset >= nodes[i].start) return { node: nodes[i].node, offset: Math.min(offset - nodes[i].start, nodes[i].node.length) }
+    }
+    return { node: nodes[0].node, offset: 0 }
+  }
+  const range = document.createRange()
+  const a = locate(from)
+  const b = locate(to)
+  range.setStart(a.node, a.offset)
+  range.setEnd(b.node, b.offset)
+  return range
+}
+
+/**
+ * Longest prefix of `block`'s text, after `from`, whose last line ends above `limit`
+ * (in the coordinates of `origin`), moved back to the start of the word that did not fit.
+ */
+function findBreakOffset(block: HTMLElement, nodes: { node: Text; start: number }[], from: number, origin: number, limit: number): number {
+  const text = block.textContent ?? ''
+  let lo = from
+  let hi = text.length
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2)
+    if (rangeAt(nodes, from, mid).getBoundingClientRect().bottom - origin <= limit) lo = mid
+    else hi = mid - 1
+  }
+  let wordStart = lo
+  while (wordStart > from && !/\s/.test(text[wordStart - 1])) wordStart--
+  // A single word longer than a line still has to go somewhere
+  if (wordStart > from) return wordStart
+  return lo > from ? lo : from + 1
+}
+
+/**
+ * Paginate the children of `container`. `blockStarts[i]` is the offset of block i in
+ * the book text and `textLength` the length of that text. With `splitBlocks`, a block
+ * too tall for a page is broken between words; otherwise it gets a page to itself.
+ */
+export function paginateBlocks(
+  container: HTMLElement,
+  blockStarts: number[],
+  textLength: number,
+  pageHeight: number,
+  splitBlocks: boolean
+): LayoutPage[] {
+  const blocks = Array.from(container.children) as HTMLElement[]
+  if (blocks.length === 0 || pageHeight <= 0) return [{ start: 0, end: textLength, firstBlock: 0, lastBlock: blocks.length }]
+
+  const origin = container.getBoundingClientRect().top
+  const pages: LayoutPage[] = []
+  let page = { start: 0, firstBlock: 0, top: 0 }
+
+  const closePage = (end: number, lastBlock: number, next: { start: number; firstBlock: number; top: number }) => {
+    if (end > page.start) pages.push({ start: page.start, end, firstBlock: page.firstBlock, lastBlock })
+    page = next
+  }
+
+  for (let i = 0; i < blocks.length; i++) {
+    const rect = blocks[i].getBoundingClientRect()
+    const top = rect.top - origin
+    const bottom = rect.bottom - origin
+    if (bottom - page.top <= pageHeight) continue
+
+    // Start the overflowing block on a fresh page
+    if (i > page.firstBlock) closePage(blockStarts[i], i, { start: blockStarts[i], firstBlock: i, top })
+    if (bottom - page.top <= pageHeight || !splitBlocks) continue
+
+    const nodes = textNodesOf(blocks[i])
+    if (nodes.length === 0) continue
+    let from = 0
+    while (bottom - page.top > pageHeight) {
+      const cut = findBreakOffset(blocks[i], nodes, from, origin, page.top + pageHeight)
+      if (cut >= (blocks[i].textContent ?? '').length) break
+      const nextTop = rangeAt(nodes, cut, cut + 1).getBoundingClientRect().top - origin
+      closePage(blockStarts[i] + cut, i + 1, { start: blockStarts[i] + cut, firstBlock: i, top: nextTop })
+      from = cut
+    }
+  }
+  closePage(textLength, blocks.length, page)
+
+  return pages.length > 0 ? pages : [{ start: 0, end: textLength, firstBlock: 0, lastBlock: blocks.length }]
+}
+
+/** Index of the page that contains `offset` */
+export function pageIndexForOffset(pages: LayoutPage[], offset: number): number {
+  let lo = 0
+  let hi = pages.length - 1
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2)
+    if (pages[mid].start <= offset) lo = mid
+    else hi = mid - 1
+  }
+  return Math.max(0, lo)
+}
@@ -0,0 +1,151 @@
+'use client'
+
+/**
+ * PDF Reflow
+ *
+ * Rebuilds readable paragraphs from the positioned text items PDF.js extracts
+ * from a page: items are grouped into lines, running headers and footers are
+ * dropped, hyphenated line breaks are joined and lines are merged into paragraphs.
+ */
+
+export interface PdfTextLine {
+  text: string
+  x: number
+  /** Baseline, in PDF units from the bottom of the page */
+  y: number
+  width: number
+  /** Font size of the tallest item on the line */
+  height: number
+}
+
+interface PositionedText {
+  text: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// How many lines at each edge of a page can be a running header or footer
+const EDGE_LINES = 2
+
+const PAGE_NUMBER = /^(page\s+)?(\d+|[ivxlcdm]+)(\s*(of|\/)\s*\d+)?$/i
+const TRAILING_HYPHEN = new RegExp('\\p{L}[-\u00AD]$', 'u')
+const LEADING_LOWERCASE = new RegExp('^\\p{Ll}', 'u')
+const SENTENCE_END = /[.!?:;"'\u201D\u2019)\]]$/
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Group PDF.js text items into lines. Items keep the order of the content stream,
+ * which follows the reading order of most documents (columns included); a new line
+ * starts whenever the baseline moves by more than a fraction of the font size.
+ */
+export function groupTextLines(items: any[]): PdfTextLine[] {
+  const lines: PositionedText[][] = []
+  let lineY = 0
+  let lineHeight = 0
+
+  for (const item of items) {
+    if (typeof item?.str !== 'string' || !item.str.trim() || !Array.isArray(item.transform)) continue
+    const part: PositionedText = {
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width || 0,
+      height: item.height || Math.hypot(item.transform[2], item.transform[3]) || 10,
+    }
+    const current = lines[lines.length - 1]
+    if (current && Math.abs(part.y - lineY) <= Math.max(lineHeight, part.height) * 0.4) {
+      current.push(part)
+      lineHeight = Math.max(lineHeight, part.height)
+    } else {
+      lines.push([part])
+      lineY = part.y
+      lineHeight = part.height
+    }
+  }
+
+  return lines.map((parts) => {
+    parts.sort((a, b) => a.x - b.x)
+    const height = Math.max(...parts.map(p => p.height))
+    let text = ''
+    let end = parts[0].x
+    for (const part of parts) {
+      // PDFs often position words instead of emitting spaces between them
+      if (text && part.x - end > height * 0.15 && !/\s$/.test(text) && !/^\s/.test(part.text)) text += ' '
+      text += part.text
+      end = Math.max(end, part.x + part.width)
+    }
+    return { text: text.replace(/\s+/g, ' ').trim(), x: parts[0].x, y: parts[0].y, width: end - parts[0].x, height }
+  }).filter(line => line.text)
+}
+
+// Running heads repeat with a different page or chapter number, so digits are ignored
+function lineSignature(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Drop running headers and footers: bare page numbers, and lines at the top or
+ * bottom of `page` that also sit at the top or bottom of a neighbouring page.
+ * Pass pages on both sides so alternating left/right heads are recognised.
+ */
+export function stripRunningLines(page: PdfTextLine[], neighbours: PdfTextLine[][]): PdfTextLine[] {
+  const edgeSignatures = new Set<string>()
+  for (const lines of neighbours) {
+    for (const line of [...lines.slice(0, EDGE_LINES), ...lines.slice(-EDGE_LINES)]) {
+      edgeSignatures.add(lineSignature(line.text))
+    }
+  }
+  const isRunning = (line: PdfTextLine) => PAGE_NUMBER.test(line.text) || edgeSignatures.has(lineSignature(line.text))
+
+  let start = 0
+  let end = page.length
+  while (start < Math.min(EDGE_LINES, end) && isRunning(page[start])) start++
+  while (end > Math.max(start, page.length - EDGE_LINES) && isRunning(page[end - 1])) end--
+  return page.slice(start, end)
+}
+
+/**
+ * Merge lines into paragraphs, returned one per line of text. A paragraph ends at a
+ * gap wider than the usual line spacing, a change of font size, an indented line,
+ * or a short line that ends a sentence. Words hyphenated across lines are rejoined.
+ */
+export function reflowTextLines(lines: PdfTextLine[]): string {
+  if (lines.length === 0) return ''
+
+  const lineGap = median(lines.slice(1).map((line, i) => lines[i].y - line.y).filter(gap => gap > 0)) || lines[0].height * 1.2
+  const bodyLeft = median(lines.map(line => line.x))
+  const bodyWidth = median(lines.map(line => line.width))
+
+  const paragraphs: string[] = []
+  let paragraph = lines[0].text
+
+  for (let i = 1; i < lines.length; i++) {
+    const prev = lines[i - 1]
+    const line = lines[i]
+    const gap = prev.y - line.y
+    const breaks =
+      gap > lineGap * 1.5 ||
+      Math.abs(line.height - prev.height) > prev.height * 0.15 ||
+      (gap > 0 && line.x > bodyLeft + line.height) ||
+      (prev.width < bodyWidth * 0.8 && SENTENCE_END.test(prev.text))
+
+    if (breaks) {
+      paragraphs.push(paragraph)
+      paragraph = line.text
+    } else if (TRAILING_HYPHEN.test(paragraph) && LEADING_LOWERCASE.test(line.text)) {
+      paragraph = paragraph.slice(0, -1) + line.text
+    } else {
+      paragraph += ' ' + line.text
+    }
+  }
+  paragraphs.push(paragraph)
+
+  return paragraphs.join('\n')
+}
@@ -14,6 +14,7 @@ export const SUPPORTED_FILE_TYPES = [
   'application/pdf',
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
   'text/plain',
+  'application/epub+zip',
 ] as const
 
 export type SupportedFileType = (typeof SUPPORTED_FILE_TYPES)[number]
@@ -22,6 +23,7 @@ export const FILE_EXTENSION_MAP: Record<string, SupportedFileType> = {
   '.pdf': 'application/pdf',
   '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
   '.txt': 'text/plain',
+  '.epub': 'application/epub+zip',
 }
 
 // Types
@@ -94,14 +96,28 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
 }
 
 /**
- * Upload and train a document to the knowledge base
+ * Name a document is stored under when it is scoped to one owner (e.g. a book) in a shared
+ * knowledge base. EPUB files are trained as TXT, so their stored name ends in .txt.
  */
-export async function uploadAndTrainDocument(ragId: string, file: File): Promise<UploadResponse> {
+export function getScopedDocumentName(scopeId: string, fileName: string): string {
+  return `${scopeId}-${fileName.replace(/\.epub$/i, '.txt')}`
+}
+
+/**
+ * Upload and train a document to the knowledge base.
+ * EPUB files are converted to plain text on the server and trained as TXT.
+ * `documentName` overrides the stored file name; `extraInfo` is attached to every trained chunk.
+ */
+export async function uploadAndTrainDocument(
+  ragId: string,
+  file: File,
+  options?: { documentName?: string; extraInfo?: Record<string, any> }
+): Promise<UploadResponse> {
   // Validate file type
   if (!SUPPORTED_FILE_TYPES.includes(file.type as SupportedFileType)) {
     return {
       success: false,
-      error: `Unsupported file type: ${file.type}. Supported: PDF, DOCX, TXT`,
+      error: `Unsupported file type: ${file.type}. Supported: PDF, DOCX, TXT, EPUB`,
     }
   }
 
@@ -109,6 +125,8 @@ export async function uploadAndTrainDocument(ragId: string, file: File): Promise
     const formData = new FormData()
     formData.append('ragId', ragId)
     formData.append('file', file, file.name)
+    if (options?.documentName) formData.append('documentName', options.documentName)
+    if (options?.extraInfo) formData.append('extraInfo', JSON.stringify(options.extraInfo))
 
     const response = await fetchWrapper('/api/rag', {
       method: 'POST',
@@ -181,7 +199,7 @@ export function validateFile(file: File): { valid: boolean; error?: string } {
   if (!SUPPORTED_FILE_TYPES.includes(file.type as SupportedFileType)) {
     return {
       valid: false,
-      error: `Unsupported file type. Supported formats: PDF, DOCX, TXT`,
+      error: `Unsupported file type. Supported formats: PDF, DOCX, TXT, EPUB`,
     }
   }
   return { valid: true }